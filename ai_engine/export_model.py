@@ -0,0 +1,152 @@
+"""Export the trained risk model as JSON for on-device inference in the app.
+
+The app cannot run scikit-learn, so this writes the scaler statistics and the
+coefficients of a linear classifier in a plain JSON format that
+lib/offline-risk-model.ts evaluates. Parity fixtures computed by this Python
+model are included so the app can check its implementation before trusting it.
+
+Usage: python export_model.py [output.json] [fixtures.json]
+
+The optional fixtures file holds the scaled features, probabilities and class the
+Python pipeline produces for a wider set of inputs. The app's tests check the
+offline model against it:
+
+    python export_model.py ../lib/__tests__/fixtures/exported-risk-model.json \
+        ../lib/__tests__/fixtures/risk-model-parity.json
+"""
+import hashlib
+import json
+import sys
+from pathlib import Path
+
+import joblib
+import numpy as np
+import pandas as pd
+
+EXPORT_FORMAT = "glucogard-linear-v1"
+
+FEATURE_COLUMNS = ['age', 'bmi', 'weight', 'height', 'systolic_bp',
+                   'family_history', 'physical_activity', 'diet_quality',
+                   'location', 'smoking', 'bmi_category', 'age_group']
+
+BMI_BINS = [0, 18.5, 25, 30, 100]
+AGE_BINS = [0, 30, 45, 60, 100]
+
+# Inputs spanning every bin and category, including out-of-range values
+PARITY_INPUTS = [
+    {'age': 25, 'bmi': 17.5, 'weight': 50, 'height': 169, 'systolic_bp': 105,
+     'family_history': 0, 'physical_activity': 3, 'diet_quality': 9, 'location': 0, 'smoking': 0},
+    {'age': 45, 'bmi': 28.5, 'weight': 75, 'height': 165, 'systolic_bp': 140,
+     'family_history': 1, 'physical_activity': 1, 'diet_quality': 6, 'location': 1, 'smoking': 0},
+    {'age': 30, 'bmi': 25, 'weight': 72, 'height': 170, 'systolic_bp': 120,
+     'family_history': 0, 'physical_activity': 2, 'diet_quality': 7, 'location': 1, 'smoking': 1},
+    {'age': 60, 'bmi': 30, 'weight': 88, 'height': 171, 'systolic_bp': 155,
+     'family_history': 1, 'physical_activity': 0, 'diet_quality': 3, 'location': 0, 'smoking': 2},
+    {'age': 72, 'bmi': 36.2, 'weight': 102, 'height': 168, 'systolic_bp': 178,
+     'family_history': 1, 'physical_activity': 0, 'diet_quality': 2, 'location': 1, 'smoking': 2},
+    {'age': 105, 'bmi': 0, 'weight': 0, 'height': 0, 'systolic_bp': 0,
+     'family_history': 0, 'physical_activity': 0, 'diet_quality': 5, 'location': 0, 'smoking': 0},
+]
+
+# Values on and just past every bin edge, where pandas.cut and the app must agree
+BIN_EDGE_INPUTS = [
+    {**PARITY_INPUTS[2], 'age': age, 'bmi': bmi}
+    for age, bmi in [(0, 18.5), (0.5, 18.6), (30.01, 25.01), (45, 30.01), (45.01, 100), (60.01, 100.01), (100, 0.01)]
+]
+
+
+def build_features(rows):
+    """Same preprocessing as predict_risk in main.py."""
+    data = pd.DataFrame(rows)
+    data['bmi_category'] = pd.cut(data['bmi'], bins=BMI_BINS, labels=[0, 1, 2, 3])
+    data['bmi_category'] = data['bmi_category'].cat.add_categories(-1).fillna(-1).astype(int)
+    data['age_group'] = pd.cut(data['age'], bins=AGE_BINS, labels=[0, 1, 2, 3])
+    data['age_group'] = data['age_group'].cat.add_categories(-1).fillna(-1).astype(int)
+    return data[FEATURE_COLUMNS]
+
+
+def select_linear_model(model_components):
+    """The service's best model if it is linear, otherwise the trained logistic regression."""
+    best_model = model_components["best_model"]
+    if hasattr(best_model, "coef_"):
+        return best_model, "best_model"
+
+    logistic = model_components.get("models", {}).get("Logistic Regression")
+    if logistic is not None and hasattr(logistic, "coef_"):
+        return logistic, "Logistic Regression"
+
+    raise ValueError("No linear model with coefficients found in the model file")
+
+
+def is_multinomial(model):
+    multi_class = getattr(model, "multi_class", "auto")
+    if multi_class == "ovr":
+        return False
+    return multi_class == "multinomial" or getattr(model, "solver", "lbfgs") != "liblinear"
+
+
+def export_model(model_components, model_version):
+    model, source = select_linear_model(model_components)
+    scaler = model_components["scaler"]
+
+    features = build_features(PARITY_INPUTS)
+    probabilities = model.predict_proba(scaler.transform(features))
+
+    return {
+        "format": EXPORT_FORMAT,
+        "model_version": model_version,
+        "source_model": source,
+        "feature_columns": FEATURE_COLUMNS,
+        "bmi_bins": BMI_BINS,
+        "age_bins": AGE_BINS,
+        "scaler": {
+            "mean": np.asarray(scaler.mean_).tolist(),
+            "scale": np.asarray(scaler.scale_).tolist(),
+        },
+        "classes": np.asarray(model.classes_).astype(int).tolist(),
+        "multinomial": is_multinomial(model),
+        "coefficients": np.asarray(model.coef_).tolist(),
+        "intercepts": np.asarray(model.intercept_).tolist(),
+        "parity_fixtures": [
+            {"input": row, "probabilities": probs.tolist()}
+            for row, probs in zip(PARITY_INPUTS, probabilities)
+        ],
+    }
+
+
+def export_fixtures(model_components, model_version):
+    """Scaled features, probabilities and class for every parity and bin edge input."""
+    model, _ = select_linear_model(model_components)
+    inputs = PARITY_INPUTS + BIN_EDGE_INPUTS
+
+    features = model_components["scaler"].transform(build_features(inputs))
+    probabilities = model.predict_proba(features)
+    classes = model.predict(features)
+
+    return {
+        "model_version": model_version,
+        "cases": [
+            {"input": row, "features": x.tolist(), "probabilities": probs.tolist(), "class": int(c)}
+            for row, x, probs, c in zip(inputs, features, probabilities, classes)
+        ],
+    }
+
+
+def model_file_version(model_path):
+    """Identifies the model file, so the app notices when it is retrained."""
+    return hashlib.sha256(model_path.read_bytes()).hexdigest()[:16]
+
+
+if __name__ == "__main__":
+    model_path = Path(__file__).resolve().parent / "diabetes_model.pkl"
+    output_path = Path(sys.argv[1]) if len(sys.argv) > 1 else Path("diabetes_model.json")
+
+    exported = export_model(joblib.load(model_path), model_file_version(model_path))
+    output_path.write_text(json.dumps(exported, indent=2))
+    print(f"Exported {exported['source_model']} to {output_path}")
+
+    if len(sys.argv) > 2:
+        fixtures_path = Path(sys.argv[2])
+        fixtures = export_fixtures(joblib.load(model_path), exported["model_version"])
+        fixtures_path.write_text(json.dumps(fixtures, indent=2))
+        print(f"Wrote {len(fixtures['cases'])} parity fixtures to {fixtures_path}")
@@ -3,6 +3,8 @@ from pydantic import BaseModel
 import joblib
 from pathlib import Path
 
+from export_model import export_model, model_file_version
+
 # Load trained model
 model_path = Path(__file__).resolve().parent / "diabetes_model.pkl"
 model_components = joblib.load(model_path)
@@ -61,3 +63,8 @@ def predict_risk(data: DiabetesInput):
         "risk_level": int(prediction),
         "probabilities": {risk_category_display[i]: float(prob) for i, prob in enumerate(probability)}
     }
+
+@app.get("/model-export")
+def get_model_export():
+    # Coefficients for on-device inference when the app cannot reach this service
+    return export_model(model_components, model_file_version(model_path))
@@ -33,6 +33,12 @@ import {
 } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
+import { ADAPTIVE_QUESTIONNAIRE, formatAnswer, migrateAnswers } from '@/lib/questionnaire';
+import { translateText } from '@/lib/i18n';
+import type { RiskFactorContribution } from '@/lib/assessment-simulation';
+import { getRiskModel } from '@/lib/risk-models';
+import { sortCarePlan } from '@/lib/care-plan';
+import { CarePlanEditor } from '@/components/CarePlanEditor';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -47,17 +53,27 @@ const { width, height } = Dimensions.get('window');
 interface AssessmentDetails {
   id: string;
   answers: any;
+  questionnaire_version: number;
   status: string;
   submitted_at: string;
   risk_predictions?: {
     risk_score: number;
     risk_category: string;
     raw_prediction?: any;
+    model_id?: string | null;
+    model_version?: string | null;
   }[];
   recommendations?: {
     content: string;
     type: 'lifestyle' | 'clinical';
     created_at: string;
+    rule_id: string | null;
+    priority: number | null;
+    evidence: string | null;
+    position: number | null;
+    doctor_id: string | null;
+    updated_at: string | null;
+    updated_by: string | null;
   }[];
 }
 
@@ -95,36 +111,55 @@ export default function AssessmentDetailsScreen() {
     if (!id || !user) return;
 
     try {
-      // Get patient ID first
-      const { data: patientData } = await supabase
-        .from('patients')
-        .select('id')
-        .eq('user_id', user.id)
-        .single();
-
-      if (!patientData) {
-        setLoading(false);
-        return;
+      // Doctors open any patient's assessment from the patient list; patients only their own
+      let patientId: string | null = null;
+      if (user.role !== 'doctor') {
+        const { data: patientData } = await supabase
+          .from('patients')
+          .select('id')
+          .eq('user_id', user.id)
+          .single();
+
+        if (!patientData) {
+          setLoading(false);
+          return;
+        }
+        patientId = patientData.id;
       }
 
-      const { data, error } = await supabase
+      let query = supabase
         .from('health_submissions')
         .select(`
           *,
           risk_predictions (
             risk_score,
             risk_category,
-            raw_prediction
+            raw_prediction,
+            model_id,
+            model_version
           ),
           recommendations (
             content,
             type,
-            created_at
+            created_at,
+            rule_id,
+            priority,
+            evidence,
+            position,
+            doctor_id,
+            updated_at,
+            updated_by
           )
         `)
         .eq('id', id)
-        .eq('patient_id', patientData.id)
-        .single();
+        // Retired recommendations are no longer part of the care plan
+        .is('recommendations.retired_at', null);
+
+      if (patientId) {
+        query = query.eq('patient_id', patientId);
+      }
+
+      const { data, error } = await query.single();
 
       if (error) {
         console.error('Error fetching assessment details:', error);
@@ -234,6 +269,7 @@ export default function AssessmentDetailsScreen() {
   }
 
   const riskPrediction = assessment.risk_predictions?.[0];
+  const riskModel = riskPrediction?.model_id ? getRiskModel(riskPrediction.model_id) : null;
   const RiskIcon = getRiskIcon(riskPrediction?.risk_category || '');
   const healthScore = getHealthScore();
 
@@ -384,18 +420,57 @@ export default function AssessmentDetailsScreen() {
           <Animated.View style={[styles.tabContent, contentAnimatedStyle]}>
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>📝 Assessment Responses</Text>
-              {Object.entries(assessment.answers as Record<string, any>).map(([key, value], index) => (
-                <View key={key} style={styles.responseCard}>
-                  <Text style={styles.responseQuestion}>
-                    {key.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
-                  </Text>
-                  <Text style={styles.responseAnswer}>
-                    {Array.isArray(value) ? value.join(', ') : String(value)}
-                  </Text>
-                </View>
-              ))}
+              {Object.entries(migrateAnswers(assessment.answers, assessment.questionnaire_version)).map(([key, value], index) => {
+                const question = ADAPTIVE_QUESTIONNAIRE.questions.find(q => q.id === key);
+                return (
+                  <View key={key} style={styles.responseCard}>
+                    <Text style={styles.responseQuestion}>
+                      {question
+                        ? translateText(question.text)
+                        : key.replace(/-/g, ' ').replace(/\b\w/g, l => l.toUpperCase())}
+                    </Text>
+                    <Text style={styles.responseAnswer}>
+                      {question
+                        ? formatAnswer(question, value)
+                        : Array.isArray(value) ? value.join(', ') : String(value)}
+                    </Text>
+                  </View>
+                );
+              })}
             </View>
 
+            {riskPrediction && riskPrediction.raw_prediction?.contributing_factors?.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>💡 Why This Result</Text>
+                <Text style={styles.factorIntro}>
+                  These answers added to your risk score of {riskPrediction.raw_prediction.risk_score} out
+                  of {riskPrediction.raw_prediction.max_score ?? 100}
+                  {riskModel ? ` on the ${riskModel.name} (v${riskPrediction.model_version})` : ''}.
+                </Text>
+                {(riskPrediction.raw_prediction.contributing_factors as RiskFactorContribution[]).map((factor, index, factors) => (
+                  <View key={factor.factor} style={styles.factorCard}>
+                    <View style={styles.factorHeader}>
+                      <Text style={styles.factorLabel}>{factor.label}</Text>
+                      <Text style={styles.factorPoints}>+{factor.points}</Text>
+                    </View>
+                    <View style={styles.probabilityBar}>
+                      <View
+                        style={[
+                          styles.probabilityFill,
+                          {
+                            // Factors are sorted, so bars are relative to the largest contribution
+                            width: `${(factor.points / factors[0].points) * 100}%`,
+                            backgroundColor: getRiskColor(riskPrediction.risk_category)
+                          }
+                        ]}
+                      />
+                    </View>
+                    <Text style={styles.factorExplanation}>{factor.explanation}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+
             {riskPrediction?.raw_prediction && (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>🤖 AI Analysis</Text>
@@ -439,10 +514,15 @@ export default function AssessmentDetailsScreen() {
 
         {activeTab === 'recommendations' && (
           <Animated.View style={[styles.tabContent, contentAnimatedStyle]}>
-            {assessment.recommendations && assessment.recommendations.length > 0 ? (
+            {user?.role === 'doctor' ? (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>🩺 Care Plan</Text>
+                <CarePlanEditor submissionId={assessment.id} onChange={fetchAssessmentDetails} />
+              </View>
+            ) : assessment.recommendations && assessment.recommendations.length > 0 ? (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>💡 Personalized Recommendations</Text>
-                {assessment.recommendations.map((rec, index) => (
+                {sortCarePlan(assessment.recommendations).map((rec, index) => (
                   <View key={index} style={styles.recommendationCard}>
                     <View style={styles.recommendationHeader}>
                       <View style={[
@@ -465,6 +545,14 @@ export default function AssessmentDetailsScreen() {
                       </View>
                     </View>
                     <Text style={styles.recommendationContent}>{rec.content}</Text>
+                    {(rec.doctor_id || rec.updated_by) && (
+                      <View style={styles.recommendationRule}>
+                        <Text style={styles.recommendationRuleText}>
+                          {rec.doctor_id ? 'Added by your doctor' : 'Updated by your doctor'}
+                          {rec.updated_by && rec.updated_at ? ` • last changed ${formatDate(rec.updated_at)}` : ''}
+                        </Text>
+                      </View>
+                    )}
                   </View>
                 ))}
               </View>
@@ -835,6 +923,38 @@ const styles = StyleSheet.create({
     height: '100%',
     borderRadius: 3,
   },
+  factorIntro: {
+    fontSize: 14,
+    color: '#64748B',
+    marginBottom: 12,
+  },
+  factorCard: {
+    backgroundColor: 'white',
+    borderRadius: 8,
+    padding: 16,
+    marginBottom: 12,
+    gap: 8,
+  },
+  factorHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  factorLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  factorPoints: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#DC3545',
+  },
+  factorExplanation: {
+    fontSize: 13,
+    color: '#64748B',
+    lineHeight: 18,
+  },
   probabilityValue: {
     fontSize: 12,
     fontWeight: '600',
@@ -884,6 +1004,18 @@ const styles = StyleSheet.create({
     color: '#374151',
     lineHeight: 20,
   },
+  recommendationRule: {
+    marginTop: 12,
+    paddingTop: 8,
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+    gap: 4,
+  },
+  recommendationRuleText: {
+    fontSize: 12,
+    color: '#64748B',
+    lineHeight: 16,
+  },
   emptyRecommendations: {
     flex: 1,
     justifyContent: 'center',
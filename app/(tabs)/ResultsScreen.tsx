@@ -1,13 +1,226 @@
-import React from 'react';
-import { View, Text, StyleSheet, SafeAreaView } from 'react-native';
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useLocalSearchParams } from 'expo-router';
+import { TrendingDown, TrendingUp, Minus, Lightbulb } from 'lucide-react-native';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/context/AuthContext';
+import { migrateAnswers } from '@/lib/questionnaire';
+import { RISK_CATEGORY_BANDS } from '@/lib/assessment-simulation';
+import { generateRecommendations } from '@/lib/recommendation-rules';
+import { getLocalRiskModel } from '@/lib/risk-models';
+import { getApplicableScenarios, projectWhatIf, type WhatIfScenarioId } from '@/lib/what-if';
+
+interface LatestSubmission {
+  id: string;
+  answers: any;
+  questionnaire_version: number;
+  risk_predictions?: {
+    risk_category: string;
+  }[];
+}
+
+function getCategoryLabel(category: string): string {
+  return RISK_CATEGORY_BANDS.find(band => band.category === category)?.label || category;
+}
+
+function formatPercentagePoints(value: number): string {
+  const points = Math.round(value * 100);
+  return `${points > 0 ? '+' : ''}${points} pts`;
+}
 
 const ResultsScreen = () => {
+  const { id } = useLocalSearchParams<{ id?: string }>();
+  const { user } = useAuth();
+  const [submission, setSubmission] = useState<LatestSubmission | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedScenarios, setSelectedScenarios] = useState<WhatIfScenarioId[]>([]);
+
+  useEffect(() => {
+    fetchSubmission();
+  }, [id, user]);
+
+  const fetchSubmission = async () => {
+    if (!user) return;
+
+    try {
+      const { data: patientData } = await supabase
+        .from('patients')
+        .select('id')
+        .eq('user_id', user.id)
+        .single();
+
+      if (!patientData) return;
+
+      let query = supabase
+        .from('health_submissions')
+        .select(`
+          id,
+          answers,
+          questionnaire_version,
+          risk_predictions (
+            risk_category
+          )
+        `)
+        .eq('patient_id', patientData.id)
+        .neq('status', 'draft');
+
+      query = id ? query.eq('id', id) : query.order('submitted_at', { ascending: false }).limit(1);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      setSubmission(data?.[0] || null);
+    } catch (error) {
+      console.error('Error fetching results:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const answers = useMemo(
+    () => (submission ? migrateAnswers(submission.answers || {}, submission.questionnaire_version) : null),
+    [submission]
+  );
+  const scenarios = useMemo(() => (answers ? getApplicableScenarios(answers) : []), [answers]);
+  const projection = useMemo(
+    () => (answers && selectedScenarios.length > 0 ? projectWhatIf(answers, selectedScenarios) : null),
+    [answers, selectedScenarios]
+  );
+
+  const toggleScenario = (scenarioId: WhatIfScenarioId) => {
+    setSelectedScenarios(current =>
+      current.includes(scenarioId) ? current.filter(s => s !== scenarioId) : [...current, scenarioId]
+    );
+  };
+
+  const storedCategory = submission?.risk_predictions?.[0]?.risk_category;
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <ActivityIndicator size="large" color="white" />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (!submission || !answers) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <Text style={styles.title}>Your Assessment Results</Text>
+          <Text style={styles.description}>Here are your personalized insights based on the assessment.</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  const recommendations = generateRecommendations(answers, storedCategory || '');
+
   return (
     <SafeAreaView style={styles.container}>
-      <View style={styles.content}>
-        <Text style={styles.title}>Your Assessment Results</Text>
-        <Text style={styles.description}>Here are your personalized insights based on the assessment.</Text>
-      </View>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Your Assessment Results</Text>
+          <Text style={styles.description}>Here are your personalized insights based on the assessment.</Text>
+          {storedCategory && (
+            <View style={styles.resultBadge}>
+              <Text style={styles.resultText}>{getCategoryLabel(storedCategory)}</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Lightbulb size={20} color="#0066CC" />
+            <Text style={styles.cardTitle}>What if...?</Text>
+          </View>
+          <Text style={styles.cardSubtitle}>
+            See how lifestyle changes could shift your risk. Projections use the {getLocalRiskModel().name} model.
+          </Text>
+
+          {scenarios.length === 0 ? (
+            <Text style={styles.emptyText}>
+              None of the changes we can project apply to your answers. Keep up your healthy habits!
+            </Text>
+          ) : (
+            scenarios.map(scenario => {
+              const selected = selectedScenarios.includes(scenario.id);
+              const single = projectWhatIf(answers, [scenario.id]);
+              const relatedRecommendations = recommendations.filter(rec => rec.focus === scenario.focus);
+
+              return (
+                <TouchableOpacity
+                  key={scenario.id}
+                  style={[styles.scenario, selected && styles.scenarioSelected]}
+                  onPress={() => toggleScenario(scenario.id)}
+                  activeOpacity={0.8}
+                >
+                  <View style={styles.scenarioHeader}>
+                    <Text style={[styles.scenarioLabel, selected && styles.scenarioLabelSelected]}>
+                      {scenario.label}
+                    </Text>
+                    <Text style={styles.scenarioBenefit}>
+                      {single.riskScoreDelta === 0
+                        ? 'No change'
+                        : `${single.riskScoreDelta} of ${single.baseline.max_score} points`}
+                    </Text>
+                  </View>
+                  <Text style={styles.scenarioDescription}>{scenario.description}</Text>
+                  {relatedRecommendations.map((rec, index) => (
+                    <Text key={index} style={styles.scenarioRecommendation}>• {rec.content}</Text>
+                  ))}
+                </TouchableOpacity>
+              );
+            })
+          )}
+
+          {projection && (
+            <View style={styles.projection}>
+              <View style={styles.projectionRow}>
+                <View style={styles.projectionColumn}>
+                  <Text style={styles.projectionCaption}>Now</Text>
+                  <Text style={styles.projectionCategory}>{getCategoryLabel(projection.baseline.risk_category)}</Text>
+                </View>
+                {projection.riskLevelDelta < 0 ? (
+                  <TrendingDown size={24} color="#28A745" />
+                ) : projection.riskLevelDelta > 0 ? (
+                  <TrendingUp size={24} color="#DC3545" />
+                ) : (
+                  <Minus size={24} color="#64748B" />
+                )}
+                <View style={styles.projectionColumn}>
+                  <Text style={styles.projectionCaption}>Projected</Text>
+                  <Text style={styles.projectionCategory}>{getCategoryLabel(projection.projected.risk_category)}</Text>
+                </View>
+              </View>
+
+              <Text style={styles.projectionScore}>
+                Risk score {projection.baseline.risk_score} → {projection.projected.risk_score} of {projection.baseline.max_score}
+              </Text>
+
+              {RISK_CATEGORY_BANDS.map(band => {
+                const shift = projection.probabilityShift[band.label];
+                return (
+                  <View key={band.category} style={styles.shiftRow}>
+                    <Text style={styles.shiftLabel}>{band.label}</Text>
+                    <Text style={styles.shiftValue}>
+                      {Math.round(projection.projected.probabilities[band.label] * 100)}%
+                    </Text>
+                    <Text style={[styles.shiftDelta, { color: shift > 0 ? '#DC3545' : shift < 0 ? '#28A745' : '#64748B' }]}>
+                      {formatPercentagePoints(shift)}
+                    </Text>
+                  </View>
+                );
+              })}
+
+              <Text style={styles.disclaimer}>
+                Projections are estimates to guide your goals, not a diagnosis.
+              </Text>
+            </View>
+          )}
+        </View>
+      </ScrollView>
     </SafeAreaView>
   );
 };
@@ -23,6 +236,14 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     padding: 20,
   },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
   title: {
     fontSize: 24,
     fontWeight: 'bold',
@@ -35,6 +256,142 @@ const styles = StyleSheet.create({
     color: 'rgba(255, 255, 255, 0.8)',
     textAlign: 'center',
   },
+  resultBadge: {
+    marginTop: 16,
+    backgroundColor: 'white',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderRadius: 20,
+  },
+  resultText: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#0066CC',
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  cardSubtitle: {
+    fontSize: 13,
+    color: '#64748B',
+    lineHeight: 18,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  scenario: {
+    borderWidth: 2,
+    borderColor: '#E2E8F0',
+    borderRadius: 12,
+    padding: 14,
+    gap: 6,
+  },
+  scenarioSelected: {
+    borderColor: '#0066CC',
+    backgroundColor: '#EBF4FF',
+  },
+  scenarioHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scenarioLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  scenarioLabelSelected: {
+    color: '#0066CC',
+  },
+  scenarioBenefit: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#28A745',
+  },
+  scenarioDescription: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  scenarioRecommendation: {
+    fontSize: 13,
+    color: '#374151',
+    lineHeight: 18,
+  },
+  projection: {
+    borderTopWidth: 1,
+    borderTopColor: '#E2E8F0',
+    paddingTop: 16,
+    gap: 8,
+  },
+  projectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  projectionColumn: {
+    alignItems: 'center',
+  },
+  projectionCaption: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  projectionCategory: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#1E293B',
+  },
+  projectionScore: {
+    fontSize: 14,
+    color: '#374151',
+    textAlign: 'center',
+    marginBottom: 4,
+  },
+  shiftRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  shiftLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  shiftValue: {
+    width: 50,
+    fontSize: 14,
+    color: '#1E293B',
+    textAlign: 'right',
+  },
+  shiftDelta: {
+    width: 70,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  disclaimer: {
+    fontSize: 12,
+    color: '#64748B',
+    fontStyle: 'italic',
+    textAlign: 'center',
+    marginTop: 8,
+  },
 });
 
 export default ResultsScreen;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -11,20 +11,41 @@ import {
   Dimensions,
   Image,
   ScrollView,
+  TextInput,
 } from 'react-native';
 import { useRouter } from 'expo-router';
 import { Heart, ArrowRight, ArrowLeft, CircleCheck as CheckCircle, Star, Trophy, Target, Zap, Brain, Activity } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { type Json } from '@/types/database';
 import { useAuth } from '@/context/AuthContext';
-import { simulateRiskPrediction, generateSimulatedRecommendations } from '@/lib/assessment-simulation';
+import { generateRecommendations } from '@/lib/recommendation-rules';
+import { getRiskPrediction, needsRescoring } from '@/lib/prediction-client';
+import { loadCachedRiskModel, refreshOfflineRiskModel } from '@/lib/offline-risk-model';
+import {
+  loadAssessmentDraft,
+  saveAssessmentDraft,
+  clearAssessmentDraft,
+  discardAssessmentDraft,
+  type AssessmentDraft
+} from '@/lib/assessment-drafts';
 import { 
   ADAPTIVE_QUESTIONNAIRE, 
   getNextQuestion, 
   calculateProgress,
   validateAnswer,
+  loadQuestionnaireFlow,
+  replayAnswers,
+  formatAnswer,
+  getInputUnits,
+  normalizeNumberAnswer,
+  toggleMultipleChoiceOption,
   type Question,
-  type QuestionOption 
+  type QuestionOption,
+  type RepeatedGroupAnswer,
+  type QuestionnaireFlow
 } from '@/lib/questionnaire';
+import { UNITS, fromCanonicalValue, type UnitId } from '@/lib/units';
+import { t, translateText } from '@/lib/i18n';
 
 const { width, height } = Dimensions.get('window');
 
@@ -35,20 +56,37 @@ interface GameState {
   score: number;
   streak: number;
   badges: string[];
+  // Questions answered before the current one, in the order they were asked
+  history: string[];
+  reviewing: boolean;
+  // Set when an answer is edited from the review step, so answering returns there
+  editingFromReview: boolean;
 }
 
+const INITIAL_GAME_STATE: GameState = {
+  currentQuestion: null,
+  answers: {},
+  progress: 0,
+  score: 0,
+  streak: 0,
+  badges: [],
+  history: [],
+  reviewing: false,
+  editingFromReview: false
+};
+
 export default function AssessmentScreen() {
   const { user } = useAuth();
   const router = useRouter();
   const [loading, setLoading] = useState(false);
-  const [gameState, setGameState] = useState<GameState>({
-    currentQuestion: null,
-    answers: {},
-    progress: 0,
-    score: 0,
-    streak: 0,
-    badges: []
-  });
+  const [flow, setFlow] = useState<QuestionnaireFlow>(ADAPTIVE_QUESTIONNAIRE);
+  const [patientId, setPatientId] = useState<string | null>(null);
+  const draftSubmissionId = useRef<string | undefined>(undefined);
+  // The draft save in flight, and whether the assessment is being submitted; no draft is
+  // saved once submission starts, so a late save cannot bring back the cleared draft
+  const pendingDraftSave = useRef<Promise<void> | null>(null);
+  const completing = useRef(false);
+  const [gameState, setGameState] = useState<GameState>(INITIAL_GAME_STATE);
   
   // Animation values
   const [slideAnim] = useState(new Animated.Value(0));
@@ -68,9 +106,38 @@ export default function AssessmentScreen() {
     }).start();
   }, [gameState.progress]);
 
-  const initializeAssessment = () => {
-    const firstQuestion = ADAPTIVE_QUESTIONNAIRE.questions.find(
-      q => q.id === ADAPTIVE_QUESTIONNAIRE.startQuestionId
+  useEffect(() => {
+    // Persist progress after every answer so the assessment survives app restarts
+    if (!user || completing.current || Object.keys(gameState.answers).length === 0) return;
+
+    pendingDraftSave.current = saveAssessmentDraft(
+      {
+        userId: user.id,
+        flowId: flow.id,
+        flowVersion: flow.version,
+        answers: gameState.answers,
+        history: gameState.history,
+        currentQuestionId: gameState.currentQuestion?.id || null,
+        updatedAt: new Date().toISOString(),
+        submissionId: draftSubmissionId.current
+      },
+      patientId || undefined
+    )
+      .then(saved => {
+        draftSubmissionId.current = saved.submissionId;
+      })
+      .catch(error => console.error('Error saving assessment draft:', error));
+  }, [gameState.answers, gameState.currentQuestion]);
+
+  const initializeAssessment = async () => {
+    // Have the AI model available on-device in case the service is unreachable at submit time
+    loadCachedRiskModel().then(() => refreshOfflineRiskModel());
+
+    const loadedFlow = await loadQuestionnaireFlow(ADAPTIVE_QUESTIONNAIRE.id);
+    setFlow(loadedFlow);
+
+    const firstQuestion = loadedFlow.questions.find(
+      q => q.id === loadedFlow.startQuestionId
     );
     
     setGameState(prev => ({
@@ -79,6 +146,55 @@ export default function AssessmentScreen() {
     }));
     
     animateQuestionEntry();
+
+    if (!user) return;
+
+    const { data: patientData } = await supabase
+      .from('patients')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle();
+    setPatientId(patientData?.id || null);
+
+    const draft = await loadAssessmentDraft(user.id, loadedFlow, patientData?.id);
+    if (!draft) return;
+
+    Alert.alert(
+      t('assessment.resume.title'),
+      t('assessment.resume.message', { date: new Date(draft.updatedAt).toLocaleDateString() }),
+      [
+        {
+          text: t('assessment.resume.startOver'),
+          style: 'destructive',
+          onPress: () => discardAssessmentDraft(draft)
+        },
+        {
+          text: t('assessment.resume.resume'),
+          onPress: () => resumeDraft(draft, loadedFlow)
+        }
+      ]
+    );
+  };
+
+  const resumeDraft = (draft: AssessmentDraft, draftFlow: QuestionnaireFlow) => {
+    draftSubmissionId.current = draft.submissionId;
+
+    // Replay rather than trust the stored position, since remote drafts carry answers only
+    const replay = replayAnswers(draft.answers, draftFlow);
+    const savedQuestion = draftFlow.questions.find(q => q.id === draft.currentQuestionId);
+    const currentQuestion = savedQuestion && draft.history.length > 0 ? savedQuestion : replay.nextQuestion;
+    const history = savedQuestion && draft.history.length > 0 ? draft.history : replay.path;
+
+    setGameState(prev => ({
+      ...prev,
+      currentQuestion,
+      answers: replay.answers,
+      history,
+      progress: calculateProgress(currentQuestion, history.length, replay.answers, draftFlow),
+      reviewing: !currentQuestion,
+      editingFromReview: false
+    }));
+    animateQuestionEntry();
   };
 
   const animateQuestionEntry = () => {
@@ -119,10 +235,15 @@ export default function AssessmentScreen() {
 
     celebrateAnswer();
 
-    const newAnswers = {
-      ...gameState.answers,
-      [gameState.currentQuestion.id]: value
-    };
+    // Editing an earlier answer can change the branch taken, so drop answers the new path cannot reach
+    const replay = replayAnswers(
+      {
+        ...gameState.answers,
+        [gameState.currentQuestion.id]: value
+      },
+      flow
+    );
+    const newAnswers = replay.answers;
 
     // Calculate new score and streak
     const newScore = gameState.score + 10;
@@ -137,42 +258,86 @@ export default function AssessmentScreen() {
       newBadges.push('streak-10');
     }
 
-    const newProgress = calculateProgress(
-      gameState.currentQuestion.id,
-      newAnswers,
-      ADAPTIVE_QUESTIONNAIRE
-    );
-
     setTimeout(() => {
       animateQuestionExit(() => {
-        const nextQuestion = getNextQuestion(
-          gameState.currentQuestion!.id,
-          option || null,
-          newAnswers,
-          ADAPTIVE_QUESTIONNAIRE
-        );
+        const nextQuestion = gameState.editingFromReview
+          ? replay.nextQuestion
+          : getNextQuestion(
+              gameState.currentQuestion!.id,
+              option || null,
+              newAnswers,
+              flow
+            );
+
+        const nextIndex = nextQuestion ? replay.path.indexOf(nextQuestion.id) : -1;
+        const history = nextIndex === -1 ? replay.path : replay.path.slice(0, nextIndex);
+
+        setGameState({
+          currentQuestion: nextQuestion,
+          answers: newAnswers,
+          progress: calculateProgress(nextQuestion, history.length, newAnswers, flow),
+          score: newScore,
+          streak: newStreak,
+          badges: newBadges,
+          history,
+          reviewing: !nextQuestion,
+          editingFromReview: !!nextQuestion && gameState.editingFromReview
+        });
 
         if (nextQuestion) {
-          setGameState({
-            currentQuestion: nextQuestion,
-            answers: newAnswers,
-            progress: newProgress,
-            score: newScore,
-            streak: newStreak,
-            badges: newBadges
-          });
           animateQuestionEntry();
-        } else {
-          // Assessment complete
-          completeAssessment(newAnswers);
         }
       });
     }, 500);
   };
 
+  const handleBack = () => {
+    const previousId = gameState.history[gameState.history.length - 1];
+    const previousQuestion = flow.questions.find(q => q.id === previousId);
+    if (!previousQuestion) return;
+
+    const history = gameState.history.slice(0, -1);
+
+    setGameState(prev => ({
+      ...prev,
+      currentQuestion: previousQuestion,
+      history,
+      progress: calculateProgress(previousQuestion, history.length, prev.answers, flow),
+      reviewing: false,
+      editingFromReview: false
+    }));
+    animateQuestionEntry();
+  };
+
+  const handleEditAnswer = (questionId: string) => {
+    const question = flow.questions.find(q => q.id === questionId);
+    if (!question) return;
+
+    setGameState(prev => {
+      const history = prev.history.includes(questionId)
+        ? prev.history.slice(0, prev.history.indexOf(questionId))
+        : prev.history;
+
+      return {
+        ...prev,
+        currentQuestion: question,
+        history,
+        progress: calculateProgress(question, history.length, prev.answers, flow),
+        reviewing: false,
+        editingFromReview: true
+      };
+    });
+    animateQuestionEntry();
+  };
+
   const completeAssessment = async (finalAnswers: Record<string, any>) => {
     setLoading(true);
+    completing.current = true;
     try {
+      // Let the last draft save finish, so its row is the one promoted below and is not
+      // written again after the draft is cleared
+      await pendingDraftSave.current;
+
       // Get patient ID
       const { data: patientData } = await supabase
         .from('patients')
@@ -184,21 +349,36 @@ export default function AssessmentScreen() {
         throw new Error('Patient record not found');
       }
 
-      // Create health submission
-      const { data: submission, error: submissionError } = await supabase
-        .from('health_submissions')
-        .insert({
-          patient_id: patientData.id,
-          answers: finalAnswers,
-          status: 'pending',
-        })
-        .select()
-        .single();
+      // Create health submission, promoting the synced draft row if there is one
+      const submissionValues = {
+        patient_id: patientData.id,
+        answers: finalAnswers,
+        questionnaire_id: flow.id,
+        questionnaire_version: flow.version,
+        status: 'pending',
+        submitted_at: new Date().toISOString(),
+      };
+      const { data: submission, error: submissionError } = draftSubmissionId.current
+        ? await supabase
+            .from('health_submissions')
+            .update(submissionValues)
+            .eq('id', draftSubmissionId.current)
+            .select()
+            .single()
+        : await supabase
+            .from('health_submissions')
+            .insert(submissionValues)
+            .select()
+            .single();
 
       if (submissionError) throw submissionError;
 
+      // The draft row is now the submission, so it must not be updated again
+      draftSubmissionId.current = undefined;
+      await clearAssessmentDraft(user!.id, flow);
+
       // Generate risk prediction
-      const predictionResult = await getApiRiskPrediction(finalAnswers);
+      const predictionResult = await getRiskPrediction(finalAnswers);
 
       // Create risk prediction
       const { error: predictionError } = await supabase
@@ -207,7 +387,11 @@ export default function AssessmentScreen() {
           submission_id: submission.id,
           risk_score: predictionResult.risk_level,
           risk_category: predictionResult.risk_category,
-          raw_prediction: predictionResult
+          raw_prediction: predictionResult as unknown as Json,
+          model_id: predictionResult.model_id,
+          model_version: predictionResult.model_version,
+          source: predictionResult.source,
+          needs_rescoring: needsRescoring(predictionResult)
         });
 
       if (predictionError) throw predictionError;
@@ -218,10 +402,14 @@ export default function AssessmentScreen() {
         const { error: recommendationError } = await supabase
           .from('recommendations')
           .insert(
-            recommendations.map(rec => ({
+            recommendations.map((rec, index) => ({
               submission_id: submission.id,
               content: rec.content,
               type: rec.type,
+              rule_id: rec.rule_id,
+              priority: rec.priority,
+              evidence: rec.evidence.source,
+              position: index + 1,
             }))
           );
 
@@ -230,7 +418,15 @@ export default function AssessmentScreen() {
 
       // Show completion celebration
       showCompletionCelebration();
+
+      // The next assessment starts from the first question with a new draft
+      setGameState({
+        ...INITIAL_GAME_STATE,
+        currentQuestion: flow.questions.find(q => q.id === flow.startQuestionId) || null
+      });
+      completing.current = false;
     } catch (error: any) {
+      completing.current = false;
       Alert.alert('Error', error.message);
     } finally {
       setLoading(false);
@@ -241,61 +437,14 @@ export default function AssessmentScreen() {
   const showCompletionCelebration = () => {
   };
 
-  const getApiRiskPrediction = async (answers: Record<string, any>) => {
-    const heightInMeters = (answers.height || 0) / 100;
-    const bmi = heightInMeters > 0 ? (answers.weight || 0) / (heightInMeters * heightInMeters) : 0;
-
-    const apiPayload = {
-      age: answers.age || 0,
-      bmi: bmi,
-      weight: answers.weight || 0,
-      height: answers.height || 0,
-      systolic_bp: answers.systolic_bp || 0,
-      family_history: answers['family-history'] === 'yes' ? 1 : 0,
-      physical_activity: ['sedentary', 'light', 'moderate', 'active'].indexOf(answers['activity-level'] || 'sedentary'),
-      diet_quality: answers.diet_quality || 5,
-      location: answers.location === 'urban' ? 1 : 0,
-      smoking: ['never', 'former', 'current'].indexOf(answers.smoking || 'never'),
-    };
-
-    const apiUrl = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8000';
-
-    try {
-      const response = await fetch(`${apiUrl}/predict-risk`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(apiPayload),
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-      });
-
-      if (!response.ok) {
-        throw new Error(`API responded with status: ${response.status}`);
-      }
-
-      const result = await response.json();
-      console.log('✅ Real AI API response received:', result);
-      return result;
-    } catch (error) {
-      console.warn('⚠️ Real AI API unavailable, using simulation:', error);
-      
-      // Use simulated prediction when real API fails
-      const simulatedResult = simulateRiskPrediction(answers);
-      console.log('🤖 Using simulated prediction:', simulatedResult);
-      
-      return simulatedResult;
-    }
-  };
-
-  const generateRecommendations = (answers: Record<string, any>, category: string) => {
-    // Use the comprehensive simulated recommendations
-    return generateSimulatedRecommendations(answers, category);
-  };
-
   const renderProgressHeader = () => (
     <View style={styles.progressHeader}>
       <View style={styles.progressContainer}>
+        {gameState.history.length > 0 && (
+          <TouchableOpacity style={styles.backButton} onPress={handleBack}>
+            <ArrowLeft size={20} color="white" />
+          </TouchableOpacity>
+        )}
         <View style={styles.progressTrack}>
           <Animated.View 
             style={[
@@ -351,9 +500,9 @@ export default function AssessmentScreen() {
           <View style={styles.questionIcon}>
             <Brain size={32} color="#0066CC" />
           </View>
-          <Text style={styles.questionTitle}>{question.text}</Text>
+          <Text style={styles.questionTitle}>{translateText(question.text)}</Text>
           {question.description && (
-            <Text style={styles.questionDescription}>{question.description}</Text>
+            <Text style={styles.questionDescription}>{translateText(question.description)}</Text>
           )}
         </View>
 
@@ -366,13 +515,14 @@ export default function AssessmentScreen() {
                 { 
                   backgroundColor: getOptionColor(index),
                   transform: [{ scale: scaleAnim }]
-                }
+                },
+                gameState.answers[question.id] === option.value && styles.selectedOptionCard
               ]}
               onPress={() => handleAnswer(option.value, option)}
               activeOpacity={0.8}
             >
               <View style={styles.optionContent}>
-                <Text style={styles.optionText}>{option.text}</Text>
+                <Text style={styles.optionText}>{translateText(option.text)}</Text>
                 <ArrowRight size={20} color="white" />
               </View>
             </TouchableOpacity>
@@ -380,21 +530,63 @@ export default function AssessmentScreen() {
 
           {question.type === 'multiple-choice' && (
             <MultipleChoiceQuestion 
+              key={question.id}
               question={question}
+              initialValue={gameState.answers[question.id]}
               onAnswer={handleAnswer}
             />
           )}
 
           {question.type === 'number' && (
             <NumberInputQuestion 
+              key={question.id}
               question={question}
+              initialValue={gameState.answers[question.id]}
               onAnswer={handleAnswer}
             />
           )}
 
           {question.type === 'slider' && (
             <SliderQuestion 
+              key={question.id}
+              question={question}
+              initialValue={gameState.answers[question.id]}
+              onAnswer={handleAnswer}
+            />
+          )}
+
+          {question.type === 'date' && (
+            <DateQuestion
+              key={question.id}
+              question={question}
+              initialValue={gameState.answers[question.id]}
+              onAnswer={handleAnswer}
+            />
+          )}
+
+          {question.type === 'blood-pressure' && (
+            <BloodPressureQuestion
+              key={question.id}
+              question={question}
+              initialValue={gameState.answers[question.id]}
+              onAnswer={handleAnswer}
+            />
+          )}
+
+          {question.type === 'repeated-group' && (
+            <RepeatedGroupQuestion
+              key={question.id}
+              question={question}
+              initialValue={gameState.answers[question.id]}
+              onAnswer={handleAnswer}
+            />
+          )}
+
+          {question.type === 'yes-no-details' && (
+            <YesNoDetailsQuestion
+              key={question.id}
               question={question}
+              initialValue={gameState.answers[question.id]}
               onAnswer={handleAnswer}
             />
           )}
@@ -403,6 +595,58 @@ export default function AssessmentScreen() {
     );
   };
 
+  const renderReview = () => {
+    const { path } = replayAnswers(gameState.answers, flow);
+    // Single-option screens (welcome, completion) are not real answers
+    const reviewQuestions = path
+      .map(id => flow.questions.find(q => q.id === id))
+      .filter((q): q is Question => !!q && !(q.type === 'single-choice' && q.options?.length === 1));
+
+    return (
+      <View style={styles.reviewContainer}>
+        <View style={styles.questionHeader}>
+          <View style={styles.questionIcon}>
+            <CheckCircle size={32} color="#FFD700" />
+          </View>
+          <Text style={styles.questionTitle}>{t('assessment.review.title')}</Text>
+          <Text style={styles.questionDescription}>{t('assessment.review.description')}</Text>
+        </View>
+
+        <ScrollView
+          style={styles.optionsScrollView}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={styles.scrollContent}
+        >
+          {reviewQuestions.map(question => (
+            <TouchableOpacity
+              key={question.id}
+              style={styles.reviewItem}
+              onPress={() => handleEditAnswer(question.id)}
+            >
+              <View style={styles.reviewItemContent}>
+                <Text style={styles.reviewQuestion}>{translateText(question.text)}</Text>
+                <Text style={styles.reviewAnswer}>
+                  {formatAnswer(question, gameState.answers[question.id])}
+                </Text>
+              </View>
+              <Text style={styles.reviewEdit}>{t('assessment.review.edit')}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <View style={styles.continueButtonContainer}>
+          <TouchableOpacity
+            style={styles.continueButton}
+            onPress={() => completeAssessment(gameState.answers)}
+          >
+            <Text style={styles.continueButtonText}>{t('assessment.review.submit')}</Text>
+            <ArrowRight size={20} color="white" />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
   const getOptionColor = (index: number) => {
     const colors = ['#0066CC', '#28A745', '#FF6B35', '#9B59B6', '#E74C3C', '#F39C12'];
     return colors[index % colors.length];
@@ -428,7 +672,7 @@ export default function AssessmentScreen() {
       {renderProgressHeader()}
       
       <View style={styles.content}>
-        {renderQuestion()}
+        {gameState.reviewing ? renderReview() : renderQuestion()}
       </View>
 
       {gameState.badges.length > 0 && (
@@ -448,17 +692,26 @@ export default function AssessmentScreen() {
 }
 
 // Additional question components
-const MultipleChoiceQuestion = ({ question, onAnswer }: { question: Question, onAnswer: (value: any) => void }) => {
-  const [selectedOptions, setSelectedOptions] = useState<string[]>([]);
+const MultipleChoiceQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const [selectedOptions, setSelectedOptions] = useState<string[]>(Array.isArray(initialValue) ? initialValue : []);
+  const [error, setError] = useState<string | null>(null);
 
   const toggleOption = (optionId: string) => {
-    const newSelection = selectedOptions.includes(optionId)
-      ? selectedOptions.filter(id => id !== optionId)
-      : [...selectedOptions, optionId];
+    const newSelection = toggleMultipleChoiceOption(question, selectedOptions, optionId);
+    if (question.maxSelections !== undefined && newSelection.length > question.maxSelections) {
+      setError(t('questionnaire.validation.maxSelections', { count: question.maxSelections }));
+      return;
+    }
     setSelectedOptions(newSelection);
+    setError(null);
   };
 
   const handleContinue = () => {
+    const validationError = validateAnswer(question, selectedOptions);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
     onAnswer(selectedOptions);
   };
 
@@ -483,15 +736,17 @@ const MultipleChoiceQuestion = ({ question, onAnswer }: { question: Question, on
                 <CheckCircle size={20} color="#0066CC" />
               )}
             </View>
-            <Text style={styles.multiOptionText}>{option.text}</Text>
+            <Text style={styles.multiOptionText}>{translateText(option.text)}</Text>
           </TouchableOpacity>
         ))}
       </ScrollView>
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
       
       <View style={styles.continueButtonContainer}>
         {selectedOptions.length > 0 && (
           <TouchableOpacity style={styles.continueButton} onPress={handleContinue}>
-            <Text style={styles.continueButtonText}>Continue</Text>
+            <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
             <ArrowRight size={20} color="white" />
           </TouchableOpacity>
         )}
@@ -500,22 +755,94 @@ const MultipleChoiceQuestion = ({ question, onAnswer }: { question: Question, on
   );
 };
 
-const NumberInputQuestion = ({ question, onAnswer }: { question: Question, onAnswer: (value: any) => void }) => {
-  const [value, setValue] = useState('');
+const NumberInputQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const inputUnits = getInputUnits(question);
+  const [unit, setUnit] = useState<UnitId | undefined>(question.unit);
+  const [parts, setParts] = useState<string[]>(
+    initialValue !== undefined ? [String(initialValue)] : ['']
+  );
+  const [activePart, setActivePart] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const partLabels = unit ? UNITS[unit].parts : [''];
+
+  const selectUnit = (newUnit: UnitId) => {
+    if (!unit || newUnit === unit) return;
+
+    // Carry an entered value over into the new unit
+    const current = parts.map(p => parseFloat(p));
+    let converted = newUnit === question.unit ? [''] : UNITS[newUnit].parts.map(() => '');
+    if (!current.some(isNaN)) {
+      const canonical = normalizeNumberAnswer(question, current, unit);
+      converted = fromCanonicalValue(canonical, newUnit).map(String);
+    }
+
+    setUnit(newUnit);
+    setParts(converted);
+    setActivePart(0);
+    setError(null);
+  };
+
+  const updateActivePart = (update: (prev: string) => string) => {
+    setParts(prev => prev.map((part, index) => (index === activePart ? update(part) : part)));
+    setError(null);
+  };
 
   const handleSubmit = () => {
-    const numValue = parseFloat(value);
-    if (!isNaN(numValue)) {
-      onAnswer(numValue);
+    // Trailing parts of compound units (e.g. inches) default to 0
+    const numbers = parts.map((part, index) => (part === '' && index > 0 ? 0 : parseFloat(part)));
+    if (numbers.some(isNaN)) {
+      setError(t('questionnaire.validation.number'));
+      return;
+    }
+
+    const canonicalValue = normalizeNumberAnswer(question, numbers, unit);
+    const validationError = validateAnswer(question, canonicalValue);
+    if (validationError) {
+      setError(validationError);
+      return;
     }
+
+    onAnswer(canonicalValue);
   };
 
   return (
     <ScrollView contentContainerStyle={styles.numberInputContainer}>
-      <View style={styles.numberInput}>
-        <Text style={styles.numberValue}>{value || '0'}</Text>
-        <Text style={styles.numberUnit}>{question.unit}</Text>
+      {inputUnits.length > 1 && (
+        <View style={styles.unitSelector}>
+          {inputUnits.map(unitId => (
+            <TouchableOpacity
+              key={unitId}
+              style={[styles.unitChip, unit === unitId && styles.unitChipActive]}
+              onPress={() => selectUnit(unitId)}
+            >
+              <Text style={[styles.unitChipText, unit === unitId && styles.unitChipTextActive]}>
+                {UNITS[unitId].label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.numberInputRow}>
+        {parts.map((part, index) => (
+          <TouchableOpacity
+            key={index}
+            style={[
+              styles.numberInput,
+              parts.length > 1 && styles.numberInputCompact,
+              parts.length > 1 && activePart === index && styles.numberInputActive
+            ]}
+            onPress={() => setActivePart(index)}
+            activeOpacity={parts.length > 1 ? 0.8 : 1}
+          >
+            <Text style={styles.numberValue}>{part || '0'}</Text>
+            <Text style={styles.numberUnit}>{partLabels[index]}</Text>
+          </TouchableOpacity>
+        ))}
       </View>
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
       
       <View style={styles.numberPad}>
         {[1, 2, 3, 4, 5, 6, 7, 8, 9, '.', 0, '⌫'].map((num, index) => (
@@ -524,9 +851,9 @@ const NumberInputQuestion = ({ question, onAnswer }: { question: Question, onAns
             style={styles.numberKey}
             onPress={() => {
               if (num === '⌫') {
-                setValue(prev => prev.slice(0, -1));
+                updateActivePart(prev => prev.slice(0, -1));
               } else {
-                setValue(prev => prev + num.toString());
+                updateActivePart(prev => prev + num.toString());
               }
             }}
           >
@@ -536,15 +863,15 @@ const NumberInputQuestion = ({ question, onAnswer }: { question: Question, onAns
       </View>
       
       <TouchableOpacity style={styles.continueButton} onPress={handleSubmit}>
-        <Text style={styles.continueButtonText}>Continue</Text>
+        <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
         <ArrowRight size={20} color="white" />
       </TouchableOpacity>
     </ScrollView>
   );
 };
 
-const SliderQuestion = ({ question, onAnswer }: { question: Question, onAnswer: (value: any) => void }) => {
-  const [value, setValue] = useState(question.min || 1);
+const SliderQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const [value, setValue] = useState<number>(initialValue ?? question.min ?? 1);
 
   const handleSubmit = () => {
     onAnswer(value);
@@ -554,7 +881,7 @@ const SliderQuestion = ({ question, onAnswer }: { question: Question, onAnswer:
     <ScrollView contentContainerStyle={styles.sliderContainer}>
       <View style={styles.sliderValue}>
         <Text style={styles.sliderNumber}>{value}</Text>
-        <Text style={styles.sliderLabel}>out of {question.max}</Text>
+        <Text style={styles.sliderLabel}>{t('questionnaire.input.outOf', { max: question.max ?? '' })}</Text>
       </View>
       
       <View style={styles.sliderTrack}>
@@ -563,18 +890,281 @@ const SliderQuestion = ({ question, onAnswer }: { question: Question, onAnswer:
       </View>
       
       <View style={styles.sliderLabels}>
-        <Text style={styles.sliderLabelText}>Low</Text>
-        <Text style={styles.sliderLabelText}>High</Text>
+        <Text style={styles.sliderLabelText}>{t('questionnaire.input.low')}</Text>
+        <Text style={styles.sliderLabelText}>{t('questionnaire.input.high')}</Text>
       </View>
       
       <TouchableOpacity style={styles.continueButton} onPress={handleSubmit}>
-        <Text style={styles.continueButtonText}>Continue</Text>
+        <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
+        <ArrowRight size={20} color="white" />
+      </TouchableOpacity>
+    </ScrollView>
+  );
+};
+
+const DateQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const [initialYear = '', initialMonth = '', initialDay = ''] = typeof initialValue === 'string' ? initialValue.split('-') : [];
+  const [year, setYear] = useState(initialYear);
+  const [month, setMonth] = useState(initialMonth);
+  const [day, setDay] = useState(initialDay);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    const value = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    const validationError = validateAnswer(question, value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAnswer(value);
+  };
+
+  const fields = [
+    { label: t('questionnaire.input.day'), value: day, onChange: setDay, maxLength: 2 },
+    { label: t('questionnaire.input.month'), value: month, onChange: setMonth, maxLength: 2 },
+    { label: t('questionnaire.input.year'), value: year, onChange: setYear, maxLength: 4 },
+  ];
+
+  return (
+    <ScrollView contentContainerStyle={styles.formContainer}>
+      <View style={styles.fieldRow}>
+        {fields.map(field => (
+          <View key={field.label} style={styles.fieldColumn}>
+            <Text style={styles.fieldLabel}>{field.label}</Text>
+            <TextInput
+              style={styles.textInput}
+              value={field.value}
+              onChangeText={text => {
+                field.onChange(text.replace(/[^0-9]/g, ''));
+                setError(null);
+              }}
+              keyboardType="number-pad"
+              maxLength={field.maxLength}
+              placeholderTextColor="rgba(255, 255, 255, 0.5)"
+            />
+          </View>
+        ))}
+      </View>
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
+
+      <TouchableOpacity style={styles.continueButton} onPress={handleSubmit}>
+        <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
+        <ArrowRight size={20} color="white" />
+      </TouchableOpacity>
+
+      {!question.required && (
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => onAnswer(null)}>
+          <Text style={styles.secondaryButtonText}>{t('questionnaire.input.skip')}</Text>
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
+const BloodPressureQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const [systolic, setSystolic] = useState(initialValue?.systolic !== undefined ? String(initialValue.systolic) : '');
+  const [diastolic, setDiastolic] = useState(initialValue?.diastolic !== undefined ? String(initialValue.diastolic) : '');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = () => {
+    const value = { systolic: parseFloat(systolic), diastolic: parseFloat(diastolic) };
+    const validationError = validateAnswer(question, value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAnswer(value);
+  };
+
+  const fields = [
+    { label: t('questionnaire.input.systolic'), value: systolic, onChange: setSystolic },
+    { label: t('questionnaire.input.diastolic'), value: diastolic, onChange: setDiastolic },
+  ];
+
+  return (
+    <ScrollView contentContainerStyle={styles.formContainer}>
+      <View style={styles.fieldRow}>
+        {fields.map(field => (
+          <View key={field.label} style={styles.fieldColumn}>
+            <Text style={styles.fieldLabel}>{field.label}</Text>
+            <TextInput
+              style={styles.textInput}
+              value={field.value}
+              onChangeText={text => {
+                field.onChange(text.replace(/[^0-9]/g, ''));
+                setError(null);
+              }}
+              keyboardType="number-pad"
+              maxLength={3}
+            />
+            <Text style={styles.fieldUnit}>mmHg</Text>
+          </View>
+        ))}
+      </View>
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
+
+      <TouchableOpacity style={styles.continueButton} onPress={handleSubmit}>
+        <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
         <ArrowRight size={20} color="white" />
       </TouchableOpacity>
     </ScrollView>
   );
 };
 
+const RepeatedGroupQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const fields = question.fields || [];
+  const emptyItem = () => Object.fromEntries(fields.map(field => [field.id, ''])) as Record<string, string>;
+  const [items, setItems] = useState<Record<string, string>[]>(
+    Array.isArray(initialValue) && initialValue.length > 0
+      ? initialValue.map(item => Object.fromEntries(fields.map(field => [field.id, String(item[field.id] ?? '')])))
+      : [emptyItem()]
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const canAddItem = question.maxItems === undefined || items.length < question.maxItems;
+
+  const updateItem = (index: number, fieldId: string, text: string) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, [fieldId]: text } : item)));
+    setError(null);
+  };
+
+  const handleSubmit = () => {
+    // Rows left completely blank are ignored rather than reported as missing fields
+    const value: RepeatedGroupAnswer = items
+      .filter(item => fields.some(field => item[field.id].trim() !== ''))
+      .map(item => Object.fromEntries(fields.map(field => {
+        const text = item[field.id].trim();
+        return [field.id, field.type === 'number' && text !== '' ? Number(text) : text];
+      })));
+
+    const validationError = validateAnswer(question, value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAnswer(value);
+  };
+
+  return (
+    <View style={styles.multiChoiceContainer}>
+      <ScrollView
+        style={styles.optionsScrollView}
+        showsVerticalScrollIndicator={false}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {items.map((item, index) => (
+          <View key={index} style={styles.groupItem}>
+            {fields.map(field => (
+              <View key={field.id} style={styles.groupField}>
+                <Text style={styles.fieldLabel}>{translateText(field.text)}</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={item[field.id]}
+                  onChangeText={text => updateItem(index, field.id, text)}
+                  keyboardType={field.type === 'number' ? 'decimal-pad' : 'default'}
+                />
+              </View>
+            ))}
+            {items.length > 1 && (
+              <TouchableOpacity onPress={() => setItems(prev => prev.filter((_, i) => i !== index))}>
+                <Text style={styles.groupRemove}>{t('questionnaire.input.remove')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        ))}
+
+        {canAddItem && (
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setItems(prev => [...prev, emptyItem()])}>
+            <Text style={styles.secondaryButtonText}>{t('questionnaire.input.addItem')}</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
+
+      <View style={styles.continueButtonContainer}>
+        <TouchableOpacity style={styles.continueButton} onPress={handleSubmit}>
+          <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
+          <ArrowRight size={20} color="white" />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const YesNoDetailsQuestion = ({ question, initialValue, onAnswer }: { question: Question, initialValue?: any, onAnswer: (value: any) => void }) => {
+  const [answer, setAnswer] = useState<'yes' | 'no' | null>(initialValue?.answer ?? null);
+  const [details, setDetails] = useState<string>(initialValue?.details ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (value: { answer: 'yes' | 'no'; details?: string }) => {
+    const validationError = validateAnswer(question, value);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    onAnswer(value);
+  };
+
+  const choices = [
+    { value: 'yes' as const, label: t('common.yes') },
+    { value: 'no' as const, label: t('common.no') },
+  ];
+
+  return (
+    <ScrollView contentContainerStyle={styles.scrollContent}>
+      {choices.map(choice => (
+        <TouchableOpacity
+          key={choice.value}
+          style={[styles.multiOptionCard, answer === choice.value && styles.selectedOption]}
+          onPress={() => {
+            setAnswer(choice.value);
+            setError(null);
+            // Nothing to add after "no", so it answers the question straight away
+            if (choice.value === 'no') submit({ answer: 'no' });
+          }}
+        >
+          <View style={styles.checkboxContainer}>
+            {answer === choice.value && <CheckCircle size={20} color="#0066CC" />}
+          </View>
+          <Text style={styles.multiOptionText}>{choice.label}</Text>
+        </TouchableOpacity>
+      ))}
+
+      {answer === 'yes' && (
+        <View style={styles.groupField}>
+          {question.detailsPrompt && (
+            <Text style={styles.fieldLabel}>{translateText(question.detailsPrompt)}</Text>
+          )}
+          <TextInput
+            style={[styles.textInput, styles.textArea]}
+            value={details}
+            onChangeText={text => {
+              setDetails(text);
+              setError(null);
+            }}
+            multiline
+          />
+        </View>
+      )}
+
+      {error && <Text style={styles.inputError}>{error}</Text>}
+
+      {answer === 'yes' && (
+        <TouchableOpacity
+          style={styles.continueButton}
+          onPress={() => submit({ answer: 'yes', ...(details.trim() ? { details: details.trim() } : {}) })}
+        >
+          <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
+          <ArrowRight size={20} color="white" />
+        </TouchableOpacity>
+      )}
+    </ScrollView>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -613,6 +1203,15 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 16,
   },
+  backButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
   progressTrack: {
     flex: 1,
     height: 8,
@@ -697,6 +1296,10 @@ const styles = StyleSheet.create({
     shadowRadius: 8,
     elevation: 8,
   },
+  selectedOptionCard: {
+    borderWidth: 3,
+    borderColor: '#FFD700',
+  },
   optionContent: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -763,13 +1366,55 @@ const styles = StyleSheet.create({
   numberInputContainer: {
     alignItems: 'center',
   },
+  unitSelector: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  unitChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  unitChipActive: {
+    backgroundColor: '#FFD700',
+  },
+  unitChipText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  unitChipTextActive: {
+    color: '#333',
+  },
+  numberInputRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 32,
+  },
   numberInput: {
     backgroundColor: 'rgba(255, 255, 255, 0.1)',
     borderRadius: 16,
     padding: 24,
     alignItems: 'center',
-    marginBottom: 32,
     minWidth: 200,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  numberInputCompact: {
+    minWidth: 120,
+  },
+  numberInputActive: {
+    borderColor: '#FFD700',
+  },
+  inputError: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '600',
+    marginTop: -16,
+    marginBottom: 16,
+    textAlign: 'center',
   },
   numberValue: {
     fontSize: 48,
@@ -855,6 +1500,97 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: 'rgba(255, 255, 255, 0.8)',
   },
+  formContainer: {
+    gap: 16,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  fieldColumn: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginBottom: 6,
+  },
+  fieldUnit: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginTop: 6,
+    textAlign: 'center',
+  },
+  textInput: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 18,
+    color: 'white',
+    borderWidth: 2,
+    borderColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  textArea: {
+    minHeight: 96,
+    textAlignVertical: 'top',
+  },
+  groupItem: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+  },
+  groupField: {
+    marginBottom: 12,
+  },
+  groupRemove: {
+    color: '#FFD700',
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  secondaryButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+    textDecorationLine: 'underline',
+  },
+  reviewContainer: {
+    flex: 1,
+    paddingTop: 16,
+  },
+  reviewItem: {
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  reviewItemContent: {
+    flex: 1,
+    marginRight: 12,
+  },
+  reviewQuestion: {
+    fontSize: 14,
+    color: 'rgba(255, 255, 255, 0.8)',
+    marginBottom: 4,
+  },
+  reviewAnswer: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: 'white',
+  },
+  reviewEdit: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFD700',
+  },
   badgeContainer: {
     position: 'absolute',
     top: 100,
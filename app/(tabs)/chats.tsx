@@ -13,6 +13,7 @@ import {
 import { useRouter } from 'expo-router';
 import { MessageSquare, Search, Clock, User, Stethoscope, ChevronRight, ArrowUpRight, Shield } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { getMessageText } from '@/lib/chat-messages';
 import { useAuth } from '@/context/AuthContext';
 
 interface ChatPreview {
@@ -107,7 +108,7 @@ export default function ChatsScreen() {
               doctorId: chat.doctor_id,
               patientName: chat.patients.profiles.full_name,
               doctorName: user.full_name,
-              lastMessage: lastMessage?.message || null,
+              lastMessage: lastMessage ? getMessageText(lastMessage) : null,
               lastMessageTime: lastMessage?.created_at || chat.created_at,
               unreadCount: 0, // This would need a proper implementation
             };
@@ -165,7 +166,7 @@ export default function ChatsScreen() {
               doctorId: chat.doctor_id,
               patientName: user.full_name,
               doctorName: chat.doctors.profiles.full_name,
-              lastMessage: lastMessage?.message || null,
+              lastMessage: lastMessage ? getMessageText(lastMessage) : null,
               lastMessageTime: lastMessage?.created_at || chat.created_at,
               unreadCount: 0, // This would need a proper implementation
             };
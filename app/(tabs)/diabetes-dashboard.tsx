@@ -14,7 +14,7 @@ import {
   Platform,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { ArrowLeft, Heart, Droplets, Pill, Activity, Calendar as CalendarIcon, Plus, TrendingUp, Clock, Target, Zap, X, CircleCheck as CheckCircle, Bell, ChartBar as BarChart3, Award, Settings, Download, Share, TriangleAlert as AlertTriangle, Trash2 } from 'lucide-react-native';
+import { ArrowLeft, Heart, Droplets, Pill, Activity, Calendar as CalendarIcon, Plus, TrendingUp, Clock, Target, Zap, X, CircleCheck as CheckCircle, Bell, ChartBar as BarChart3, Award, Settings, Download, Share, TriangleAlert as AlertTriangle, Trash2, Pencil, Archive } from 'lucide-react-native';
 import { Calendar, LocaleConfig } from 'react-native-calendars'; // Import Calendar and LocaleConfig
 import { useAuth } from '@/context/AuthContext';
 import {
@@ -27,10 +27,33 @@ import {
   getHealthTips,
   calculateA1CEstimate,
   initializeDiabetesTasks,
+  getTaskAdherence,
+  getTasksDueToday,
+  getArchivedTasks,
+  createTask,
+  updateTask,
+  archiveTask,
+  restoreTask,
+  deleteTask,
+  syncTaskReminders,
+  ADHERENCE_WINDOW_DAYS,
   type DiabetesTask,
+  type TaskDraft,
+  type TaskAdherence,
   type BloodSugarReading,
   type MedicationReminder,
 } from '@/lib/diabetes-management';
+import { formatRecurrence, formatStreak } from '@/lib/task-recurrence';
+import { TaskForm } from '@/components/TaskForm';
+import {
+  DEFAULT_GLUCOSE_UNIT,
+  a1cToMmolPerMol,
+  formatGlucose,
+  getGlucoseStatus,
+  getGlucoseUnit,
+  parseGlucoseInput,
+  type GlucoseUnit,
+} from '@/lib/glucose';
 
 const { width } = Dimensions.get('window');
 
@@ -40,12 +63,18 @@ export default function DiabetesDashboardScreen() {
   const [tasks, setTasks] = useState<DiabetesTask[]>([]);
   const [bloodSugarHistory, setBloodSugarHistory] = useState<BloodSugarReading[]>([]);
   const [medications, setMedications] = useState<MedicationReminder[]>([]);
+  const [adherence, setAdherence] = useState<TaskAdherence[]>([]);
+  const [archivedTasks, setArchivedTasks] = useState<DiabetesTask[]>([]);
+  const [glucoseUnit, setGlucoseUnit] = useState<GlucoseUnit>(DEFAULT_GLUCOSE_UNIT);
+  const [showArchived, setShowArchived] = useState(false);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'overview' | 'tasks' | 'readings' | 'medications' | 'calendar'>('overview');
   
   // Modal states
   const [showBloodSugarModal, setShowBloodSugarModal] = useState(false);
   const [showMedicationModal, setShowMedicationModal] = useState(false);
+  const [showTaskModal, setShowTaskModal] = useState(false);
+  const [editingTask, setEditingTask] = useState<DiabetesTask | null>(null);
   const [bloodSugarReading, setBloodSugarReading] = useState('');
   const [readingType, setReadingType] = useState<'fasting' | 'post_meal' | 'bedtime' | 'random'>('fasting');
   const [notes, setNotes] = useState('');
@@ -72,15 +101,24 @@ export default function DiabetesDashboardScreen() {
       await initializeDiabetesTasks(user.id);
       
       // Load all data
-      const [tasksData, historyData, medicationsData] = await Promise.all([
+      const [tasksData, historyData, medicationsData, adherenceData, archivedData, unit] = await Promise.all([
         getDailyTasks(user.id),
         getBloodSugarHistory(user.id, 30),
         getMedicationReminders(user.id),
+        getTaskAdherence(user.id),
+        getArchivedTasks(user.id),
+        getGlucoseUnit(user.id),
       ]);
 
       setTasks(tasksData);
       setBloodSugarHistory(historyData);
       setMedications(medicationsData);
+      setAdherence(adherenceData);
+      setArchivedTasks(archivedData);
+      setGlucoseUnit(unit);
+
+      // Picks up tasks a doctor assigned or changed since the last visit
+      syncTaskReminders(user.id);
     } catch (error) {
       console.error('Error loading diabetes data:', error);
     } finally {
@@ -97,16 +135,77 @@ export default function DiabetesDashboardScreen() {
     }
   };
 
+  const openTaskModal = (task: DiabetesTask | null) => {
+    setEditingTask(task);
+    setShowTaskModal(true);
+  };
+
+  const handleSaveTask = async (draft: TaskDraft) => {
+    if (!user) return;
+
+    if (editingTask) {
+      await updateTask(editingTask, draft);
+    } else {
+      await createTask(user.id, draft);
+    }
+    setShowTaskModal(false);
+    await loadDiabetesData();
+  };
+
+  const handleArchiveTask = async (task: DiabetesTask) => {
+    try {
+      await archiveTask(task);
+      setShowTaskModal(false);
+      await loadDiabetesData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleRestoreTask = async (task: DiabetesTask) => {
+    try {
+      await restoreTask(task);
+      await loadDiabetesData();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    }
+  };
+
+  const handleDeleteTask = (task: DiabetesTask) => {
+    Alert.alert(
+      'Delete task?',
+      'Its completion history and streak are deleted too. Archive the task instead to keep them.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTask(task);
+              setShowTaskModal(false);
+              await loadDiabetesData();
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
   const handleAddBloodSugar = async () => {
     if (!user || !bloodSugarReading) return;
 
+    let reading: number;
     try {
-      const reading = parseFloat(bloodSugarReading);
-      if (isNaN(reading) || reading < 20 || reading > 600) {
-        Alert.alert('Invalid Reading', 'Please enter a valid blood sugar reading between 20-600 mg/dL');
-        return;
-      }
+      reading = parseGlucoseInput(bloodSugarReading, glucoseUnit);
+    } catch (error: any) {
+      Alert.alert('Invalid Reading', error.message);
+      return;
+    }
 
+    try {
       await addBloodSugarReading(user.id, reading, readingType, notes);
       setShowBloodSugarModal(false);
       setBloodSugarReading('');
@@ -137,8 +236,17 @@ export default function DiabetesDashboardScreen() {
     }
   };
 
+  const todayTasks = getTasksDueToday(tasks);
+  const upcomingTasks = tasks.filter(task => !task.due_today);
+
   const getCompletedTasksToday = () => {
-    return tasks.filter(task => task.completed).length;
+    return todayTasks.filter(task => task.completed).length;
+  };
+
+  const getOverallAdherence = () => {
+    const expected = adherence.reduce((sum, task) => sum + task.expected, 0);
+    const completed = adherence.reduce((sum, task) => sum + task.completed, 0);
+    return expected > 0 ? Math.round((completed / expected) * 100) : 0;
   };
 
   const getAverageBloodSugar = () => {
@@ -148,17 +256,75 @@ export default function DiabetesDashboardScreen() {
   };
 
   const getReadingColor = (reading: number) => {
-    if (reading < 70) return '#DC3545'; // Low
-    if (reading > 180) return '#FFA500'; // High
+    const status = getGlucoseStatus(reading);
+    if (status === 'low') return '#DC3545';
+    if (status === 'high') return '#FFA500';
     return '#28A745'; // Normal
   };
 
   const estimatedA1C = calculateA1CEstimate(bloodSugarHistory);
   const completedTasks = getCompletedTasksToday();
-  const totalTasks = tasks.length;
+  const totalTasks = todayTasks.length;
   const averageBloodSugar = getAverageBloodSugar();
   const healthTips = getHealthTips();
 
+  const renderTask = (task: DiabetesTask) => {
+    // Tasks not scheduled today cannot be completed ahead of time
+    const locked = task.completed || !task.due_today;
+
+    return (
+      <TouchableOpacity
+        key={task.id}
+        style={[
+          styles.taskCard,
+          task.completed && styles.taskCompleted
+        ]}
+        onPress={() => !locked && handleCompleteTask(task.id)}
+        disabled={locked}
+      >
+        <View style={styles.taskHeader}>
+          <View style={styles.taskInfo}>
+            <Text style={styles.taskIcon}>{task.icon}</Text>
+            <View style={styles.taskDetails}>
+              <Text style={[
+                styles.taskTitle,
+                task.completed && styles.taskTitleCompleted
+              ]}>
+                {task.title}
+              </Text>
+              {!!task.description && <Text style={styles.taskDescription}>{task.description}</Text>}
+              <Text style={styles.taskTime}>
+                🔁 {formatRecurrence(task)}{task.time ? `  ⏰ ${task.time}` : ''}
+              </Text>
+              {locked && (
+                <Text style={styles.taskNextDue}>
+                  Next due {new Date(`${task.next_due_on}T00:00:00`).toLocaleDateString()}
+                </Text>
+              )}
+              {task.assigned_by && <Text style={styles.taskAssigned}>👩‍⚕️ Assigned by your doctor</Text>}
+            </View>
+          </View>
+          {!task.assigned_by && (
+            <TouchableOpacity style={styles.taskEditButton} onPress={() => openTaskModal(task)}>
+              <Pencil size={16} color="#64748B" />
+            </TouchableOpacity>
+          )}
+          {task.completed ? (
+            <CheckCircle size={24} color="#28A745" />
+          ) : (
+            <View style={styles.taskCheckbox} />
+          )}
+        </View>
+        {task.streak > 0 && (
+          <View style={styles.streakBadge}>
+            <Award size={16} color="#FFD700" />
+            <Text style={styles.streakText}>{formatStreak(task, task.streak)}!</Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
   if (loading) {
     return (
       <SafeAreaView style={styles.container}>
@@ -215,10 +381,10 @@ export default function DiabetesDashboardScreen() {
               <View style={styles.metricCard}>
                 <Target size={24} color="#DC3545" />
                 <Text style={styles.metricNumber}>
-                  {bloodSugarHistory.length > 0 ? bloodSugarHistory[0].reading : '--'}
+                  {bloodSugarHistory.length > 0 ? formatGlucose(bloodSugarHistory[0].reading, glucoseUnit, { withUnit: false }) : '--'}
                 </Text>
                 <Text style={styles.metricLabel}>Latest Reading</Text>
-                <Text style={styles.metricUnit}>mg/dL</Text>
+                <Text style={styles.metricUnit}>{glucoseUnit}</Text>
               </View>
 
               <View style={styles.metricCard}>
@@ -227,7 +393,9 @@ export default function DiabetesDashboardScreen() {
                   {estimatedA1C > 0 ? estimatedA1C.toFixed(1) : '--'}
                 </Text>
                 <Text style={styles.metricLabel}>Est. A1C</Text>
-                <Text style={styles.metricUnit}>%</Text>
+                <Text style={styles.metricUnit}>
+                  {estimatedA1C > 0 ? `% • ${a1cToMmolPerMol(estimatedA1C)} mmol/mol` : '%'}
+                </Text>
               </View>
 
               <View style={styles.metricCard}>
@@ -239,9 +407,11 @@ export default function DiabetesDashboardScreen() {
 
               <View style={styles.metricCard}>
                 <BarChart3 size={24} color="#9B59B6" />
-                <Text style={styles.metricNumber}>{averageBloodSugar || '--'}</Text>
+                <Text style={styles.metricNumber}>
+                  {averageBloodSugar ? formatGlucose(averageBloodSugar, glucoseUnit, { withUnit: false }) : '--'}
+                </Text>
                 <Text style={styles.metricLabel}>30-Day Avg</Text>
-                <Text style={styles.metricUnit}>mg/dL</Text>
+                <Text style={styles.metricUnit}>{glucoseUnit}</Text>
               </View>
             </View>
 
@@ -285,7 +455,7 @@ export default function DiabetesDashboardScreen() {
                               }
                             ]} 
                           />
-                          <Text style={styles.barValue}>{reading.reading}</Text>
+                          <Text style={styles.barValue}>{formatGlucose(reading.reading, glucoseUnit, { withUnit: false })}</Text>
                           <Text style={styles.barDate}>
                             {new Date(reading.recorded_at).getDate()}
                           </Text>
@@ -313,48 +483,61 @@ export default function DiabetesDashboardScreen() {
         {activeTab === 'tasks' && (
           <View style={styles.tabContent}>
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>📋 Today's Tasks</Text>
-              {tasks.map((task) => (
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>📋 Today's Tasks</Text>
                 <TouchableOpacity
-                  key={task.id}
-                  style={[
-                    styles.taskCard,
-                    task.completed && styles.taskCompleted
-                  ]}
-                  onPress={() => !task.completed && handleCompleteTask(task.id)}
-                  disabled={task.completed}
+                  style={styles.addButton}
+                  onPress={() => openTaskModal(null)}
                 >
-                  <View style={styles.taskHeader}>
-                    <View style={styles.taskInfo}>
-                      <Text style={styles.taskIcon}>{task.icon}</Text>
-                      <View style={styles.taskDetails}>
-                        <Text style={[
-                          styles.taskTitle,
-                          task.completed && styles.taskTitleCompleted
-                        ]}>
-                          {task.title}
-                        </Text>
-                        <Text style={styles.taskDescription}>{task.description}</Text>
-                        {task.time && (
-                          <Text style={styles.taskTime}>⏰ {task.time}</Text>
-                        )}
-                      </View>
-                    </View>
-                    {task.completed ? (
-                      <CheckCircle size={24} color="#28A745" />
-                    ) : (
-                      <View style={styles.taskCheckbox} />
-                    )}
-                  </View>
-                  {task.streak > 0 && (
-                    <View style={styles.streakBadge}>
-                      <Award size={16} color="#FFD700" />
-                      <Text style={styles.streakText}>{task.streak} day streak!</Text>
-                    </View>
-                  )}
+                  <Plus size={20} color="#DC3545" />
                 </TouchableOpacity>
-              ))}
+              </View>
+              {todayTasks.map(renderTask)}
             </View>
+
+            {upcomingTasks.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>🗓️ Coming Up</Text>
+                {upcomingTasks.map(renderTask)}
+              </View>
+            )}
+
+            {archivedTasks.length > 0 && (
+              <View style={styles.section}>
+                <TouchableOpacity onPress={() => setShowArchived(!showArchived)}>
+                  <Text style={styles.archivedToggle}>
+                    {showArchived ? 'Hide' : 'Show'} {archivedTasks.length} archived
+                  </Text>
+                </TouchableOpacity>
+                {showArchived && archivedTasks.map((task) => (
+                  <View key={task.id} style={styles.archivedTask}>
+                    <Text style={styles.taskIcon}>{task.icon}</Text>
+                    <Text style={styles.archivedTaskTitle}>{task.title}</Text>
+                    <TouchableOpacity onPress={() => handleRestoreTask(task)}>
+                      <Text style={styles.archivedToggle}>Restore</Text>
+                    </TouchableOpacity>
+                  </View>
+                ))}
+              </View>
+            )}
+
+            {adherence.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>📊 {ADHERENCE_WINDOW_DAYS}-Day Adherence</Text>
+                <View style={styles.adherenceCard}>
+                  <Text style={styles.adherenceOverall}>{getOverallAdherence()}% of tasks completed on schedule</Text>
+                  {adherence.map((task) => (
+                    <View key={task.task_id} style={styles.adherenceRow}>
+                      <Text style={styles.adherenceTitle}>{task.title}</Text>
+                      <View style={styles.adherenceBar}>
+                        <View style={[styles.adherenceFill, { width: `${Math.round(task.rate * 100)}%` }]} />
+                      </View>
+                      <Text style={styles.adherenceValue}>{task.completed}/{task.expected}</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
           </View>
         )}
 
@@ -386,7 +569,7 @@ export default function DiabetesDashboardScreen() {
                         { backgroundColor: getReadingColor(reading.reading) }
                       ]} />
                       <View style={styles.readingInfo}>
-                        <Text style={styles.readingValue}>{reading.reading} mg/dL</Text>
+                        <Text style={styles.readingValue}>{formatGlucose(reading.reading, glucoseUnit)}</Text>
                         <Text style={styles.readingType}>
                           {reading.reading_type.replace('_', ' ').replace(/\b\w/g, l => l.toUpperCase())}
                         </Text>
@@ -473,7 +656,7 @@ export default function DiabetesDashboardScreen() {
 
           <View style={styles.modalContent}>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Blood Sugar Reading (mg/dL)</Text>
+              <Text style={styles.inputLabel}>Blood Sugar Reading ({glucoseUnit})</Text>
               <TextInput
                 style={styles.textInput}
                 value={bloodSugarReading}
@@ -587,6 +770,48 @@ export default function DiabetesDashboardScreen() {
         </View>
       </Modal>
 
+      {/* Task Modal */}
+      <Modal
+        visible={showTaskModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowTaskModal(false)}
+      >
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{editingTask ? 'Edit Task' : 'New Task'}</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={() => setShowTaskModal(false)}
+            >
+              <X size={24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.modalContent}>
+            <TaskForm
+              key={editingTask?.id || 'new'}
+              task={editingTask || undefined}
+              submitLabel={editingTask ? 'Save Task' : 'Add Task'}
+              onSubmit={handleSaveTask}
+            />
+
+            {editingTask && (
+              <View style={styles.taskModalActions}>
+                <TouchableOpacity style={styles.taskModalAction} onPress={() => handleArchiveTask(editingTask)}>
+                  <Archive size={18} color="#64748B" />
+                  <Text style={styles.taskModalActionText}>Archive</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.taskModalAction} onPress={() => handleDeleteTask(editingTask)}>
+                  <Trash2 size={18} color="#DC3545" />
+                  <Text style={[styles.taskModalActionText, styles.taskModalActionDanger]}>Delete</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+
       {activeTab === 'calendar' && (
         <View style={styles.tabContent}>
           <Text style={styles.sectionTitle}>🗓️ Data Log Calendar</Text>
@@ -866,6 +1091,63 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#0066CC',
   },
+  taskNextDue: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  taskAssigned: {
+    fontSize: 12,
+    color: '#7C3AED',
+    marginTop: 2,
+  },
+  taskEditButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  archivedToggle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0066CC',
+  },
+  archivedTask: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 12,
+    marginTop: 12,
+  },
+  archivedTaskTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: '#64748B',
+  },
+  taskModalActions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+    marginTop: 24,
+    marginBottom: 40,
+  },
+  taskModalAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  taskModalActionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748B',
+  },
+  taskModalActionDanger: {
+    color: '#DC3545',
+  },
   taskCheckbox: {
     width: 24,
     height: 24,
@@ -889,6 +1171,46 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#92400E',
   },
+  adherenceCard: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  adherenceOverall: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  adherenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  adherenceTitle: {
+    width: 120,
+    fontSize: 13,
+    color: '#374151',
+  },
+  adherenceBar: {
+    flex: 1,
+    height: 6,
+    backgroundColor: '#F1F5F9',
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  adherenceFill: {
+    height: '100%',
+    backgroundColor: '#28A745',
+    borderRadius: 3,
+  },
+  adherenceValue: {
+    width: 48,
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#1E293B',
+    textAlign: 'right',
+  },
   emptyState: {
     alignItems: 'center',
     paddingVertical: 40,
@@ -36,7 +36,8 @@ export default function DashboardScreen() {
           const { data, error } = await supabase
             .from('health_submissions')
             .select('*')
-            .eq('patient_id', user.id);
+            .eq('patient_id', user.id)
+            .neq('status', 'draft');
 
           if (error) {
             console.error('Error fetching assessments:', error);
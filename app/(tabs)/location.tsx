@@ -129,6 +129,7 @@ export default function LocationScreen() {
           )
         `)
         .eq('patient_id', patientData.id)
+        .neq('status', 'draft')
         .order('submitted_at', { ascending: false })
         .limit(1);
 
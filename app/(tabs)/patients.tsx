@@ -16,6 +16,8 @@ import { useRouter } from 'expo-router';
 import { Users, Search, Filter, MessageSquare, Eye, Calendar, Clock, TrendingUp, TriangleAlert as AlertTriangle, CircleCheck as CheckCircle, ChevronRight, X, Stethoscope, Heart, Activity } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/context/AuthContext';
+import { RiskTrajectoryCard } from '@/components/RiskTrajectoryCard';
+import { loadRiskTrajectory, type RiskTrajectory } from '@/lib/risk-trajectory';
 
 const { width } = Dimensions.get('window');
 
@@ -40,6 +42,9 @@ export default function PatientsScreen() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'pending' | 'critical'>('all');
   const [showFilterModal, setShowFilterModal] = useState(false);
+  const [trajectoryPatient, setTrajectoryPatient] = useState<Patient | null>(null);
+  const [trajectory, setTrajectory] = useState<RiskTrajectory | null>(null);
+  const [trajectoryLoading, setTrajectoryLoading] = useState(false);
 
   useEffect(() => {
     if (user?.role === 'doctor') {
@@ -73,6 +78,7 @@ export default function PatientsScreen() {
             risk_category
           )
         `)
+        .neq('status', 'draft')
         .order('submitted_at', { ascending: false });
 
       if (submissions) {
@@ -157,6 +163,19 @@ export default function PatientsScreen() {
     router.push(`/chat/${patientId}`);
   };
 
+  const handleTrajectoryPress = async (patient: Patient) => {
+    setTrajectoryPatient(patient);
+    setTrajectory(null);
+    setTrajectoryLoading(true);
+    try {
+      setTrajectory(await loadRiskTrajectory(patient.id));
+    } catch (error) {
+      console.error('Error loading risk trajectory:', error);
+    } finally {
+      setTrajectoryLoading(false);
+    }
+  };
+
   if (user?.role !== 'doctor') {
     return (
       <SafeAreaView style={styles.container}>
@@ -311,8 +330,11 @@ export default function PatientsScreen() {
                   >
                     <MessageSquare size={16} color="#0066CC" />
                   </TouchableOpacity>
-                  <TouchableOpacity style={styles.actionButton}>
-                    <Eye size={16} color="#64748B" />
+                  <TouchableOpacity
+                    style={styles.actionButton}
+                    onPress={() => handleTrajectoryPress(patient)}
+                  >
+                    <TrendingUp size={16} color="#64748B" />
                   </TouchableOpacity>
                   <ChevronRight size={16} color="#64748B" />
                 </View>
@@ -382,6 +404,38 @@ export default function PatientsScreen() {
           </View>
         </SafeAreaView>
       </Modal>
+
+      {/* Risk Trajectory Modal */}
+      <Modal
+        visible={trajectoryPatient !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setTrajectoryPatient(null)}
+      >
+        <SafeAreaView style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>{trajectoryPatient?.name}</Text>
+            <TouchableOpacity
+              style={styles.closeButton}
+              onPress={() => setTrajectoryPatient(null)}
+            >
+              <X size={24} color="#64748B" />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView contentContainerStyle={styles.modalContent}>
+            {trajectoryLoading ? (
+              <ActivityIndicator size="large" color="#0066CC" />
+            ) : trajectory && trajectory.points.filter(p => p.riskLevel !== null).length > 1 ? (
+              <RiskTrajectoryCard trajectory={trajectory} />
+            ) : (
+              <Text style={styles.emptyText}>
+                A trajectory is shown once the patient has completed at least two assessments.
+              </Text>
+            )}
+          </ScrollView>
+        </SafeAreaView>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -12,7 +12,7 @@ import {
   Switch,
 } from 'react-native';
 import { useRouter } from 'expo-router';
-import { User, LogOut, CreditCard as Edit3, Save, X, Heart, Stethoscope, Mail, Calendar, Shield, Settings, Bell, Globe, Database, ChevronRight } from 'lucide-react-native';
+import { User, LogOut, CreditCard as Edit3, Save, X, Heart, Stethoscope, Mail, Calendar, Shield, Settings, Bell, Globe, Database, ChevronRight, Clock, Droplets } from 'lucide-react-native';
 import { useAuth } from '@/context/AuthContext';
 import { supabase } from '@/lib/supabase';
 import { 
@@ -20,6 +20,8 @@ import {
   getResearchPreferences,
   type ResearchPreferences 
 } from '@/lib/research';
+import { getDeviceTimeZone, getUserTimeZone, saveUserTimeZone } from '@/lib/time-zones';
+import { GLUCOSE_UNITS, getGlucoseUnit, saveGlucoseUnit, type GlucoseUnit } from '@/lib/glucose';
 
 export default function ProfileScreen() {
   const { user, signOut } = useAuth();
@@ -28,6 +30,8 @@ export default function ProfileScreen() {
   const [loading, setLoading] = useState(false);
   const [fullName, setFullName] = useState(user?.full_name || '');
   const [showSettings, setShowSettings] = useState(false);
+  const [timeZone, setTimeZone] = useState<string | null>(null);
+  const [glucoseUnit, setGlucoseUnit] = useState<GlucoseUnit | null>(null);
   
   // Research preferences
   const [researchPrefs, setResearchPrefs] = useState<ResearchPreferences>({
@@ -39,8 +43,22 @@ export default function ProfileScreen() {
 
   React.useEffect(() => {
     loadResearchPreferences();
+    loadTimeZone();
+    loadGlucoseUnit();
   }, []);
 
+  const loadGlucoseUnit = async () => {
+    if (user) {
+      setGlucoseUnit(await getGlucoseUnit(user.id));
+    }
+  };
+
+  const loadTimeZone = async () => {
+    if (user) {
+      setTimeZone(await getUserTimeZone(user.id));
+    }
+  };
+
   const loadResearchPreferences = async () => {
     if (user) {
       const preferences = await getResearchPreferences(user.id);
@@ -114,6 +132,59 @@ export default function ProfileScreen() {
     }
   };
 
+  // Tasks and readings are grouped into days in this time zone
+  const handleTimeZonePress = () => {
+    if (!user) return;
+
+    const deviceTimeZone = getDeviceTimeZone();
+    if (deviceTimeZone === timeZone) {
+      Alert.alert('Time Zone', `Your days start at midnight in ${timeZone}, the time zone of this device.`);
+      return;
+    }
+
+    Alert.alert(
+      'Time Zone',
+      `Your days start at midnight in ${timeZone}. This device is set to ${deviceTimeZone}.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Use Device Time Zone',
+          onPress: async () => {
+            try {
+              await saveUserTimeZone(user.id, deviceTimeZone);
+              setTimeZone(deviceTimeZone);
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleGlucoseUnitPress = () => {
+    if (!user) return;
+
+    Alert.alert(
+      'Blood Sugar Unit',
+      'Readings are entered and shown in this unit.',
+      [
+        ...GLUCOSE_UNITS.map(unit => ({
+          text: unit,
+          onPress: async () => {
+            try {
+              await saveGlucoseUnit(user.id, unit);
+              setGlucoseUnit(unit);
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   const showDataPrivacyInfo = () => {
     Alert.alert(
       'Data Privacy',
@@ -331,6 +402,46 @@ export default function ProfileScreen() {
               </TouchableOpacity>
             </View>
 
+            {/* Time Zone Section */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Clock size={20} color="#0066CC" />
+                <Text style={styles.sectionTitle}>Time Zone</Text>
+              </View>
+
+              <TouchableOpacity style={styles.settingCard} onPress={handleTimeZonePress}>
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>{timeZone || getDeviceTimeZone()}</Text>
+                    <Text style={styles.settingDescription}>
+                      Daily tasks, streaks and readings follow this time zone
+                    </Text>
+                  </View>
+                  <ChevronRight size={20} color="#64748B" />
+                </View>
+              </TouchableOpacity>
+            </View>
+
+            {/* Blood Sugar Unit Section */}
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Droplets size={20} color="#0066CC" />
+                <Text style={styles.sectionTitle}>Blood Sugar Unit</Text>
+              </View>
+
+              <TouchableOpacity style={styles.settingCard} onPress={handleGlucoseUnitPress}>
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <Text style={styles.settingLabel}>{glucoseUnit || '--'}</Text>
+                    <Text style={styles.settingDescription}>
+                      Readings are stored in mg/dL and converted for display
+                    </Text>
+                  </View>
+                  <ChevronRight size={20} color="#64748B" />
+                </View>
+              </TouchableOpacity>
+            </View>
+
             {/* Research & Public Health Section */}
             <View style={styles.section}>
               <View style={styles.sectionHeader}>
@@ -5,6 +5,7 @@ import { useFrameworkReady } from '@/hooks/useFrameworkReady';
 import { AuthProvider } from '@/context/AuthContext';
 import { WebAuthProvider } from '@/components/WebAuthProvider';
 import { initializeI18n } from '@/lib/i18n';
+import { registerRescoringTask } from '@/lib/prediction-rescoring';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 
 export default function RootLayout() {
@@ -12,6 +13,7 @@ export default function RootLayout() {
 
   useEffect(() => {
     initializeI18n();
+    registerRescoringTask();
   }, []);
 
   return (
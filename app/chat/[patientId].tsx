@@ -15,8 +15,9 @@ import {
   Dimensions,
 } from 'react-native';
 import { useRouter, useLocalSearchParams } from 'expo-router';
-import { Send, ArrowLeft, User, Stethoscope, Clock, Image as ImageIcon, Smile, Paperclip, Mic, Shield } from 'lucide-react-native';
+import { Send, ArrowLeft, User, Stethoscope, Clock, Image as ImageIcon, Smile, Paperclip, Mic, Shield, Info } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
+import { getMessageText, getSystemSenderName, isSystemMessage } from '@/lib/chat-messages';
 import { Tables } from '@/types/database';
 
 const { width, height } = Dimensions.get('window');
@@ -229,6 +230,24 @@ export default function ChatScreen() {
     if (!currentDoctor || !patient) {
       return null; // Don't render messages until context is loaded
     }
+    if (isSystemMessage(item)) {
+      return (
+        <View style={[styles.messageContainer, styles.systemMessage]}>
+          <View style={styles.messageHeader}>
+            <View style={styles.senderInfo}>
+              <Info size={16} color="#8A6D00" />
+              <Text style={styles.senderName}>{getSystemSenderName()}</Text>
+            </View>
+            <View style={styles.timeContainer}>
+              <Clock size={12} color="#999" />
+              <Text style={styles.messageTime}>{formatTime(item.created_at)}</Text>
+            </View>
+          </View>
+          <Text style={styles.messageContent}>{getMessageText(item)}</Text>
+        </View>
+      );
+    }
+
     const isDoctor = item.sender_id === currentDoctor?.id;
 
     return (
@@ -502,6 +521,12 @@ const styles = StyleSheet.create({
     borderColor: '#e0e0e0',
     borderBottomLeftRadius: 4,
   },
+  systemMessage: {
+    alignSelf: 'center',
+    backgroundColor: '#FFF8E1',
+    borderWidth: 1,
+    borderColor: '#FFE8A3',
+  },
   messageHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
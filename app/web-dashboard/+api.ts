@@ -46,6 +46,7 @@ async function getDashboardStats() {
         risk_category
       )
     `)
+    .neq('status', 'draft')
     .order('submitted_at', { ascending: false });
 
   if (!submissions) {
@@ -101,6 +102,7 @@ async function getPatientList() {
         risk_category
       )
     `)
+    .neq('status', 'draft')
     .order('submitted_at', { ascending: false })
     .limit(50);
 
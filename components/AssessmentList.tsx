@@ -57,6 +57,7 @@ const AssessmentList = () => {
               )
             `)
             .eq('patient_id', patientData.id)
+            .neq('status', 'draft')
             .order('submitted_at', { ascending: false });
 
           if (error) {
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { Pencil, Trash2, Plus } from 'lucide-react-native';
+import {
+  assignTask,
+  deleteTask,
+  getAssignedTasks,
+  updateTask,
+  type DiabetesTask,
+  type TaskDraft,
+} from '@/lib/diabetes-management';
+import { formatRecurrence } from '@/lib/task-recurrence';
+import { TaskForm } from './TaskForm';
+
+interface AssignedTasksEditorProps {
+  patientUserId: string;
+}
+
+// Tasks a doctor assigned to a patient. The patient sees them in their daily tasks and
+// cannot change or delete them.
+export function AssignedTasksEditor({ patientUserId }: AssignedTasksEditorProps) {
+  const [tasks, setTasks] = useState<DiabetesTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+
+  useEffect(() => {
+    refresh();
+  }, [patientUserId]);
+
+  const refresh = async () => {
+    try {
+      setTasks(await getAssignedTasks(patientUserId));
+    } catch (error) {
+      console.error('Error loading assigned tasks:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleAssign = async (draft: TaskDraft) => {
+    await assignTask(patientUserId, draft);
+    setAdding(false);
+    await refresh();
+  };
+
+  const handleUpdate = async (task: DiabetesTask, draft: TaskDraft) => {
+    await updateTask(task, draft);
+    setEditingId(null);
+    await refresh();
+  };
+
+  const handleDelete = (task: DiabetesTask) => {
+    Alert.alert(
+      'Delete task?',
+      'The task and the patient\'s completion history for it are deleted.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteTask(task);
+              await refresh();
+            } catch (error: any) {
+              Alert.alert('Error', error.message);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return <ActivityIndicator size="small" color="#0066CC" />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {tasks.length === 0 && !adding && (
+        <Text style={styles.emptyText}>No tasks assigned to this patient yet.</Text>
+      )}
+
+      {tasks.map(task => (
+        <View key={task.id} style={styles.item}>
+          {editingId === task.id ? (
+            <TaskForm task={task} submitLabel="Save Task" onSubmit={draft => handleUpdate(task, draft)} />
+          ) : (
+            <View style={styles.itemRow}>
+              <Text style={styles.itemIcon}>{task.icon}</Text>
+              <View style={styles.itemInfo}>
+                <Text style={styles.itemTitle}>{task.title}</Text>
+                <Text style={styles.itemSchedule}>
+                  {formatRecurrence(task)}{task.time ? ` at ${task.time}` : ''}
+                </Text>
+              </View>
+              <TouchableOpacity style={styles.iconButton} onPress={() => setEditingId(task.id)}>
+                <Pencil size={16} color="#0066CC" />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(task)}>
+                <Trash2 size={16} color="#DC3545" />
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      ))}
+
+      {adding ? (
+        <View style={styles.item}>
+          <TaskForm submitLabel="Assign Task" onSubmit={handleAssign} />
+        </View>
+      ) : (
+        <TouchableOpacity style={styles.addButton} onPress={() => setAdding(true)}>
+          <Plus size={16} color="white" />
+          <Text style={styles.addButtonText}>Assign a task</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  item: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  itemRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  itemIcon: {
+    fontSize: 22,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  itemSchedule: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 2,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  addButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
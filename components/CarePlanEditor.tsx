@@ -0,0 +1,395 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { ArrowUp, ArrowDown, Pencil, Archive, Plus, Activity, Heart } from 'lucide-react-native';
+import {
+  addRecommendation,
+  editRecommendation,
+  loadCarePlan,
+  moveCarePlanItem,
+  reorderCarePlan,
+  retireRecommendation,
+  type CarePlanDraft,
+  type CarePlanItem,
+} from '@/lib/care-plan';
+
+interface CarePlanEditorProps {
+  submissionId: string;
+  // Called after every saved change, e.g. to refresh a recommendation count
+  onChange?: () => void;
+}
+
+const EMPTY_DRAFT: CarePlanDraft = { content: '', type: 'lifestyle' };
+
+function formatDate(dateString: string | null): string {
+  return dateString ? new Date(dateString).toLocaleDateString() : '';
+}
+
+function getAttribution(item: CarePlanItem): string {
+  const author = item.doctor_id
+    ? `Added by ${item.authorName || 'a doctor'}`
+    : `Generated by rule ${item.rule_id || 'engine'}${item.priority !== null ? ` (priority ${item.priority})` : ''}`;
+  const parts = [`${author} on ${formatDate(item.created_at)}`];
+
+  if (item.updated_by) {
+    parts.push(`edited by ${item.updatedByName || 'a doctor'} on ${formatDate(item.updated_at)}`);
+  }
+  if (item.retired_at) {
+    parts.push(`retired on ${formatDate(item.retired_at)}`);
+  }
+  return parts.join(' • ');
+}
+
+export function CarePlanEditor({ submissionId, onChange }: CarePlanEditorProps) {
+  const [items, setItems] = useState<CarePlanItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [showRetired, setShowRetired] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<CarePlanDraft>(EMPTY_DRAFT);
+  const [newDraft, setNewDraft] = useState<CarePlanDraft>(EMPTY_DRAFT);
+
+  useEffect(() => {
+    refresh();
+  }, [submissionId]);
+
+  const refresh = async () => {
+    try {
+      setItems(await loadCarePlan(submissionId, { includeRetired: true }));
+    } catch (error) {
+      console.error('Error loading care plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const save = async (change: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await change();
+      await refresh();
+      onChange?.();
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activeItems = items.filter(item => !item.retired_at);
+  const retiredItems = items.filter(item => item.retired_at);
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const reordered = moveCarePlanItem(activeItems, index, direction);
+    if (reordered === activeItems) return;
+    save(() => reorderCarePlan(submissionId, reordered));
+  };
+
+  const handleRetire = (item: CarePlanItem) => {
+    Alert.alert(
+      'Retire recommendation?',
+      'The patient will no longer see it. It stays in the care plan history.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Retire',
+          style: 'destructive',
+          onPress: () => save(() => retireRecommendation(item)),
+        },
+      ]
+    );
+  };
+
+  const startEditing = (item: CarePlanItem) => {
+    setEditingId(item.id);
+    setEditDraft({ content: item.content, type: item.type });
+  };
+
+  const handleSaveEdit = (item: CarePlanItem) => {
+    if (!editDraft.content.trim()) return;
+    save(async () => {
+      await editRecommendation(item, editDraft);
+      setEditingId(null);
+    });
+  };
+
+  const handleAdd = () => {
+    if (!newDraft.content.trim()) return;
+    save(async () => {
+      await addRecommendation(submissionId, newDraft);
+      setNewDraft(EMPTY_DRAFT);
+    });
+  };
+
+  const renderTypeToggle = (draft: CarePlanDraft, setDraft: (draft: CarePlanDraft) => void) => (
+    <View style={styles.typeToggle}>
+      {(['lifestyle', 'clinical'] as const).map(type => (
+        <TouchableOpacity
+          key={type}
+          style={[styles.typeOption, draft.type === type && styles.typeOptionActive]}
+          onPress={() => setDraft({ ...draft, type })}
+        >
+          <Text style={[styles.typeOptionText, draft.type === type && styles.typeOptionTextActive]}>
+            {type === 'lifestyle' ? 'Lifestyle' : 'Clinical'}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  if (loading) {
+    return <ActivityIndicator size="small" color="#0066CC" />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {activeItems.length === 0 && (
+        <Text style={styles.emptyText}>This care plan has no recommendations yet.</Text>
+      )}
+
+      {activeItems.map((item, index) => (
+        <View key={item.id} style={styles.item}>
+          {editingId === item.id ? (
+            <View style={styles.form}>
+              <TextInput
+                style={styles.input}
+                value={editDraft.content}
+                onChangeText={content => setEditDraft({ ...editDraft, content })}
+                multiline
+              />
+              {renderTypeToggle(editDraft, setEditDraft)}
+              <View style={styles.formActions}>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setEditingId(null)}>
+                  <Text style={styles.secondaryButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.primaryButton, saving && styles.buttonDisabled]}
+                  onPress={() => handleSaveEdit(item)}
+                  disabled={saving}
+                >
+                  <Text style={styles.primaryButtonText}>Save</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          ) : (
+            <>
+              <View style={styles.itemHeader}>
+                {item.type === 'lifestyle' ? (
+                  <Activity size={16} color="#065F46" />
+                ) : (
+                  <Heart size={16} color="#991B1B" />
+                )}
+                <Text style={styles.itemContent}>{item.content}</Text>
+              </View>
+              <Text style={styles.attribution}>{getAttribution(item)}</Text>
+              {item.evidence && <Text style={styles.attribution}>Evidence: {item.evidence}</Text>}
+              <View style={styles.itemActions}>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleMove(index, -1)}
+                  disabled={saving || index === 0}
+                >
+                  <ArrowUp size={16} color={index === 0 ? '#CBD5E1' : '#64748B'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => handleMove(index, 1)}
+                  disabled={saving || index === activeItems.length - 1}
+                >
+                  <ArrowDown size={16} color={index === activeItems.length - 1 ? '#CBD5E1' : '#64748B'} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => startEditing(item)} disabled={saving}>
+                  <Pencil size={16} color="#0066CC" />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => handleRetire(item)} disabled={saving}>
+                  <Archive size={16} color="#DC3545" />
+                </TouchableOpacity>
+              </View>
+            </>
+          )}
+        </View>
+      ))}
+
+      <View style={styles.form}>
+        <Text style={styles.formTitle}>Add recommendation</Text>
+        <TextInput
+          style={styles.input}
+          value={newDraft.content}
+          onChangeText={content => setNewDraft({ ...newDraft, content })}
+          placeholder="Write a recommendation for the patient"
+          placeholderTextColor="#94A3B8"
+          multiline
+        />
+        {renderTypeToggle(newDraft, setNewDraft)}
+        <TouchableOpacity
+          style={[styles.primaryButton, (saving || !newDraft.content.trim()) && styles.buttonDisabled]}
+          onPress={handleAdd}
+          disabled={saving || !newDraft.content.trim()}
+        >
+          <Plus size={16} color="white" />
+          <Text style={styles.primaryButtonText}>Add to care plan</Text>
+        </TouchableOpacity>
+      </View>
+
+      {retiredItems.length > 0 && (
+        <View>
+          <TouchableOpacity onPress={() => setShowRetired(!showRetired)}>
+            <Text style={styles.retiredToggle}>
+              {showRetired ? 'Hide' : 'Show'} {retiredItems.length} retired
+            </Text>
+          </TouchableOpacity>
+          {showRetired && retiredItems.map(item => (
+            <View key={item.id} style={[styles.item, styles.itemRetired]}>
+              <Text style={[styles.itemContent, styles.itemContentRetired]}>{item.content}</Text>
+              <Text style={styles.attribution}>{getAttribution(item)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748B',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  item: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  itemRetired: {
+    backgroundColor: '#F8FAFC',
+    marginTop: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+  },
+  itemContent: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+    lineHeight: 20,
+  },
+  itemContentRetired: {
+    color: '#94A3B8',
+    textDecorationLine: 'line-through',
+  },
+  attribution: {
+    fontSize: 12,
+    color: '#64748B',
+  },
+  itemActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#F1F5F9',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  form: {
+    gap: 8,
+  },
+  formTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 14,
+    color: '#1E293B',
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  typeToggle: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  typeOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  typeOptionActive: {
+    borderColor: '#0066CC',
+    backgroundColor: '#EBF4FF',
+  },
+  typeOptionText: {
+    fontSize: 13,
+    color: '#64748B',
+  },
+  typeOptionTextActive: {
+    color: '#0066CC',
+    fontWeight: '600',
+  },
+  formActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    backgroundColor: '#0066CC',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#F1F5F9',
+  },
+  secondaryButtonText: {
+    color: '#64748B',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  retiredToggle: {
+    fontSize: 13,
+    color: '#0066CC',
+    fontWeight: '600',
+  },
+});
@@ -22,10 +22,19 @@ import {
   getHealthTips,
   calculateA1CEstimate,
   initializeDiabetesTasks,
+  getTasksDueToday,
   type DiabetesTask,
   type BloodSugarReading,
   type MedicationReminder,
 } from '@/lib/diabetes-management';
+import {
+  DEFAULT_GLUCOSE_UNIT,
+  a1cToMmolPerMol,
+  formatGlucose,
+  getGlucoseUnit,
+  parseGlucoseInput,
+  type GlucoseUnit,
+} from '@/lib/glucose';
 
 interface DiabetesManagementCardProps {
   riskCategory?: string;
@@ -36,6 +45,7 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
   const [tasks, setTasks] = useState<DiabetesTask[]>([]);
   const [bloodSugarHistory, setBloodSugarHistory] = useState<BloodSugarReading[]>([]);
   const [medications, setMedications] = useState<MedicationReminder[]>([]);
+  const [glucoseUnit, setGlucoseUnit] = useState<GlucoseUnit>(DEFAULT_GLUCOSE_UNIT);
   const [loading, setLoading] = useState(true);
   const [showBloodSugarModal, setShowBloodSugarModal] = useState(false);
   const [showMedicationModal, setShowMedicationModal] = useState(false);
@@ -65,15 +75,17 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
       await initializeDiabetesTasks(user.id);
       
       // Load all data
-      const [tasksData, historyData, medicationsData] = await Promise.all([
+      const [tasksData, historyData, medicationsData, unit] = await Promise.all([
         getDailyTasks(user.id),
         getBloodSugarHistory(user.id, 30),
         getMedicationReminders(user.id),
+        getGlucoseUnit(user.id),
       ]);
 
       setTasks(tasksData);
       setBloodSugarHistory(historyData);
       setMedications(medicationsData);
+      setGlucoseUnit(unit);
     } catch (error) {
       console.error('Error loading diabetes data:', error);
     } finally {
@@ -93,13 +105,15 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
   const handleAddBloodSugar = async () => {
     if (!user || !bloodSugarReading) return;
 
+    let reading: number;
     try {
-      const reading = parseFloat(bloodSugarReading);
-      if (isNaN(reading) || reading < 20 || reading > 600) {
-        Alert.alert('Invalid Reading', 'Please enter a valid blood sugar reading between 20-600 mg/dL');
-        return;
-      }
+      reading = parseGlucoseInput(bloodSugarReading, glucoseUnit);
+    } catch (error: any) {
+      Alert.alert('Invalid Reading', error.message);
+      return;
+    }
 
+    try {
       await addBloodSugarReading(user.id, reading, readingType, notes);
       setShowBloodSugarModal(false);
       setBloodSugarReading('');
@@ -134,8 +148,10 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
     return bloodSugarHistory.length > 0 ? bloodSugarHistory[0] : null;
   };
 
+  const todayTasks = getTasksDueToday(tasks);
+
   const getCompletedTasksToday = () => {
-    return tasks.filter(task => task.completed).length;
+    return todayTasks.filter(task => task.completed).length;
   };
 
   const getAverageBloodSugar = () => {
@@ -147,7 +163,7 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
   const estimatedA1C = calculateA1CEstimate(bloodSugarHistory);
   const latestReading = getLatestReading();
   const completedTasks = getCompletedTasksToday();
-  const totalTasks = tasks.length;
+  const totalTasks = todayTasks.length;
   const healthTips = getHealthTips(riskCategory);
 
   if (loading) {
@@ -183,17 +199,19 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
         <View style={styles.statCard}>
           <Droplets size={20} color="#DC3545" />
           <Text style={styles.statNumber}>
-            {latestReading ? latestReading.reading : '--'}
+            {latestReading ? formatGlucose(latestReading.reading, glucoseUnit, { withUnit: false }) : '--'}
           </Text>
-          <Text style={styles.statLabel}>Latest Reading</Text>
+          <Text style={styles.statLabel}>Latest ({glucoseUnit})</Text>
         </View>
 
         <View style={styles.statCard}>
           <TrendingUp size={20} color="#0066CC" />
           <Text style={styles.statNumber}>
-            {estimatedA1C > 0 ? estimatedA1C.toFixed(1) : '--'}
+            {estimatedA1C > 0 ? `${estimatedA1C.toFixed(1)}%` : '--'}
+          </Text>
+          <Text style={styles.statLabel}>
+            {estimatedA1C > 0 ? `Est. A1C • ${a1cToMmolPerMol(estimatedA1C)} mmol/mol` : 'Est. A1C'}
           </Text>
-          <Text style={styles.statLabel}>Est. A1C</Text>
         </View>
       </View>
 
@@ -224,7 +242,7 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
           showsHorizontalScrollIndicator={false}
           style={styles.tasksScroll}
         >
-          {tasks.slice(0, 6).map((task) => (
+          {todayTasks.slice(0, 6).map((task) => (
             <TouchableOpacity
               key={task.id}
               style={[
@@ -294,7 +312,7 @@ export function DiabetesManagementCard({ riskCategory }: DiabetesManagementCardP
 
           <View style={styles.modalContent}>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Blood Sugar Reading (mg/dL)</Text>
+              <Text style={styles.inputLabel}>Blood Sugar Reading ({glucoseUnit})</Text>
               <TextInput
                 style={styles.textInput}
                 value={bloodSugarReading}
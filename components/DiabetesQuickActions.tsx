@@ -18,15 +18,25 @@ import {
   completeTask,
   addBloodSugarReading,
   getBloodSugarHistory,
+  getTasksDueToday,
   type DiabetesTask,
   type BloodSugarReading,
 } from '@/lib/diabetes-management';
+import {
+  DEFAULT_GLUCOSE_UNIT,
+  formatGlucose,
+  getGlucoseStatus,
+  getGlucoseUnit,
+  parseGlucoseInput,
+  type GlucoseUnit,
+} from '@/lib/glucose';
 
 export function DiabetesQuickActions() {
   const { user } = useAuth();
   const router = useRouter();
   const [tasks, setTasks] = useState<DiabetesTask[]>([]);
   const [recentReadings, setRecentReadings] = useState<BloodSugarReading[]>([]);
+  const [glucoseUnit, setGlucoseUnit] = useState<GlucoseUnit>(DEFAULT_GLUCOSE_UNIT);
   const [showBloodSugarModal, setShowBloodSugarModal] = useState(false);
   const [bloodSugarReading, setBloodSugarReading] = useState('');
   const [readingType, setReadingType] = useState<'fasting' | 'post_meal' | 'bedtime' | 'random'>('fasting');
@@ -41,13 +51,15 @@ export function DiabetesQuickActions() {
     if (!user) return;
 
     try {
-      const [tasksData, readingsData] = await Promise.all([
+      const [tasksData, readingsData, unit] = await Promise.all([
         getDailyTasks(user.id),
         getBloodSugarHistory(user.id, 7), // Last 7 days
+        getGlucoseUnit(user.id),
       ]);
 
       setTasks(tasksData);
       setRecentReadings(readingsData);
+      setGlucoseUnit(unit);
     } catch (error) {
       console.error('Error loading quick data:', error);
     }
@@ -70,13 +82,15 @@ export function DiabetesQuickActions() {
   const handleQuickBloodSugarLog = async () => {
     if (!user || !bloodSugarReading) return;
 
+    let reading: number;
     try {
-      const reading = parseFloat(bloodSugarReading);
-      if (isNaN(reading) || reading < 20 || reading > 600) {
-        Alert.alert('Invalid Reading', 'Please enter a valid blood sugar reading between 20-600 mg/dL');
-        return;
-      }
+      reading = parseGlucoseInput(bloodSugarReading, glucoseUnit);
+    } catch (error: any) {
+      Alert.alert('Invalid Reading', error.message);
+      return;
+    }
 
+    try {
       await addBloodSugarReading(user.id, reading, readingType);
       setShowBloodSugarModal(false);
       setBloodSugarReading('');
@@ -88,8 +102,10 @@ export function DiabetesQuickActions() {
     }
   };
 
+  const todayTasks = getTasksDueToday(tasks);
+
   const getCompletedTasksCount = () => {
-    return tasks.filter(task => task.completed).length;
+    return todayTasks.filter(task => task.completed).length;
   };
 
   const getLatestReading = () => {
@@ -97,12 +113,13 @@ export function DiabetesQuickActions() {
   };
 
   const getReadingColor = (reading: number) => {
-    if (reading < 70) return '#DC3545'; // Low
-    if (reading > 180) return '#FFA500'; // High
+    const status = getGlucoseStatus(reading);
+    if (status === 'low') return '#DC3545';
+    if (status === 'high') return '#FFA500';
     return '#28A745'; // Normal
   };
 
-  const urgentTasks = tasks.filter(task => !task.completed && task.type === 'medication').slice(0, 2);
+  const urgentTasks = todayTasks.filter(task => !task.completed && task.type === 'medication').slice(0, 2);
   const latestReading = getLatestReading();
   const completedCount = getCompletedTasksCount();
 
@@ -139,7 +156,7 @@ export function DiabetesQuickActions() {
           {latestReading && (
             <View style={styles.cardSubtitle}>
               <Text style={styles.lastReadingText}>
-                Last: {latestReading.reading} mg/dL
+                Last: {formatGlucose(latestReading.reading, glucoseUnit)}
               </Text>
               <Text style={styles.readingTime}>
                 {new Date(latestReading.recorded_at).toLocaleDateString()}
@@ -159,13 +176,13 @@ export function DiabetesQuickActions() {
           <Text style={[styles.cardTitle, { color: '#0066CC' }]}>Today's Progress</Text>
           <View style={styles.progressInfo}>
             <Text style={styles.progressText}>
-              {completedCount}/{tasks.length} tasks
+              {completedCount}/{todayTasks.length} tasks
             </Text>
             <View style={styles.progressBar}>
               <View 
                 style={[
                   styles.progressFill,
-                  { width: `${tasks.length > 0 ? (completedCount / tasks.length) * 100 : 0}%` }
+                  { width: `${todayTasks.length > 0 ? (completedCount / todayTasks.length) * 100 : 0}%` }
                 ]} 
               />
             </View>
@@ -209,7 +226,7 @@ export function DiabetesQuickActions() {
             </Text>
             {recentReadings.length > 0 && (
               <Text style={styles.avgText}>
-                Avg: {Math.round(recentReadings.reduce((sum, r) => sum + r.reading, 0) / recentReadings.length)} mg/dL
+                Avg: {formatGlucose(recentReadings.reduce((sum, r) => sum + r.reading, 0) / recentReadings.length, glucoseUnit)}
               </Text>
             )}
           </View>
@@ -248,7 +265,7 @@ export function DiabetesQuickActions() {
 
           <View style={styles.modalContent}>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Reading (mg/dL)</Text>
+              <Text style={styles.inputLabel}>Reading ({glucoseUnit})</Text>
               <TextInput
                 style={styles.textInput}
                 value={bloodSugarReading}
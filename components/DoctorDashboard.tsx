@@ -86,6 +86,7 @@ export default function DoctorDashboard() {
             risk_category
           )
         `)
+        .neq('status', 'draft')
         .order('submitted_at', { ascending: false });
 
       if (submissions) {
@@ -12,12 +12,15 @@ import {
 import { Users, TriangleAlert as AlertTriangle, TrendingUp, Calendar, MapPin, Activity, Heart, Stethoscope, FileText, Download, Filter, Search, Eye, Clock, CircleCheck as CheckCircle } from 'lucide-react-native';
 import { supabase } from '@/lib/supabase';
 import { generatePublicHealthMetrics, type PublicHealthMetrics } from '@/lib/research';
+import { CarePlanEditor } from './CarePlanEditor';
+import { AssignedTasksEditor } from './AssignedTasksEditor';
 
 const { width } = Dimensions.get('window');
 const isWeb = Platform.OS === 'web';
 
 interface PatientSummary {
   id: string;
+  userId: string;
   name: string;
   age: number;
   gender: string;
@@ -47,6 +50,7 @@ export function DoctorWebDashboard() {
   const [metrics, setMetrics] = useState<PublicHealthMetrics | null>(null);
   const [loading, setLoading] = useState(true);
   const [selectedFilter, setSelectedFilter] = useState<'all' | 'pending' | 'critical'>('all');
+  const [selectedPatient, setSelectedPatient] = useState<PatientSummary | null>(null);
 
   useEffect(() => {
     loadDashboardData();
@@ -86,6 +90,7 @@ export function DoctorWebDashboard() {
             risk_category
           )
         `)
+        .neq('status', 'draft')
         .order('submitted_at', { ascending: false });
 
       if (submissions) {
@@ -132,6 +137,7 @@ export function DoctorWebDashboard() {
           submitted_at,
           patients!inner (
             id,
+            user_id,
             age,
             gender,
             profiles!inner (
@@ -143,12 +149,14 @@ export function DoctorWebDashboard() {
             risk_category
           )
         `)
+        .neq('status', 'draft')
         .order('submitted_at', { ascending: false })
         .limit(20);
 
       if (submissions) {
         const patientSummaries: PatientSummary[] = submissions.map(submission => ({
           id: submission.id,
+          userId: submission.patients.user_id,
           name: submission.patients.profiles.full_name,
           age: submission.patients.age || 0,
           gender: submission.patients.gender || 'Unknown',
@@ -321,7 +329,11 @@ export function DoctorWebDashboard() {
 
         <View style={styles.patientList}>
           {getFilteredPatients().map((patient) => (
-            <TouchableOpacity key={patient.id} style={styles.patientCard}>
+            <TouchableOpacity
+              key={patient.id}
+              style={[styles.patientCard, selectedPatient?.id === patient.id && styles.patientCardSelected]}
+              onPress={() => setSelectedPatient(selectedPatient?.id === patient.id ? null : patient)}
+            >
               <View style={styles.patientHeader}>
                 <View style={styles.patientInfo}>
                   <Text style={styles.patientName}>{patient.name}</Text>
@@ -383,6 +395,25 @@ export function DoctorWebDashboard() {
         </View>
       </View>
 
+      {/* Care Plan */}
+      {selectedPatient && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>📝 Care Plan: {selectedPatient.name}</Text>
+          <Text style={styles.carePlanSubtitle}>
+            Assessment of {new Date(selectedPatient.lastAssessment).toLocaleDateString()}. The patient is
+            notified in their chat when you change the plan.
+          </Text>
+          <CarePlanEditor submissionId={selectedPatient.id} />
+
+          <Text style={[styles.sectionTitle, styles.assignedTasksTitle]}>📋 Assigned Tasks</Text>
+          <Text style={styles.carePlanSubtitle}>
+            Assigned tasks appear in the patient's daily tasks with reminders. Only doctors can change
+            or delete them.
+          </Text>
+          <AssignedTasksEditor patientUserId={selectedPatient.userId} />
+        </View>
+      )}
+
       {/* Public Health Insights */}
       {metrics && (
         <View style={styles.section}>
@@ -583,6 +614,18 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  patientCardSelected: {
+    borderWidth: 2,
+    borderColor: '#0066CC',
+  },
+  carePlanSubtitle: {
+    fontSize: 14,
+    color: '#64748B',
+    marginBottom: 16,
+  },
+  assignedTasksTitle: {
+    marginTop: 24,
+  },
   patientHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
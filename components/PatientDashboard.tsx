@@ -17,6 +17,9 @@ import { useAuth } from '@/context/AuthContext';
 import AssessmentList from './AssessmentList';
 import { DiabetesQuickActions } from './DiabetesQuickActions';
 import { DiabetesManagementCard } from './DiabetesManagementCard';
+import { RiskTrajectoryCard } from './RiskTrajectoryCard';
+import { loadRiskTrajectory, type RiskTrajectory } from '@/lib/risk-trajectory';
+import { sortCarePlan } from '@/lib/care-plan';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
 const { width } = Dimensions.get('window');
@@ -33,6 +36,8 @@ interface HealthSubmission {
     content: string;
     type: 'lifestyle' | 'clinical';
     created_at: string;
+    position: number | null;
+    priority: number | null;
   }[];
 }
 
@@ -42,6 +47,7 @@ export function PatientDashboard() {
   const [submissions, setSubmissions] = useState<HealthSubmission[]>([]);
   const [loading, setLoading] = useState(true);
   const [isFirstTime, setIsFirstTime] = useState(false);
+  const [trajectory, setTrajectory] = useState<RiskTrajectory | null>(null);
 
   useEffect(() => {
     fetchSubmissions();
@@ -89,13 +95,24 @@ export function PatientDashboard() {
           recommendations (
             content,
             type,
-            created_at
+            created_at,
+            position,
+            priority
           )
         `)
         .eq('patient_id', patientData.id)
+        .neq('status', 'draft')
+        .is('recommendations.retired_at', null)
         .order('submitted_at', { ascending: false });
 
-      setSubmissions(data || []);
+      setSubmissions((data || []).map(submission => ({
+        ...submission,
+        recommendations: sortCarePlan(submission.recommendations || []),
+      })));
+
+      if (data && data.length > 1) {
+        setTrajectory(await loadRiskTrajectory(patientData.id));
+      }
     } catch (error) {
       console.error('Error fetching submissions:', error);
     } finally {
@@ -281,6 +298,13 @@ export function PatientDashboard() {
         </View>
       )}
 
+      {/* Risk Trajectory */}
+      {trajectory && (
+        <View style={styles.section}>
+          <RiskTrajectoryCard trajectory={trajectory} />
+        </View>
+      )}
+
       {/* Latest Recommendations */}
       {submissions[0]?.recommendations && submissions[0].recommendations.length > 0 && (
         <View style={styles.section}>
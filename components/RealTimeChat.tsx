@@ -10,11 +10,16 @@ import {
   Platform,
 } from 'react-native';
 import { supabase } from '@/lib/supabase';
+import { getMessageText, getSystemSenderName, isSystemMessage } from '@/lib/chat-messages';
+import type { Json } from '@/types/database';
 
 interface Message {
   id: string;
-  sender_id: string;
+  sender_id: string | null;
+  sender_type: string;
   message: string;
+  message_key?: string | null;
+  message_params?: Json | null;
   created_at: string;
 }
 
@@ -82,6 +87,18 @@ export function RealTimeChat({ chatId, currentUserId }: RealTimeChatProps) {
   };
 
   const renderItem = ({ item }: { item: Message }) => {
+    if (isSystemMessage(item)) {
+      return (
+        <View style={[styles.messageContainer, styles.systemMessage]}>
+          <Text style={styles.systemSender}>{getSystemSenderName()}</Text>
+          <Text style={styles.messageText}>{getMessageText(item)}</Text>
+          <Text style={styles.timestamp}>
+            {new Date(item.created_at).toLocaleTimeString()}
+          </Text>
+        </View>
+      );
+    }
+
     const isCurrentUser = item.sender_id === currentUserId;
     return (
       <View
@@ -145,6 +162,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#EAEAEA',
     alignSelf: 'flex-start',
   },
+  systemMessage: {
+    backgroundColor: '#FFF8E1',
+    alignSelf: 'center',
+  },
+  systemSender: { fontSize: 12, fontWeight: '600', color: '#8A6D00', marginBottom: 4 },
   messageText: { fontSize: 16, color: '#333' },
   timestamp: {
     fontSize: 10,
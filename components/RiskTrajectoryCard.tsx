@@ -0,0 +1,175 @@
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { LineChart } from 'react-native-chart-kit';
+import { TrendingUp, TrendingDown, TriangleAlert as AlertTriangle, Minus } from 'lucide-react-native';
+import { RISK_CATEGORY_BANDS } from '@/lib/assessment-simulation';
+import { getActivityLevelLabel, type FactorDelta, type RiskTrajectory } from '@/lib/risk-trajectory';
+
+const { width } = Dimensions.get('window');
+
+const RISK_LEVEL_LABELS = ['None', 'Low', 'Mod.', 'High', 'Crit.'];
+
+interface RiskTrajectoryCardProps {
+  trajectory: RiskTrajectory;
+  // Width available to the chart; defaults to the screen width minus the usual margins
+  chartWidth?: number;
+}
+
+function formatFactorValue(delta: FactorDelta, value: number): string {
+  if (delta.factor === 'activity') return getActivityLevelLabel(value);
+  return `${value}${delta.unit ? ` ${delta.unit}` : ''}`;
+}
+
+export function RiskTrajectoryCard({ trajectory, chartWidth = width - 48 }: RiskTrajectoryCardProps) {
+  const scoredPoints = trajectory.points.filter(point => point.riskLevel !== null);
+  const latestChange = trajectory.latestChange;
+
+  if (scoredPoints.length < 2) return null;
+
+  const labels = scoredPoints.map(point => {
+    const date = new Date(point.submittedAt);
+    return `${date.getDate()}/${date.getMonth() + 1}`;
+  });
+
+  const worsened = latestChange?.deltas.filter(delta => delta.significant) || [];
+  const warnings = [
+    latestChange?.riskLevelDelta && latestChange.riskLevelDelta > 0 ? 'Risk level has increased since the previous assessment.' : null,
+    worsened.length > 0 ? `Significant worsening: ${worsened.map(delta => delta.label.toLowerCase()).join(', ')}.` : null,
+  ].filter(Boolean);
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <TrendingUp size={20} color="#0066CC" />
+        <Text style={styles.title}>Risk Trajectory</Text>
+      </View>
+      <Text style={styles.subtitle}>
+        Risk level across {scoredPoints.length} assessments
+      </Text>
+
+      <LineChart
+        data={{
+          labels,
+          datasets: [
+            { data: scoredPoints.map(point => point.riskLevel as number) },
+            // Invisible point pinning the axis to the full 0-4 range
+            { data: [RISK_CATEGORY_BANDS.length - 1], withDots: false, color: () => 'transparent' },
+          ],
+        }}
+        width={chartWidth - 32}
+        height={180}
+        fromZero
+        segments={RISK_CATEGORY_BANDS.length - 1}
+        formatYLabel={value => RISK_LEVEL_LABELS[Math.round(Number(value))] || ''}
+        chartConfig={{
+          backgroundGradientFrom: '#FFFFFF',
+          backgroundGradientTo: '#FFFFFF',
+          decimalPlaces: 0,
+          color: (opacity = 1) => `rgba(0, 102, 204, ${opacity})`,
+          labelColor: () => '#64748B',
+          propsForDots: { r: '4' },
+        }}
+        bezier
+        style={styles.chart}
+      />
+
+      {latestChange && (
+        <View style={styles.changes}>
+          {latestChange.significantWorsening && (
+            <View style={styles.warning}>
+              <AlertTriangle size={16} color="#DC3545" />
+              <Text style={styles.warningText}>{warnings.join(' ')}</Text>
+            </View>
+          )}
+
+          <Text style={styles.changesTitle}>Since the previous assessment</Text>
+          {latestChange.deltas.map(delta => {
+            const DeltaIcon = delta.delta === 0 ? Minus : delta.delta > 0 ? TrendingUp : TrendingDown;
+            const color = delta.significant ? '#DC3545' : delta.worsened ? '#FFA500' : delta.delta === 0 ? '#64748B' : '#28A745';
+
+            return (
+              <View key={delta.factor} style={styles.deltaRow}>
+                <DeltaIcon size={16} color={color} />
+                <Text style={styles.deltaLabel}>{delta.label}</Text>
+                <Text style={[styles.deltaValue, { color }]}>
+                  {formatFactorValue(delta, delta.previous)} → {formatFactorValue(delta, delta.current)}
+                </Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 16,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 2,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1E293B',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#64748B',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  chart: {
+    borderRadius: 12,
+    marginLeft: -8,
+  },
+  changes: {
+    marginTop: 12,
+    gap: 8,
+  },
+  warning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    backgroundColor: '#FEE2E2',
+    borderRadius: 8,
+    padding: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#991B1B',
+    lineHeight: 18,
+  },
+  changesTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+    marginTop: 4,
+  },
+  deltaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  deltaLabel: {
+    flex: 1,
+    fontSize: 14,
+    color: '#374151',
+  },
+  deltaValue: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { CUSTOM_TASK_ICONS, validateTaskDraft, type TaskDraft } from '@/lib/diabetes-management';
+import { WEEKDAY_LABELS, formatRecurrence, type TaskFrequency } from '@/lib/task-recurrence';
+
+interface TaskFormProps {
+  // The task being edited; a new task starts empty
+  task?: TaskDraft;
+  submitLabel: string;
+  onSubmit: (draft: TaskDraft) => Promise<void>;
+}
+
+const EMPTY_DRAFT: TaskDraft = {
+  title: '',
+  description: '',
+  icon: CUSTOM_TASK_ICONS[0],
+  frequency: 'daily',
+  weekdays: null,
+  interval_days: null,
+  time: '',
+};
+
+const FREQUENCIES: TaskFrequency[] = ['daily', 'weekdays', 'weekly', 'monthly', 'every_n_days'];
+
+// Monday first, like the weeks of weekly tasks
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+function getFrequencyLabel(frequency: TaskFrequency): string {
+  switch (frequency) {
+    case 'weekdays':
+      return 'Some days';
+    case 'every_n_days':
+      return 'Every few days';
+    default:
+      return formatRecurrence({ frequency });
+  }
+}
+
+export function TaskForm({ task, submitLabel, onSubmit }: TaskFormProps) {
+  const [draft, setDraft] = useState<TaskDraft>({ ...EMPTY_DRAFT, ...task, time: task?.time || '' });
+  const [saving, setSaving] = useState(false);
+
+  const toggleWeekday = (weekday: number) => {
+    const weekdays = draft.weekdays || [];
+    setDraft({
+      ...draft,
+      weekdays: weekdays.includes(weekday) ? weekdays.filter(day => day !== weekday) : [...weekdays, weekday],
+    });
+  };
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      validateTaskDraft(draft);
+      await onSubmit(draft);
+    } catch (error: any) {
+      Alert.alert('Error', error.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.field}>
+        <Text style={styles.label}>Task</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.title}
+          onChangeText={title => setDraft({ ...draft, title })}
+          placeholder="e.g., Evening walk"
+          placeholderTextColor="#94A3B8"
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Details (Optional)</Text>
+        <TextInput
+          style={[styles.input, styles.textArea]}
+          value={draft.description}
+          onChangeText={description => setDraft({ ...draft, description })}
+          placeholder="What should be done?"
+          placeholderTextColor="#94A3B8"
+          multiline
+        />
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Icon</Text>
+        <View style={styles.options}>
+          {CUSTOM_TASK_ICONS.map(icon => (
+            <TouchableOpacity
+              key={icon}
+              style={[styles.iconOption, draft.icon === icon && styles.optionActive]}
+              onPress={() => setDraft({ ...draft, icon })}
+            >
+              <Text style={styles.iconText}>{icon}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Repeats</Text>
+        <View style={styles.options}>
+          {FREQUENCIES.map(frequency => (
+            <TouchableOpacity
+              key={frequency}
+              style={[styles.option, draft.frequency === frequency && styles.optionActive]}
+              onPress={() => setDraft({ ...draft, frequency })}
+            >
+              <Text style={[styles.optionText, draft.frequency === frequency && styles.optionTextActive]}>
+                {getFrequencyLabel(frequency)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {draft.frequency === 'weekdays' && (
+          <View style={[styles.options, styles.subOptions]}>
+            {WEEKDAY_ORDER.map(weekday => {
+              const selected = (draft.weekdays || []).includes(weekday);
+              return (
+                <TouchableOpacity
+                  key={weekday}
+                  style={[styles.option, selected && styles.optionActive]}
+                  onPress={() => toggleWeekday(weekday)}
+                >
+                  <Text style={[styles.optionText, selected && styles.optionTextActive]}>
+                    {WEEKDAY_LABELS[weekday]}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        {draft.frequency === 'every_n_days' && (
+          <View style={[styles.intervalRow, styles.subOptions]}>
+            <Text style={styles.optionText}>Every</Text>
+            <TextInput
+              style={[styles.input, styles.intervalInput]}
+              value={draft.interval_days ? String(draft.interval_days) : ''}
+              onChangeText={value => setDraft({ ...draft, interval_days: parseInt(value, 10) || null })}
+              placeholder="3"
+              placeholderTextColor="#94A3B8"
+              keyboardType="numeric"
+            />
+            <Text style={styles.optionText}>days</Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.label}>Reminder Time (Optional)</Text>
+        <TextInput
+          style={styles.input}
+          value={draft.time || ''}
+          onChangeText={time => setDraft({ ...draft, time })}
+          placeholder="HH:MM, e.g., 08:30"
+          placeholderTextColor="#94A3B8"
+          keyboardType="numbers-and-punctuation"
+        />
+      </View>
+
+      <TouchableOpacity
+        style={[styles.submitButton, saving && styles.buttonDisabled]}
+        onPress={handleSubmit}
+        disabled={saving}
+      >
+        <Text style={styles.submitButtonText}>{submitLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#374151',
+  },
+  input: {
+    backgroundColor: 'white',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1F2937',
+  },
+  textArea: {
+    height: 80,
+    textAlignVertical: 'top',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  subOptions: {
+    marginTop: 4,
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 6,
+    backgroundColor: '#F1F5F9',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  optionActive: {
+    backgroundColor: '#EBF4FF',
+    borderColor: '#0066CC',
+  },
+  optionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#64748B',
+  },
+  optionTextActive: {
+    color: '#0066CC',
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#F1F5F9',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    fontSize: 22,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  intervalInput: {
+    width: 64,
+    textAlign: 'center',
+  },
+  submitButton: {
+    backgroundColor: '#0066CC',
+    paddingVertical: 14,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  submitButtonText: {
+    color: 'white',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -0,0 +1,80 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { loadAssessmentDraft, type AssessmentDraft } from '../assessment-drafts';
+import { ADAPTIVE_QUESTIONNAIRE, replayAnswers } from '../questionnaire';
+
+const flow = ADAPTIVE_QUESTIONNAIRE;
+const draftKey = (version: number) => `assessmentDraft:user-1:${flow.id}:v${version}`;
+
+const storeDraft = (version: number, answers: Record<string, any>) => {
+  const draft: AssessmentDraft = {
+    userId: 'user-1',
+    flowId: flow.id,
+    flowVersion: version,
+    answers,
+    history: Object.keys(answers),
+    currentQuestionId: 'location',
+    updatedAt: new Date().toISOString(),
+  };
+  return AsyncStorage.setItem(draftKey(version), JSON.stringify(draft));
+};
+
+const v3Answers = {
+  welcome: true,
+  age: 52,
+  gender: 'female',
+  weight: 82,
+  height: 165,
+  systolic_bp: 150,
+  diet_quality: 4,
+};
+
+describe('loadAssessmentDraft', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('returns a draft of the current version as saved', async () => {
+    const answers = { ...v3Answers, systolic_bp: undefined, 'blood-pressure': { systolic: 150, diastolic: 95 } };
+    await storeDraft(flow.version, answers);
+
+    const draft = await loadAssessmentDraft('user-1', flow);
+
+    expect(draft?.flowVersion).toBe(flow.version);
+    expect(draft?.currentQuestionId).toBe('location');
+  });
+
+  it('moves a draft from an earlier version onto the current one', async () => {
+    await storeDraft(3, v3Answers);
+
+    const draft = await loadAssessmentDraft('user-1', flow);
+
+    expect(draft).toMatchObject({ flowVersion: flow.version, history: [], currentQuestionId: null });
+    expect(draft?.answers.age).toBe(52);
+    expect(await AsyncStorage.getItem(draftKey(3))).toBeNull();
+    expect(JSON.parse((await AsyncStorage.getItem(draftKey(flow.version)))!).answers).toEqual(draft?.answers);
+  });
+
+  it('asks again for a blood pressure that has only the systolic number', async () => {
+    await storeDraft(3, v3Answers);
+
+    const draft = await loadAssessmentDraft('user-1', flow);
+
+    expect(draft?.answers).not.toHaveProperty('systolic_bp');
+    expect(draft?.answers).not.toHaveProperty('blood-pressure');
+    expect(replayAnswers(draft!.answers, flow).nextQuestion?.id).toBe('blood-pressure');
+  });
+
+  it('resumes a version 2 draft at glucose-history, added as a required question in version 3', async () => {
+    await storeDraft(2, {
+      ...v3Answers,
+      location: 'urban',
+      'family-history': 'no',
+      'activity-level': 'moderate',
+      'diet-habits': 'good',
+      symptoms: ['none'],
+    });
+
+    const draft = await loadAssessmentDraft('user-1', flow);
+    const answered = { ...draft!.answers, 'blood-pressure': { systolic: 150, diastolic: 95 } };
+
+    expect(replayAnswers(answered, flow).nextQuestion?.id).toBe('glucose-history');
+  });
+});
@@ -0,0 +1,85 @@
+import {
+  RISK_CATEGORY_BANDS,
+  generateProbabilities,
+  getRiskCategory,
+  simulateRiskPrediction,
+} from '../assessment-simulation';
+import cases from './fixtures/simulation-cases.json';
+
+const topLabel = (probabilities: Record<string, number>) =>
+  Object.entries(probabilities).reduce((top, entry) => (entry[1] > top[1] ? entry : top))[0];
+
+describe('simulateRiskPrediction', () => {
+  it.each(cases)('locks the prediction for $name', ({ answers, expected }) => {
+    const prediction = simulateRiskPrediction(answers);
+
+    expect(prediction.risk_score).toBe(expected.risk_score);
+    expect(prediction.risk_category).toBe(expected.risk_category);
+    expect(prediction.risk_level).toBe(expected.risk_level);
+    Object.entries(expected.probabilities).forEach(([label, probability]) => {
+      expect(prediction.probabilities[label as keyof typeof prediction.probabilities]).toBeCloseTo(probability, 4);
+    });
+  });
+
+  it('covers every risk category with the fixtures', () => {
+    const categories = new Set(cases.map(({ expected }) => expected.risk_category));
+    RISK_CATEGORY_BANDS.forEach(band => expect(categories).toContain(band.category));
+  });
+
+  it('gives the same prediction for the same answers', () => {
+    cases.forEach(({ answers }) => {
+      expect(simulateRiskPrediction(answers)).toEqual(simulateRiskPrediction(answers));
+    });
+  });
+});
+
+describe('generateProbabilities', () => {
+  const scores = Array.from({ length: 101 }, (_, score) => score);
+
+  it('sums to 1 and puts the most weight on the category of the score', () => {
+    scores.forEach(score => {
+      const probabilities = generateProbabilities(score);
+      const total = Object.values(probabilities).reduce((sum, p) => sum + p, 0);
+      const { level } = getRiskCategory(score);
+
+      expect(total).toBeCloseTo(1, 10);
+      expect(topLabel(probabilities)).toBe(RISK_CATEGORY_BANDS[level].label);
+    });
+  });
+
+  describe('with a seed', () => {
+    const seeds = [1, 7, 42, 1234, 987654321];
+
+    it('gives identical output for the same seed', () => {
+      seeds.forEach(seed => {
+        scores.forEach(score => {
+          expect(generateProbabilities(score, seed)).toEqual(generateProbabilities(score, seed));
+        });
+      });
+    });
+
+    it('never changes the top category', () => {
+      seeds.forEach(seed => {
+        scores.forEach(score => {
+          expect(topLabel(generateProbabilities(score, seed))).toBe(topLabel(generateProbabilities(score)));
+        });
+      });
+    });
+
+    it('stays a probability distribution', () => {
+      seeds.forEach(seed => {
+        const total = Object.values(generateProbabilities(50, seed)).reduce((sum, p) => sum + p, 0);
+        expect(total).toBeCloseTo(1, 10);
+      });
+    });
+
+    it('passes the seed through simulateRiskPrediction', () => {
+      const { answers } = cases[2];
+      const seeded = simulateRiskPrediction(answers, { seed: 42 });
+
+      expect(seeded).toEqual(simulateRiskPrediction(answers, { seed: 42 }));
+      expect(seeded.risk_category).toBe(simulateRiskPrediction(answers).risk_category);
+      expect(topLabel(seeded.probabilities)).toBe(topLabel(simulateRiskPrediction(answers).probabilities));
+    });
+  });
+});
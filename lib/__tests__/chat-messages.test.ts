@@ -0,0 +1,39 @@
+import { getMessageText, isSystemMessage } from '../chat-messages';
+import { setLanguage } from '../i18n';
+
+const rescored = {
+  sender_type: 'system',
+  message: 'The risk assessment was re-scored by the AI service once it was available again. Risk category changed from low to high.',
+  message_key: 'chat.system.riskRescored',
+  message_params: { from: 'low', to: 'high' },
+};
+
+describe('getMessageText', () => {
+  afterEach(() => setLanguage('en'));
+
+  it('shows system messages in the reader\'s language', () => {
+    expect(isSystemMessage(rescored)).toBe(true);
+    expect(getMessageText(rescored)).toBe(rescored.message);
+
+    setLanguage('rw');
+    expect(getMessageText(rescored)).toContain('kuri low kijya kuri high');
+  });
+
+  it('fills in the recommendation of a care plan change', () => {
+    const retired = {
+      sender_type: 'system',
+      message: 'Your care plan was updated: recommendation "Walk daily" was removed',
+      message_key: 'chat.system.carePlanRetired',
+      message_params: { content: 'Walk daily' },
+    };
+
+    expect(getMessageText(retired)).toBe(retired.message);
+    setLanguage('rw');
+    expect(getMessageText(retired)).toBe('Gahunda yawe yo kwivuza yahinduwe: inama "Walk daily" yakuweho');
+  });
+
+  it('falls back to the stored text for messages without a known key', () => {
+    expect(getMessageText({ ...rescored, message_key: 'chat.system.unknown' })).toBe(rescored.message);
+    expect(getMessageText({ sender_type: 'doctor', message: 'See you Monday' })).toBe('See you Monday');
+  });
+});
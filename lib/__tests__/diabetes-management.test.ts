@@ -0,0 +1,54 @@
+import * as Notifications from 'expo-notifications';
+import { syncTaskReminders } from '../diabetes-management';
+import { supabase } from '../supabase';
+
+jest.mock('../supabase', () => ({ supabase: { from: jest.fn() } }));
+
+// A query builder that resolves every query to the given result
+const queryResolving = (result: { data: unknown; error: unknown }) => {
+  const query: any = new Proxy({}, {
+    get: (_, property) => (property === 'then'
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : () => query),
+  });
+  return query;
+};
+
+describe('syncTaskReminders', () => {
+  const scheduled = [{ identifier: 'diabetes-task-task-1-0' }] as Notifications.NotificationRequest[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.mocked(Notifications.getAllScheduledNotificationsAsync).mockResolvedValue(scheduled);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => jest.mocked(console.error).mockRestore());
+
+  it('keeps the scheduled reminders when the tasks cannot be loaded', async () => {
+    jest.mocked(supabase.from).mockImplementation((table: string) => queryResolving(table === 'profiles'
+      ? { data: { timezone: 'Africa/Kigali' }, error: null }
+      : { data: null, error: new Error('Network request failed') }) as any);
+
+    await syncTaskReminders('user-1');
+
+    expect(Notifications.cancelScheduledNotificationAsync).not.toHaveBeenCalled();
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+  });
+
+  it('replaces the scheduled reminders once the tasks are loaded', async () => {
+    const task = { id: 'task-2', frequency: 'daily', time: '23:59', icon: '💧', title: 'Drink water', created_at: '2024-01-01T00:00:00Z' };
+    jest.mocked(supabase.from).mockImplementation((table: string) => queryResolving(
+      table === 'profiles' ? { data: { timezone: 'Africa/Kigali' }, error: null }
+        : table === 'diabetes_tasks' ? { data: [task], error: null }
+        : { data: [], error: null }
+    ) as any);
+
+    await syncTaskReminders('user-1');
+
+    expect(Notifications.cancelScheduledNotificationAsync).toHaveBeenCalledWith('diabetes-task-task-1-0');
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith(
+      expect.objectContaining({ identifier: 'diabetes-task-task-2-0' })
+    );
+  });
+});
@@ -0,0 +1,72 @@
+import { a1cToMmolPerMol, formatGlucose, fromMgDl, getGlucoseStatus, parseGlucoseInput, toMgDl } from '../glucose';
+
+describe('glucose units', () => {
+  it.each([
+    [126, '7.0'],
+    [70, '3.9'],
+    [100, '5.5'],
+    [180, '10.0'],
+    [200, '11.1'],
+  ])('shows %i mg/dL as %s mmol/L', (mgdl, mmol) => {
+    expect(formatGlucose(mgdl, 'mmol/L')).toBe(`${mmol} mmol/L`);
+    expect(formatGlucose(mgdl, 'mg/dL')).toBe(`${mgdl} mg/dL`);
+  });
+
+  it('converts mmol/L back to mg/dL', () => {
+    expect(Math.round(toMgDl(7, 'mmol/L'))).toBe(126);
+    expect(Math.round(toMgDl(11.1, 'mmol/L'))).toBe(200);
+    expect(fromMgDl(toMgDl(7, 'mmol/L'), 'mmol/L')).toBe(7);
+  });
+
+  it('flags low and high readings in mg/dL', () => {
+    expect(getGlucoseStatus(69)).toBe('low');
+    expect(getGlucoseStatus(70)).toBe('normal');
+    expect(getGlucoseStatus(180)).toBe('normal');
+    expect(getGlucoseStatus(181)).toBe('high');
+  });
+});
+
+describe('a1cToMmolPerMol', () => {
+  it.each([
+    [5.7, 39],
+    [6.5, 48],
+    [7, 53],
+    [8, 64],
+    [10, 86],
+  ])('gives %f%% as %i mmol/mol', (percent, mmolPerMol) => {
+    expect(a1cToMmolPerMol(percent)).toBe(mmolPerMol);
+  });
+});
+
+describe('parseGlucoseInput', () => {
+  it('reads readings in either unit into mg/dL', () => {
+    expect(parseGlucoseInput('126', 'mg/dL')).toBe(126);
+    expect(Math.round(parseGlucoseInput('7.0', 'mmol/L'))).toBe(126);
+  });
+
+  it('accepts a comma as the decimal separator', () => {
+    expect(parseGlucoseInput('7,0', 'mmol/L')).toBe(parseGlucoseInput('7.0', 'mmol/L'));
+    expect(parseGlucoseInput('5,5', 'mmol/L')).toBe(parseGlucoseInput('5.5', 'mmol/L'));
+  });
+
+  it.each([
+    ['19', 'mg/dL'],
+    ['601', 'mg/dL'],
+    ['abc', 'mg/dL'],
+    ['', 'mg/dL'],
+    ['1.0', 'mmol/L'],
+    ['34', 'mmol/L'],
+  ] as const)('rejects %p %s', (input, unit) => {
+    expect(() => parseGlucoseInput(input, unit)).toThrow('Please enter a valid blood sugar reading');
+  });
+
+  it('gives the allowed range in the unit being entered', () => {
+    expect(() => parseGlucoseInput('700', 'mg/dL')).toThrow('between 20-600 mg/dL');
+    expect(() => parseGlucoseInput('40', 'mmol/L')).toThrow('between 1.1-33.3 mmol/L');
+  });
+
+  it('accepts the ends of the range', () => {
+    expect(parseGlucoseInput('20', 'mg/dL')).toBe(20);
+    expect(parseGlucoseInput('600', 'mg/dL')).toBe(600);
+  });
+});
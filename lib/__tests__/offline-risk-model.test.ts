@@ -0,0 +1,72 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  buildFeatureVector,
+  checkModelParity,
+  evaluateExportedModel,
+  type ExportedRiskModel,
+} from '../offline-risk-model';
+import exportedJson from './fixtures/exported-risk-model.json';
+import parity from './fixtures/risk-model-parity.json';
+
+// Both fixtures are written by ai_engine/export_model.py from ai_engine/diabetes_model.pkl;
+// regenerate them together whenever the model is retrained
+const exported = exportedJson as ExportedRiskModel;
+
+const PROBABILITY_TOLERANCE = 1e-6;
+const FEATURE_TOLERANCE = 1e-9;
+
+const expectClose = (actual: number[], expected: number[], tolerance: number) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(tolerance));
+};
+
+describe('exported risk model fixtures', () => {
+  it('come from the model file in ai_engine', () => {
+    const modelFile = readFileSync(join(__dirname, '../../ai_engine/diabetes_model.pkl'));
+    const version = createHash('sha256').update(modelFile).digest('hex').slice(0, 16);
+
+    expect(exported.model_version).toBe(version);
+    expect(parity.model_version).toBe(version);
+  });
+
+  it('agree with the parity fixtures embedded in the export', () => {
+    exported.parity_fixtures.forEach(({ input, probabilities }) => {
+      const match = parity.cases.find(({ input: other }) => JSON.stringify(other) === JSON.stringify(input));
+
+      expect(match).toBeDefined();
+      expectClose(probabilities, match!.probabilities, 0);
+    });
+  });
+});
+
+describe('offline risk model', () => {
+  it('reproduces the embedded parity fixtures', () => {
+    expect(checkModelParity(exported)).toEqual([]);
+  });
+
+  describe.each(parity.cases)('for age $input.age and BMI $input.bmi', ({ input, features, probabilities, class: riskLevel }) => {
+    it('bins and scales the features like the Python pipeline', () => {
+      expectClose(buildFeatureVector(exported, input), features, FEATURE_TOLERANCE);
+    });
+
+    it('matches the Python probabilities', () => {
+      expectClose(evaluateExportedModel(exported, input), probabilities, PROBABILITY_TOLERANCE);
+    });
+
+    it('predicts the Python class', () => {
+      const actual = evaluateExportedModel(exported, input);
+      expect(exported.classes[actual.indexOf(Math.max(...actual))]).toBe(riskLevel);
+    });
+  });
+
+  it('reports a model that drifted from its parity fixtures', () => {
+    const drifted: ExportedRiskModel = {
+      ...exported,
+      intercepts: exported.intercepts.map((intercept, i) => (i === 0 ? intercept + 0.5 : intercept)),
+    };
+
+    expect(checkModelParity(drifted).length).toBeGreaterThan(0);
+  });
+});
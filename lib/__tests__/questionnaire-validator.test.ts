@@ -0,0 +1,52 @@
+import { ADAPTIVE_QUESTIONNAIRE, type QuestionnaireFlow } from '../questionnaire';
+import { collectFlowStrings, validateFlowTranslations, validateQuestionnaireFlow } from '../questionnaire-validator';
+
+// Flows bundled with the app; stored flows are validated when they are loaded
+const SHIPPED_FLOWS: QuestionnaireFlow[] = [ADAPTIVE_QUESTIONNAIRE];
+
+const errorsOf = (flow: QuestionnaireFlow) =>
+  validateQuestionnaireFlow(flow).filter(issue => issue.severity === 'error');
+
+describe('validateQuestionnaireFlow', () => {
+  it.each(SHIPPED_FLOWS.map(flow => [`${flow.id} v${flow.version}`, flow] as const))(
+    'finds no errors in %s',
+    (_, flow) => {
+      expect(errorsOf(flow)).toEqual([]);
+    }
+  );
+
+  it('reports a question pointing at a missing question', () => {
+    const [first, ...rest] = ADAPTIVE_QUESTIONNAIRE.questions;
+    const broken: QuestionnaireFlow = {
+      ...ADAPTIVE_QUESTIONNAIRE,
+      questions: [{ ...first, options: [{ id: 'go', text: 'common.continue', value: 'go', nextQuestionId: 'nowhere' }] }, ...rest],
+    };
+
+    expect(errorsOf(broken)).toContainEqual(expect.objectContaining({ type: 'dangling-reference', questionId: first.id }));
+  });
+});
+
+describe('validateFlowTranslations', () => {
+  it.each(SHIPPED_FLOWS.map(flow => [`${flow.id} v${flow.version}`, flow] as const))(
+    'finds an English and Kinyarwanda translation for every string in %s',
+    (_, flow) => {
+      expect(validateFlowTranslations(flow)).toEqual([]);
+    }
+  );
+
+  it('reports literal text and unknown keys', () => {
+    const [first, ...rest] = ADAPTIVE_QUESTIONNAIRE.questions;
+    const untranslated: QuestionnaireFlow = {
+      ...ADAPTIVE_QUESTIONNAIRE,
+      questions: [{ ...first, text: 'Welcome!', description: 'questionnaire.welcome.missing' }, ...rest],
+    };
+    const messages = validateFlowTranslations(untranslated).map(issue => issue.message);
+
+    expect(collectFlowStrings(untranslated).map(({ text }) => text)).toContain('Welcome!');
+    expect(messages).toEqual(expect.arrayContaining([
+      '"Welcome!" has no en translation',
+      '"Welcome!" has no rw translation',
+      '"questionnaire.welcome.missing" has no rw translation',
+    ]));
+  });
+});
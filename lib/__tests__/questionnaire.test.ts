@@ -0,0 +1,147 @@
+import { simulateRiskPrediction } from '../assessment-simulation';
+import { buildDiabetesInput } from '../prediction-client';
+import {
+  ADAPTIVE_QUESTIONNAIRE,
+  calculateProgress,
+  formatAnswer,
+  getSystolicBp,
+  migrateAnswers,
+  replayAnswers,
+  validateAnswer,
+} from '../questionnaire';
+import { generateRecommendations } from '../recommendation-rules';
+import { WHAT_IF_SCENARIOS } from '../what-if';
+
+const bloodPressureQuestion = ADAPTIVE_QUESTIONNAIRE.questions.find(q => q.id === 'blood-pressure')!;
+
+const v3Answers = {
+  welcome: true,
+  age: 52,
+  gender: 'female',
+  weight: 82,
+  height: 165,
+  systolic_bp: 150,
+  diet_quality: 4,
+};
+
+describe('blood pressure question', () => {
+  it('asks for both numbers', () => {
+    expect(bloodPressureQuestion.type).toBe('blood-pressure');
+    expect(bloodPressureQuestion.required).toBe(true);
+    expect(validateAnswer(bloodPressureQuestion, { systolic: 150 })).not.toBeNull();
+    expect(validateAnswer(bloodPressureQuestion, { systolic: 150, diastolic: 95 })).toBeNull();
+  });
+
+  it('moves a version 3 systolic reading into the pair', () => {
+    const migrated = migrateAnswers(v3Answers, 3);
+
+    expect(migrated).not.toHaveProperty('systolic_bp');
+    expect(migrated['blood-pressure']).toEqual({ systolic: 150 });
+    expect(migrated.age).toBe(52);
+    expect(migrateAnswers(v3Answers, null)['blood-pressure']).toEqual({ systolic: 150 });
+  });
+
+  it('leaves current answers alone', () => {
+    const answers = { ...v3Answers, systolic_bp: undefined, 'blood-pressure': { systolic: 150, diastolic: 95 } };
+    expect(migrateAnswers(answers, ADAPTIVE_QUESTIONNAIRE.version)).toEqual(answers);
+  });
+
+  it('formats migrated answers without a diastolic number', () => {
+    expect(formatAnswer(bloodPressureQuestion, { systolic: 150 })).toBe('150 mmHg');
+    expect(formatAnswer(bloodPressureQuestion, { systolic: 150, diastolic: 95 })).toBe('150/95 mmHg');
+  });
+});
+
+describe('reading systolic pressure from the pair', () => {
+  const answers = { ...migrateAnswers(v3Answers, 3), 'blood-pressure': { systolic: 150, diastolic: 95 } };
+
+  it('is used by scoring', () => {
+    const factors = simulateRiskPrediction(answers).contributing_factors.map(f => f.factor);
+
+    expect(getSystolicBp(answers)).toBe(150);
+    expect(factors).toContain('hypertension');
+    expect(simulateRiskPrediction(migrateAnswers(v3Answers, 3)).risk_score).toBe(simulateRiskPrediction(answers).risk_score);
+  });
+
+  it('is used by recommendations', () => {
+    const ruleIds = (bp: object) =>
+      generateRecommendations({ ...answers, 'blood-pressure': bp }, 'moderate').map(r => r.rule_id);
+
+    expect(ruleIds({ systolic: 135, diastolic: 85 })).toContain('blood-pressure');
+    expect(ruleIds({ systolic: 120, diastolic: 80 })).not.toContain('blood-pressure');
+  });
+
+  it('is sent to the AI service', () => {
+    expect(buildDiabetesInput(answers).systolic_bp).toBe(150);
+  });
+
+  it('is lowered by the what-if scenario', () => {
+    const scenario = WHAT_IF_SCENARIOS.find(s => s.id === 'lower-blood-pressure')!;
+
+    expect(scenario.isApplicable(answers)).toBe(true);
+    expect(getSystolicBp(scenario.apply(answers))).toBeLessThan(150);
+    expect(scenario.apply(answers)['blood-pressure'].diastolic).toBe(95);
+  });
+});
+
+describe('calculateProgress', () => {
+  const flow = ADAPTIVE_QUESTIONNAIRE;
+  const question = (id: string) => flow.questions.find(q => q.id === id)!;
+  const answers = {
+    ...migrateAnswers(v3Answers, 3),
+    'blood-pressure': { systolic: 150, diastolic: 95 },
+    location: 'urban',
+    'family-history': 'yes',
+  };
+
+  it('starts at 0 and is 100 once no question is left', () => {
+    expect(calculateProgress(question(flow.startQuestionId), 0, {}, flow)).toBe(0);
+    expect(calculateProgress(null, 12, answers, flow)).toBe(100);
+  });
+
+  // Progress once the answers are replayed, at the question they lead to
+  const progressAfter = (answered: Record<string, any>) => {
+    const replay = replayAnswers(answered, flow);
+    return calculateProgress(replay.nextQuestion, replay.path.length, replay.answers, flow);
+  };
+  const beforeFamilyHistory = {
+    welcome: true,
+    age: 52,
+    gender: 'female',
+    weight: 82,
+    height: 165,
+    'blood-pressure': { systolic: 150, diastolic: 95 },
+    diet_quality: 4,
+    location: 'urban',
+  };
+
+  it('moves forward along the path', () => {
+    expect(progressAfter({ welcome: true })).toBeCloseTo(4.8, 1);
+    expect(progressAfter(beforeFamilyHistory)).toBeCloseTo(38.4, 1);
+  });
+
+  it('moves further when an answer skips the follow-up question', () => {
+    expect(progressAfter({ ...beforeFamilyHistory, 'family-history': 'yes' })).toBeCloseTo(41.9, 1);
+    expect(progressAfter({ ...beforeFamilyHistory, 'family-history': 'no' })).toBeCloseTo(43.9, 1);
+  });
+
+  it('gives the same value going back as when the question was first reached', () => {
+    const replay = replayAnswers(answers, flow);
+    const index = replay.path.indexOf('location');
+    const reached = replayAnswers(
+      Object.fromEntries(replay.path.slice(0, index).map(id => [id, answers[id as keyof typeof answers]])),
+      flow
+    );
+
+    expect(reached.nextQuestion?.id).toBe('location');
+    expect(calculateProgress(question('location'), index, answers, flow))
+      .toBeCloseTo(calculateProgress(reached.nextQuestion, reached.path.length, reached.answers, flow), 10);
+  });
+
+  it('stays below 100 while a question is left', () => {
+    const replay = replayAnswers(answers, flow);
+    replay.path.forEach((id, index) => {
+      expect(calculateProgress(question(id), index, answers, flow)).toBeLessThan(100);
+    });
+  });
+});
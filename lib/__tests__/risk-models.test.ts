@@ -0,0 +1,128 @@
+import { getBmi } from '../questionnaire';
+import { getRiskModel } from '../risk-models';
+
+const findrisc = getRiskModel('findrisc')!;
+const adaRiskTest = getRiskModel('ada-risk-test')!;
+
+// Answers scoring nothing on either test: under 40, BMI 22.9, active, eating well
+const lowRisk = {
+  age: 35,
+  gender: 'female',
+  weight: 70,
+  height: 175,
+  'blood-pressure': { systolic: 118, diastolic: 76 },
+  'activity-level': 'active',
+  'diet-habits': 'good',
+  'family-history': 'no',
+  'glucose-history': { answer: 'no' },
+};
+
+const pointsOf = (prediction: ReturnType<typeof findrisc.predict>) =>
+  Object.fromEntries(prediction.contributing_factors.map(factor => [factor.factor, factor.points]));
+
+describe('getBmi', () => {
+  it('is weight over height squared, or null without both answers', () => {
+    expect(getBmi({ weight: 70, height: 175 })).toBeCloseTo(22.86, 2);
+    expect(getBmi({ weight: 70 })).toBeNull();
+    expect(getBmi({ height: 175 })).toBeNull();
+  });
+});
+
+// Points and bands from the published score sheet (Lindström & Tuomilehto, 2003)
+describe('FINDRISC', () => {
+  it('scores 0 and low risk for answers with no risk factors', () => {
+    const prediction = findrisc.predict(lowRisk);
+
+    expect(prediction.risk_score).toBe(0);
+    expect(prediction.risk_category).toBe('non-diabetic');
+  });
+
+  it('scores 8, slightly elevated, for a 50 year old with BMI 27.8 who is not active and has a diabetic grandparent', () => {
+    const prediction = findrisc.predict({
+      ...lowRisk,
+      age: 50,
+      weight: 85,
+      'activity-level': 'light',
+      'family-history': 'yes',
+      'family-details': ['grandparent'],
+    });
+
+    expect(pointsOf(prediction)).toEqual({ age: 2, bmi: 1, physical_activity: 2, family_history: 3 });
+    expect(prediction.risk_score).toBe(8);
+    expect(prediction.risk_category).toBe('low');
+  });
+
+  it('scores 21, very high, with every factor the questionnaire asks about', () => {
+    const prediction = findrisc.predict({
+      ...lowRisk,
+      age: 58,
+      weight: 100,
+      'blood-pressure': { systolic: 150, diastolic: 95 },
+      'activity-level': 'sedentary',
+      'diet-habits': 'poor',
+      'family-history': 'yes',
+      'family-details': ['parent'],
+      'glucose-history': { answer: 'yes' },
+    });
+
+    expect(pointsOf(prediction)).toEqual({
+      age: 3, bmi: 3, physical_activity: 2, diet: 1, blood_pressure: 2, high_glucose_history: 5, family_history: 5,
+    });
+    expect(prediction.risk_score).toBe(21);
+    expect(prediction.max_score).toBe(26);
+    expect(prediction.risk_category).toBe('critical');
+  });
+
+  it.each([
+    [44, 0],
+    [45, 2],
+    [54, 2],
+    [55, 3],
+    [64, 3],
+    [65, 4],
+  ])('gives age %i %i points', (age, points) => {
+    expect(pointsOf(findrisc.predict({ ...lowRisk, age })).age ?? 0).toBe(points);
+  });
+});
+
+// Points from the published test (Bang et al., 2009); 5 or more is increased risk
+describe('ADA risk test', () => {
+  it('scores 0 for answers with no risk factors', () => {
+    expect(adaRiskTest.predict(lowRisk).risk_score).toBe(0);
+  });
+
+  it('scores 3, below increased risk, for an inactive 45 year old woman with BMI 26.1', () => {
+    const prediction = adaRiskTest.predict({ ...lowRisk, age: 45, weight: 80, 'activity-level': 'light' });
+
+    expect(pointsOf(prediction)).toEqual({ age: 1, physical_activity: 1, bmi: 1 });
+    expect(prediction.risk_score).toBe(3);
+    expect(prediction.risk_category).toBe('low');
+  });
+
+  it('scores 8, increased risk, for an inactive 52 year old man with hypertension, a diabetic parent and BMI 32.7', () => {
+    const prediction = adaRiskTest.predict({
+      ...lowRisk,
+      age: 52,
+      gender: 'male',
+      weight: 100,
+      'blood-pressure': { systolic: 145, diastolic: 92 },
+      'activity-level': 'sedentary',
+      'family-history': 'yes',
+      'family-details': ['parent'],
+    });
+
+    expect(pointsOf(prediction)).toEqual({ age: 2, gender: 1, family_history: 1, blood_pressure: 1, physical_activity: 1, bmi: 2 });
+    expect(prediction.risk_score).toBe(8);
+    expect(prediction.max_score).toBe(10);
+    expect(prediction.risk_category).toBe('high');
+  });
+
+  it('does not count a second-degree relative', () => {
+    const prediction = adaRiskTest.predict({ ...lowRisk, 'family-history': 'yes', 'family-details': ['grandparent'] });
+    expect(prediction.risk_score).toBe(0);
+  });
+
+  it('gives 3 points for a BMI of 40 or more', () => {
+    expect(pointsOf(adaRiskTest.predict({ ...lowRisk, weight: 125 })).bmi).toBe(3);
+  });
+});
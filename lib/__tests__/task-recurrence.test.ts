@@ -0,0 +1,134 @@
+import { getTaskRecurrence } from '../diabetes-management';
+import {
+  calculateAdherence,
+  calculateStreak,
+  getNextDueDate,
+  getPeriod,
+  getReminderDays,
+  isCompletedForPeriod,
+  isDueOn,
+  type TaskRecurrence,
+} from '../task-recurrence';
+
+const daily: TaskRecurrence = { frequency: 'daily', anchor: '2024-01-01' };
+const weekly: TaskRecurrence = { frequency: 'weekly', anchor: '2024-01-01' };
+const monthly: TaskRecurrence = { frequency: 'monthly', anchor: '2024-01-01' };
+// Monday, Wednesday and Friday
+const weekdays: TaskRecurrence = { frequency: 'weekdays', weekdays: [1, 3, 5], anchor: '2024-01-01' };
+
+describe('getPeriod', () => {
+  it('runs weeks from Monday to Sunday, across the end of a month', () => {
+    expect(getPeriod(weekly, '2024-05-01')).toEqual({ start: '2024-04-29', end: '2024-05-05' });
+    expect(getPeriod(weekly, '2024-04-29')).toEqual({ start: '2024-04-29', end: '2024-05-05' });
+    expect(getPeriod(weekly, '2024-05-05')).toEqual({ start: '2024-04-29', end: '2024-05-05' });
+    expect(getPeriod(weekly, '2024-12-31')).toEqual({ start: '2024-12-30', end: '2025-01-05' });
+  });
+
+  it('runs months from the first to their last day', () => {
+    expect(getPeriod(monthly, '2024-02-15')).toEqual({ start: '2024-02-01', end: '2024-02-29' });
+    expect(getPeriod(monthly, '2023-02-15')).toEqual({ start: '2023-02-01', end: '2023-02-28' });
+    expect(getPeriod(monthly, '2024-12-31')).toEqual({ start: '2024-12-01', end: '2024-12-31' });
+  });
+
+  it('has no period on days a weekday task is not planned', () => {
+    expect(getPeriod(weekdays, '2024-05-01')).toEqual({ start: '2024-05-01', end: '2024-05-01' });
+    expect(getPeriod(weekdays, '2024-05-02')).toBeNull();
+    expect(isDueOn(weekdays, '2024-05-04')).toBe(false);
+  });
+
+  it('aligns every N days to the anchor', () => {
+    const everyThreeDays: TaskRecurrence = { frequency: 'every_n_days', interval_days: 3, anchor: '2024-05-01' };
+
+    expect(getPeriod(everyThreeDays, '2024-05-01')).toEqual({ start: '2024-05-01', end: '2024-05-03' });
+    expect(getPeriod(everyThreeDays, '2024-05-04')).toEqual({ start: '2024-05-04', end: '2024-05-06' });
+    expect(getPeriod(everyThreeDays, '2024-05-31')).toEqual({ start: '2024-05-31', end: '2024-06-02' });
+  });
+});
+
+describe('getTaskRecurrence', () => {
+  it('anchors every N days at the day the task was created in the user\'s time zone', () => {
+    const task = { frequency: 'every_n_days' as const, interval_days: 2, created_at: '2024-05-01T23:30:00Z' };
+
+    expect(getTaskRecurrence(task, 'UTC').anchor).toBe('2024-05-01');
+    expect(getTaskRecurrence(task, 'Africa/Kigali').anchor).toBe('2024-05-02');
+    expect(isDueOn(getTaskRecurrence(task, 'Africa/Kigali'), '2024-05-04')).toBe(true);
+    expect(getPeriod(getTaskRecurrence(task, 'Africa/Kigali'), '2024-05-05')).toEqual({ start: '2024-05-04', end: '2024-05-05' });
+  });
+});
+
+describe('getNextDueDate', () => {
+  it('is today while the period is open', () => {
+    expect(getNextDueDate(weekly, [], '2024-05-01')).toBe('2024-05-01');
+    expect(getNextDueDate(monthly, ['2024-04-30'], '2024-05-15')).toBe('2024-05-15');
+  });
+
+  it('is the start of the next period once the current one is done', () => {
+    expect(getNextDueDate(weekly, ['2024-04-30'], '2024-05-01')).toBe('2024-05-06');
+    expect(getNextDueDate(monthly, ['2024-12-03'], '2024-12-20')).toBe('2025-01-01');
+  });
+
+  it('skips the gaps between planned weekdays', () => {
+    expect(getNextDueDate(weekdays, ['2024-05-03'], '2024-05-03')).toBe('2024-05-06');
+    expect(getNextDueDate(weekdays, [], '2024-05-02')).toBe('2024-05-03');
+    expect(isCompletedForPeriod(weekdays, ['2024-05-01'], '2024-05-02')).toBe(false);
+  });
+});
+
+describe('calculateStreak', () => {
+  it('counts weeks in a row across the end of a month', () => {
+    const completed = ['2024-04-17', '2024-04-22', '2024-05-05', '2024-05-07'];
+
+    expect(calculateStreak(weekly, completed, '2024-05-08')).toBe(4);
+    expect(calculateStreak(weekly, completed.slice(0, 3), '2024-05-08')).toBe(3);
+  });
+
+  it('breaks on a missed week', () => {
+    expect(calculateStreak(weekly, ['2024-04-10', '2024-04-24', '2024-05-01'], '2024-05-01')).toBe(2);
+  });
+
+  it('counts months in a row across the end of a year', () => {
+    expect(calculateStreak(monthly, ['2024-11-30', '2024-12-01', '2025-01-31'], '2025-01-31')).toBe(3);
+    expect(calculateStreak(monthly, ['2024-10-31', '2024-12-01'], '2025-01-10')).toBe(1);
+  });
+
+  it('does not break a weekday streak on the days in between', () => {
+    // Wednesday, Friday and Monday; Saturday and Sunday are not planned
+    expect(calculateStreak(weekdays, ['2024-05-01', '2024-05-03', '2024-05-06'], '2024-05-07')).toBe(3);
+    expect(calculateStreak(weekdays, ['2024-05-01', '2024-05-06'], '2024-05-07')).toBe(1);
+  });
+
+  it('keeps the streak while today is still open', () => {
+    expect(calculateStreak(daily, ['2024-04-30', '2024-05-01'], '2024-05-02')).toBe(2);
+    expect(calculateStreak(daily, ['2024-04-30', '2024-05-01', '2024-05-02'], '2024-05-02')).toBe(3);
+  });
+});
+
+describe('calculateAdherence', () => {
+  it('counts the planned weekdays since the anchor', () => {
+    const recurrence: TaskRecurrence = { ...weekdays, anchor: '2024-05-01' };
+
+    // Wed 1, Fri 3 and Mon 6 have passed; Wed 8 is today and still open
+    expect(calculateAdherence(recurrence, ['2024-05-01', '2024-05-06'], '2024-05-08', 30))
+      .toEqual({ expected: 3, completed: 2, rate: 2 / 3 });
+  });
+});
+
+describe('getReminderDays', () => {
+  it('gives one day per week on the weekday of the anchor', () => {
+    // The anchor is a Wednesday
+    const recurrence: TaskRecurrence = { frequency: 'weekly', anchor: '2024-05-01' };
+
+    expect(getReminderDays(recurrence, '2024-05-06', '2024-05-19')).toEqual(['2024-05-08', '2024-05-15']);
+    expect(getReminderDays(recurrence, '2024-05-10', '2024-05-19')).toEqual(['2024-05-10', '2024-05-15']);
+  });
+
+  it('gives the day of the month of the anchor, or the last day of shorter months', () => {
+    const recurrence: TaskRecurrence = { frequency: 'monthly', anchor: '2024-01-31' };
+
+    expect(getReminderDays(recurrence, '2024-02-01', '2024-04-30')).toEqual(['2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('gives only the planned weekdays', () => {
+    expect(getReminderDays(weekdays, '2024-05-01', '2024-05-07')).toEqual(['2024-05-01', '2024-05-03', '2024-05-06']);
+  });
+});
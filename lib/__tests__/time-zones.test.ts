@@ -0,0 +1,205 @@
+import { getReminderTriggers, withCompletionState } from '../diabetes-management';
+import { addDays } from '../task-recurrence';
+import { atLocalTime, getTimeZoneOffset, startOfDay, toDayKey } from '../time-zones';
+
+const at = (iso: string) => new Date(iso);
+
+describe('toDayKey', () => {
+  it('puts 01:00 in Kigali on the local day, not the previous UTC day', () => {
+    expect(toDayKey(at('2024-05-01T23:00:00Z'), 'Africa/Kigali')).toBe('2024-05-02');
+    expect(toDayKey(at('2024-05-01T23:00:00Z'), 'UTC')).toBe('2024-05-01');
+  });
+
+  it.each([
+    ['Africa/Kigali', '2024-05-01T22:00:00Z', '2024-05-01T21:59:59Z'],
+    ['America/New_York', '2024-05-02T04:00:00Z', '2024-05-02T03:59:59Z'],
+  ])('starts the day at exactly 00:00 local in %s', (timeZone, midnight, lastSecond) => {
+    expect(toDayKey(at(midnight), timeZone)).toBe('2024-05-02');
+    expect(toDayKey(at(lastSecond), timeZone)).toBe('2024-05-01');
+  });
+
+  it('keeps both occurrences of a repeated hour on the same day', () => {
+    // Clocks go back from 24:00 to 23:00, so 23:30 happens twice
+    expect(toDayKey(at('2024-04-07T02:30:00Z'), 'America/Santiago')).toBe('2024-04-06');
+    expect(toDayKey(at('2024-04-07T03:30:00Z'), 'America/Santiago')).toBe('2024-04-06');
+    expect(toDayKey(at('2024-10-26T20:30:00Z'), 'Asia/Beirut')).toBe('2024-10-26');
+    expect(toDayKey(at('2024-10-26T21:30:00Z'), 'Asia/Beirut')).toBe('2024-10-26');
+  });
+});
+
+describe('getTimeZoneOffset', () => {
+  it('follows the clock changes', () => {
+    expect(getTimeZoneOffset(at('2024-05-01T12:00:00Z'), 'Africa/Kigali')).toBe(120);
+    expect(getTimeZoneOffset(at('2024-09-08T03:30:00Z'), 'America/Santiago')).toBe(-240);
+    expect(getTimeZoneOffset(at('2024-09-08T04:30:00Z'), 'America/Santiago')).toBe(-180);
+    expect(getTimeZoneOffset(at('2024-03-30T21:30:00Z'), 'Asia/Beirut')).toBe(120);
+    expect(getTimeZoneOffset(at('2024-03-30T22:30:00Z'), 'Asia/Beirut')).toBe(180);
+  });
+});
+
+describe('startOfDay', () => {
+  it('is local midnight', () => {
+    expect(startOfDay('2024-05-02', 'Africa/Kigali')).toEqual(at('2024-05-01T22:00:00Z'));
+    expect(startOfDay('2024-05-02', 'America/New_York')).toEqual(at('2024-05-02T04:00:00Z'));
+  });
+
+  it('is 01:00 when local midnight does not exist', () => {
+    expect(startOfDay('2024-09-08', 'America/Santiago')).toEqual(at('2024-09-08T04:00:00Z'));
+    expect(startOfDay('2024-03-31', 'Asia/Beirut')).toEqual(at('2024-03-30T22:00:00Z'));
+  });
+
+  it('is the midnight after the repeated hour when clocks go back', () => {
+    expect(startOfDay('2024-04-07', 'America/Santiago')).toEqual(at('2024-04-07T04:00:00Z'));
+    expect(startOfDay('2024-10-27', 'Asia/Beirut')).toEqual(at('2024-10-26T22:00:00Z'));
+  });
+
+  it.each([
+    ['America/Santiago', '2024-03-25'],
+    ['America/Santiago', '2024-09-01'],
+    ['Asia/Beirut', '2024-03-25'],
+    ['Asia/Beirut', '2024-10-20'],
+    ['Africa/Kigali', '2024-01-01'],
+  ])('bounds every day around a clock change in %s from %s', (timeZone, from) => {
+    for (let i = 0; i < 14; i++) {
+      const day = addDays(from, i);
+      const start = startOfDay(day, timeZone);
+
+      expect(toDayKey(start, timeZone)).toBe(day);
+      expect(toDayKey(new Date(start.getTime() - 1), timeZone)).toBe(addDays(day, -1));
+    }
+  });
+});
+
+describe('atLocalTime', () => {
+  it('is the wall clock time in the time zone', () => {
+    expect(atLocalTime('2024-05-02', 8, 0, 'Africa/Kigali')).toEqual(at('2024-05-02T06:00:00Z'));
+    expect(atLocalTime('2024-05-02', 23, 30, 'America/New_York')).toEqual(at('2024-05-03T03:30:00Z'));
+  });
+
+  it('moves a skipped time forward with the clocks', () => {
+    expect(atLocalTime('2024-09-08', 0, 30, 'America/Santiago')).toEqual(at('2024-09-08T04:30:00Z'));
+    expect(atLocalTime('2024-09-08', 9, 0, 'America/Santiago')).toEqual(at('2024-09-08T12:00:00Z'));
+  });
+
+  it('is the first occurrence of a repeated time', () => {
+    expect(atLocalTime('2024-04-06', 23, 30, 'America/Santiago')).toEqual(at('2024-04-07T02:30:00Z'));
+  });
+});
+
+describe('getReminderTriggers', () => {
+  const reminderDates = (task: Parameters<typeof getReminderTriggers>[0], timeZone: string, now: string) =>
+    getReminderTriggers(task, timeZone, at(now)).map(trigger => new Date(trigger.date).toISOString());
+
+  it('reminds daily tasks in the profile time zone for the week ahead', () => {
+    const dates = reminderDates(
+      { frequency: 'daily', time: '07:30', next_due_on: '2024-05-02', created_at: '2024-04-01T10:00:00Z' },
+      'Africa/Kigali',
+      '2024-05-02T04:00:00Z'
+    );
+
+    expect(dates).toHaveLength(7);
+    expect(dates[0]).toBe('2024-05-02T05:30:00.000Z');
+    expect(dates[6]).toBe('2024-05-08T05:30:00.000Z');
+  });
+
+  it('reminds weekly tasks on the weekday they were created', () => {
+    // Created on a Wednesday and done this week
+    expect(reminderDates(
+      { frequency: 'weekly', time: '08:00', next_due_on: '2024-05-06', created_at: '2024-05-01T10:00:00Z' },
+      'Africa/Kigali',
+      '2024-05-04T12:00:00Z'
+    )).toEqual(['2024-05-08T06:00:00.000Z']);
+  });
+
+  it('reminds an open week on its next due day once the weekday has passed', () => {
+    expect(reminderDates(
+      { frequency: 'weekly', time: '18:00', next_due_on: '2024-05-09', created_at: '2024-05-01T10:00:00Z' },
+      'Africa/Kigali',
+      '2024-05-09T12:00:00Z'
+    )).toEqual(['2024-05-09T16:00:00.000Z', '2024-05-15T16:00:00.000Z']);
+  });
+
+  it('reminds monthly tasks created on the 31st on the last day of shorter months', () => {
+    expect(reminderDates(
+      { frequency: 'monthly', time: '09:00', next_due_on: '2024-02-25', created_at: '2024-01-31T10:00:00Z' },
+      'Africa/Kigali',
+      '2024-02-25T12:00:00Z'
+    )).toEqual(['2024-02-29T07:00:00.000Z']);
+  });
+
+  it('reminds tasks every N days on their next due day', () => {
+    expect(reminderDates(
+      { frequency: 'every_n_days', interval_days: 3, time: '20:00', next_due_on: '2024-05-04', created_at: '2024-05-01T10:00:00Z' },
+      'America/New_York',
+      '2024-05-02T12:00:00Z'
+    )).toEqual(['2024-05-05T00:00:00.000Z', '2024-05-08T00:00:00.000Z']);
+  });
+
+  it('skips a reminder whose time has passed today', () => {
+    expect(reminderDates(
+      { frequency: 'weekdays', weekdays: [4], time: '08:00', next_due_on: '2024-05-02', created_at: '2024-04-01T10:00:00Z' },
+      'Africa/Kigali',
+      '2024-05-02T12:00:00Z'
+    )).toEqual([]);
+  });
+});
+
+describe('streaks across clock changes', () => {
+  const task: Parameters<typeof withCompletionState>[0] = {
+    id: 'task-1',
+    user_id: 'user-1',
+    type: 'blood_sugar',
+    title: 'Check blood sugar',
+    description: '',
+    frequency: 'daily',
+    icon: '🩸',
+    color: '#DC3545',
+  };
+
+  // Completions are stored on the local day of the moment they were made
+  const completionsAt = (timeZone: string, instants: string[]) =>
+    instants.map(completed_at => ({ completed_at, completed_on: toDayKey(at(completed_at), timeZone) }));
+
+  it('keeps a daily streak through the night clocks go forward in Santiago', () => {
+    const timeZone = 'America/Santiago';
+    const completions = completionsAt(timeZone, [
+      '2024-09-06T04:30:00Z', // 00:30 on the 6th
+      '2024-09-08T03:59:00Z', // 23:59 on the 7th
+      '2024-09-08T04:00:00Z', // 01:00 on the 8th, its first minute
+      '2024-09-09T03:00:00Z', // 00:00 on the 9th
+      '2024-09-10T15:00:00Z', // 12:00 on the 10th
+    ]);
+    const state = withCompletionState({ ...task, created_at: '2024-09-01T12:00:00Z' }, completions, '2024-09-10', timeZone);
+
+    expect(completions.map(completion => completion.completed_on)).toEqual([
+      '2024-09-06', '2024-09-07', '2024-09-08', '2024-09-09', '2024-09-10',
+    ]);
+    expect(state.completed).toBe(true);
+    expect(state.streak).toBe(5);
+  });
+
+  it('keeps a daily streak through the repeated hour in Beirut', () => {
+    const timeZone = 'Asia/Beirut';
+    const completions = completionsAt(timeZone, [
+      '2024-10-24T21:00:00Z', // 00:00 on the 25th
+      '2024-10-26T21:30:00Z', // the second 23:30 on the 26th
+      '2024-10-26T22:00:00Z', // 00:00 on the 27th
+      '2024-10-28T07:00:00Z', // 09:00 on the 28th
+    ]);
+    const state = withCompletionState({ ...task, created_at: '2024-10-20T10:00:00Z' }, completions, '2024-10-28', timeZone);
+
+    expect(state.streak).toBe(4);
+  });
+
+  it('breaks the streak on a missed day next to a clock change', () => {
+    const timeZone = 'Asia/Beirut';
+    const completions = completionsAt(timeZone, [
+      '2024-03-29T10:00:00Z', // the 29th
+      '2024-03-31T06:00:00Z', // the 31st; the 30th was missed
+      '2024-04-01T06:00:00Z',
+    ]);
+    const state = withCompletionState({ ...task, created_at: '2024-03-20T10:00:00Z' }, completions, '2024-04-01', timeZone);
+
+    expect(state.streak).toBe(2);
+  });
+});
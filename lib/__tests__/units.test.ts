@@ -0,0 +1,41 @@
+import { formatWithUnit, fromCanonicalValue, toCanonicalValue } from '../units';
+
+describe('fromCanonicalValue', () => {
+  it('carries a remainder that rounds up into the larger unit', () => {
+    // 71.996 in and 195.99 lb
+    expect(fromCanonicalValue(182.87, 'ft-in')).toEqual([6, 0]);
+    expect(fromCanonicalValue(88.9, 'st')).toEqual([14, 0]);
+    expect(formatWithUnit(182.87, 'ft-in')).toBe('6 ft 0 in');
+    expect(formatWithUnit(88.9, 'st')).toBe('14 st 0 lb');
+  });
+
+  it('rounds the smaller unit of compound values', () => {
+    expect(fromCanonicalValue(165, 'ft-in')).toEqual([5, 5]);
+    expect(fromCanonicalValue(165, 'ft-in', 0)).toEqual([5, 5]);
+    expect(fromCanonicalValue(70, 'st')).toEqual([11, 0.3]);
+  });
+
+  it('converts single units', () => {
+    expect(fromCanonicalValue(100, 'lb')).toEqual([220.5]);
+    expect(fromCanonicalValue(180, 'mmol/L')).toEqual([10]);
+    expect(fromCanonicalValue(72.5, 'kg')).toEqual([72.5]);
+  });
+});
+
+describe('toCanonicalValue', () => {
+  it('adds up the parts of compound values', () => {
+    expect(toCanonicalValue([6, 0], 'ft-in')).toBe(182.9);
+    expect(toCanonicalValue([5, 5], 'ft-in')).toBe(165.1);
+    expect(toCanonicalValue([14, 0], 'st')).toBe(88.9);
+    expect(toCanonicalValue([11], 'st')).toBe(69.9);
+  });
+
+  it('round-trips through compound units', () => {
+    [150, 165.1, 182.9, 200].forEach(cm => {
+      expect(toCanonicalValue(fromCanonicalValue(cm, 'ft-in'), 'ft-in')).toBeCloseTo(cm, 0);
+    });
+    [50, 70, 88.9, 120].forEach(kg => {
+      expect(toCanonicalValue(fromCanonicalValue(kg, 'st'), 'st')).toBeCloseTo(kg, 0);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from './supabase';
+import { LEGACY_QUESTIONNAIRE_VERSION, migrateAnswers, validateAnswer, type QuestionnaireFlow } from './questionnaire';
+
+// Drafts older than this are discarded instead of offered for resuming
+export const DRAFT_MAX_AGE_DAYS = 14;
+
+export interface AssessmentDraft {
+  userId: string;
+  flowId: string;
+  flowVersion: number;
+  answers: Record<string, any>;
+  history: string[];
+  currentQuestionId: string | null;
+  updatedAt: string;
+  // health_submissions row with status 'draft', when the draft is synced to the server
+  submissionId?: string;
+}
+
+function getDraftKey(userId: string, flowId: string, flowVersion: number): string {
+  return `assessmentDraft:${userId}:${flowId}:v${flowVersion}`;
+}
+
+function isExpired(updatedAt: string): boolean {
+  const ageMs = Date.now() - new Date(updatedAt).getTime();
+  return ageMs > DRAFT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+// The newest local draft of the flow, saved against this version or an earlier one
+async function loadLocalDraft(userId: string, flow: QuestionnaireFlow): Promise<AssessmentDraft | null> {
+  for (let version = flow.version; version >= LEGACY_QUESTIONNAIRE_VERSION; version--) {
+    const stored = await AsyncStorage.getItem(getDraftKey(userId, flow.id, version));
+    if (stored) return JSON.parse(stored);
+  }
+  return null;
+}
+
+// Moves a draft saved against an earlier version onto the current one. The saved position is
+// dropped, so resuming replays the answers and stops at the first question they leave open,
+// e.g. a required question added since. Answers the current version rejects, such as a blood
+// pressure without its diastolic number, are dropped so they are asked again.
+async function upgradeDraft(draft: AssessmentDraft, flow: QuestionnaireFlow): Promise<AssessmentDraft> {
+  const answers = migrateAnswers(draft.answers, draft.flowVersion, flow);
+  flow.questions.forEach(question => {
+    const value = answers[question.id];
+    if (value !== undefined && value !== null && validateAnswer(question, value)) delete answers[question.id];
+  });
+
+  const upgraded: AssessmentDraft = {
+    ...draft,
+    flowVersion: flow.version,
+    answers,
+    history: [],
+    currentQuestionId: null,
+  };
+
+  await AsyncStorage.setItem(getDraftKey(draft.userId, flow.id, flow.version), JSON.stringify(upgraded));
+  await AsyncStorage.removeItem(getDraftKey(draft.userId, flow.id, draft.flowVersion));
+  return upgraded;
+}
+
+// Saves run one after another so a slow insert cannot create a second draft row
+let pendingSave: Promise<AssessmentDraft> | null = null;
+
+export function saveAssessmentDraft(
+  draft: AssessmentDraft,
+  patientId?: string
+): Promise<AssessmentDraft> {
+  const previous = pendingSave;
+  pendingSave = (async () => {
+    const saved = previous ? await previous.catch(() => null) : null;
+    const submissionId = draft.submissionId || saved?.submissionId;
+    const toSave: AssessmentDraft = { ...draft, submissionId, updatedAt: new Date().toISOString() };
+
+    if (patientId) {
+      try {
+        toSave.submissionId = await syncDraftSubmission(patientId, toSave);
+      } catch (error) {
+        // The local copy is enough to resume on this device
+        console.warn('Could not sync assessment draft:', error);
+      }
+    }
+
+    await AsyncStorage.setItem(
+      getDraftKey(draft.userId, draft.flowId, draft.flowVersion),
+      JSON.stringify(toSave)
+    );
+    return toSave;
+  })();
+
+  return pendingSave;
+}
+
+async function syncDraftSubmission(patientId: string, draft: AssessmentDraft): Promise<string> {
+  if (draft.submissionId) {
+    const { error } = await supabase
+      .from('health_submissions')
+      .update({ answers: draft.answers, questionnaire_version: draft.flowVersion, submitted_at: draft.updatedAt })
+      .eq('id', draft.submissionId)
+      .eq('status', 'draft');
+
+    if (error) throw error;
+    return draft.submissionId;
+  }
+
+  const { data, error } = await supabase
+    .from('health_submissions')
+    .insert({
+      patient_id: patientId,
+      answers: draft.answers,
+      questionnaire_id: draft.flowId,
+      questionnaire_version: draft.flowVersion,
+      status: 'draft',
+      submitted_at: draft.updatedAt,
+    })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+export async function loadAssessmentDraft(
+  userId: string,
+  flow: QuestionnaireFlow,
+  patientId?: string
+): Promise<AssessmentDraft | null> {
+  try {
+    let draft = await loadLocalDraft(userId, flow);
+
+    // Fall back to a draft saved from another device
+    if (!draft && patientId) {
+      const { data, error } = await supabase
+        .from('health_submissions')
+        .select('id, answers, questionnaire_version, submitted_at')
+        .eq('patient_id', patientId)
+        .eq('status', 'draft')
+        .eq('questionnaire_id', flow.id)
+        .lte('questionnaire_version', flow.version)
+        .order('submitted_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      if (data) {
+        draft = {
+          userId,
+          flowId: flow.id,
+          flowVersion: data.questionnaire_version,
+          answers: data.answers as Record<string, any>,
+          history: [],
+          currentQuestionId: null,
+          updatedAt: data.submitted_at || new Date(0).toISOString(),
+          submissionId: data.id,
+        };
+      }
+    }
+
+    if (!draft || Object.keys(draft.answers).length === 0) return null;
+
+    if (isExpired(draft.updatedAt)) {
+      await discardAssessmentDraft(draft);
+      return null;
+    }
+
+    return draft.flowVersion < flow.version ? await upgradeDraft(draft, flow) : draft;
+  } catch (error) {
+    console.error('Error loading assessment draft:', error);
+    return null;
+  }
+}
+
+// Removes only the local copy, e.g. once the draft row has been submitted
+export async function clearAssessmentDraft(userId: string, flow: QuestionnaireFlow): Promise<void> {
+  await AsyncStorage.removeItem(getDraftKey(userId, flow.id, flow.version));
+}
+
+export async function discardAssessmentDraft(draft: AssessmentDraft): Promise<void> {
+  try {
+    await AsyncStorage.removeItem(getDraftKey(draft.userId, draft.flowId, draft.flowVersion));
+
+    if (draft.submissionId) {
+      const { error } = await supabase
+        .from('health_submissions')
+        .delete()
+        .eq('id', draft.submissionId)
+        .eq('status', 'draft');
+
+      if (error) throw error;
+    }
+  } catch (error) {
+    console.error('Error discarding assessment draft:', error);
+  }
+}
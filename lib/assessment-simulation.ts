@@ -1,3 +1,5 @@
+import { countSelectedOptions, getBmi, getSystolicBp } from './questionnaire';
+
 // Simulated assessment endpoint for when the real AI service is unavailable
 export interface SimulatedRiskPrediction {
   risk_category: 'non-diabetic' | 'low' | 'moderate' | 'high' | 'critical';
@@ -9,356 +11,213 @@ export interface SimulatedRiskPrediction {
     'High Risk': number;
     'Critical Risk': number;
   };
+  // Point-based score the category was derived from, out of max_score
+  risk_score: number;
+  max_score: number;
+  // Every factor that added points, largest contribution first
+  contributing_factors: RiskFactorContribution[];
+}
+
+export interface RiskFactorContribution {
+  factor: string;
+  label: string;
+  points: number;
+  explanation: string;
 }
 
-export function simulateRiskPrediction(answers: Record<string, any>): SimulatedRiskPrediction {
-  // Calculate risk factors based on answers
-  let riskScore = 0;
-  const riskFactors: string[] = [];
+export interface RiskScoreBreakdown {
+  score: number;
+  factors: RiskFactorContribution[];
+}
+
+export function scoreRiskFactors(answers: Record<string, any>): RiskScoreBreakdown {
+  const factors: RiskFactorContribution[] = [];
+  const addFactor = (factor: string, label: string, points: number, explanation: string) => {
+    factors.push({ factor, label, points, explanation });
+  };
 
   // Age factor (higher age = higher risk)
   const age = answers.age || 0;
   if (age > 45) {
-    riskScore += 15;
-    riskFactors.push('age');
+    addFactor('age', 'Age', 15, `At ${age}, age is a major risk factor; risk rises sharply after 45.`);
   } else if (age > 35) {
-    riskScore += 8;
+    addFactor('age', 'Age', 8, `At ${age}, risk is starting to rise with age.`);
   }
 
-  // BMI calculation and factor
-  const heightInMeters = (answers.height || 170) / 100;
-  const weight = answers.weight || 70;
-  const bmi = weight / (heightInMeters * heightInMeters);
-  
+  // BMI factor; a missing height or weight counts as 170 cm or 70 kg
+  const bmi = getBmi({ height: answers.height || 170, weight: answers.weight || 70 })!;
+  const bmiText = bmi.toFixed(1);
+
   if (bmi > 30) {
-    riskScore += 20;
-    riskFactors.push('obesity');
+    addFactor('obesity', 'Body weight', 20, `A BMI of ${bmiText} is in the obese range (over 30).`);
   } else if (bmi > 25) {
-    riskScore += 12;
-    riskFactors.push('overweight');
+    addFactor('overweight', 'Body weight', 12, `A BMI of ${bmiText} is in the overweight range (25-30).`);
   }
 
   // Blood pressure factor
-  const systolicBp = answers.systolic_bp || 120;
+  const systolicBp = getSystolicBp(answers) || 120;
   if (systolicBp > 140) {
-    riskScore += 15;
-    riskFactors.push('hypertension');
+    addFactor('hypertension', 'Blood pressure', 15, `A systolic blood pressure of ${systolicBp} mmHg indicates hypertension (over 140).`);
   } else if (systolicBp > 130) {
-    riskScore += 8;
+    addFactor('elevated_bp', 'Blood pressure', 8, `A systolic blood pressure of ${systolicBp} mmHg is elevated (over 130).`);
   }
 
   // Family history factor
   if (answers['family-history'] === 'yes') {
-    riskScore += 18;
-    riskFactors.push('family_history');
+    addFactor('family_history', 'Family history', 18, 'Having a close relative with diabetes increases your own risk.');
   }
 
   // Activity level factor
   const activityLevel = answers['activity-level'] || 'moderate';
   if (activityLevel === 'sedentary') {
-    riskScore += 12;
-    riskFactors.push('sedentary');
+    addFactor('sedentary', 'Physical activity', 12, 'Spending most of the day sitting makes it harder for your body to use insulin.');
   } else if (activityLevel === 'light') {
-    riskScore += 6;
+    addFactor('light_activity', 'Physical activity', 6, 'Light activity helps, but regular exercise lowers risk further.');
   }
 
   // Diet quality factor
   const dietQuality = answers.diet_quality || 5;
   if (dietQuality <= 3) {
-    riskScore += 10;
-    riskFactors.push('poor_diet');
+    addFactor('poor_diet', 'Diet quality', 10, `You rated your diet quality ${dietQuality} out of 10.`);
   } else if (dietQuality <= 5) {
-    riskScore += 5;
+    addFactor('fair_diet', 'Diet quality', 5, `You rated your diet quality ${dietQuality} out of 10.`);
   }
 
   // Diet habits factor
   const dietHabits = answers['diet-habits'] || 'good';
   if (dietHabits === 'poor') {
-    riskScore += 12;
-    riskFactors.push('poor_diet_habits');
+    addFactor('poor_diet_habits', 'Eating habits', 12, 'A diet of mostly processed foods raises blood sugar and weight.');
   } else if (dietHabits === 'fair') {
-    riskScore += 6;
+    addFactor('fair_diet_habits', 'Eating habits', 6, 'A mix of healthy and unhealthy foods adds some risk.');
   }
 
   // Smoking factor
   const smoking = answers.smoking || 'never';
   if (smoking === 'current') {
-    riskScore += 10;
-    riskFactors.push('smoking');
+    addFactor('smoking', 'Smoking', 10, 'Smoking increases insulin resistance.');
   } else if (smoking === 'former') {
-    riskScore += 4;
+    addFactor('former_smoking', 'Smoking', 4, 'Former smokers keep a slightly raised risk for some years after quitting.');
   }
 
   // Symptoms factor
-  const symptoms = answers.symptoms || [];
-  const symptomCount = Array.isArray(symptoms) 
-    ? symptoms.filter((s: string) => s !== 'none').length 
-    : 0;
+  const symptomCount = countSelectedOptions('symptoms', answers.symptoms);
   
   if (symptomCount > 3) {
-    riskScore += 20;
-    riskFactors.push('multiple_symptoms');
+    addFactor('multiple_symptoms', 'Symptoms', 20, `You reported ${symptomCount} symptoms that can be signs of high blood sugar.`);
   } else if (symptomCount > 1) {
-    riskScore += 10;
-    riskFactors.push('some_symptoms');
+    addFactor('some_symptoms', 'Symptoms', 10, `You reported ${symptomCount} symptoms that can be signs of high blood sugar.`);
   }
 
   // Stress level factor
   const stressLevel = answers['stress-level'] || 5;
   if (stressLevel >= 8) {
-    riskScore += 8;
-    riskFactors.push('high_stress');
+    addFactor('high_stress', 'Stress', 8, `A stress level of ${stressLevel} out of 10 can raise blood sugar.`);
   }
 
   // Sleep quality factor
   const sleepQuality = answers['sleep-quality'] || 'good';
   if (sleepQuality === 'poor') {
-    riskScore += 8;
-    riskFactors.push('poor_sleep');
+    addFactor('poor_sleep', 'Sleep', 8, 'Short or restless sleep is linked to higher diabetes risk.');
   }
 
   // Location factor (urban vs rural access to healthcare)
   const location = answers.location || 'urban';
   if (location === 'rural') {
-    riskScore += 3; // Slight increase due to healthcare access
+    addFactor('rural_access', 'Healthcare access', 3, 'Living in a rural area can make regular screening harder to reach.');
   }
 
+  factors.sort((a, b) => b.points - a.points);
+  const total = factors.reduce((sum, f) => sum + f.points, 0);
+
   // Cap the risk score at 100
-  riskScore = Math.min(riskScore, 100);
-
-  // Determine risk category based on score
-  let riskCategory: SimulatedRiskPrediction['risk_category'];
-  let riskLevel: number;
-
-  if (riskScore <= 20) {
-    riskCategory = 'non-diabetic';
-    riskLevel = 0;
-  } else if (riskScore <= 35) {
-    riskCategory = 'low';
-    riskLevel = 1;
-  } else if (riskScore <= 55) {
-    riskCategory = 'moderate';
-    riskLevel = 2;
-  } else if (riskScore <= 75) {
-    riskCategory = 'high';
-    riskLevel = 3;
-  } else {
-    riskCategory = 'critical';
-    riskLevel = 4;
-  }
+  return { score: Math.min(total, 100), factors };
+}
 
-  // Generate realistic probabilities based on the risk score
-  const probabilities = generateProbabilities(riskScore, riskCategory);
+export function simulateRiskPrediction(
+  answers: Record<string, any>,
+  options: SimulationOptions = {}
+): SimulatedRiskPrediction {
+  const { score: riskScore, factors } = scoreRiskFactors(answers);
+  const { category, level } = getRiskCategory(riskScore);
 
   return {
-    risk_category: riskCategory,
-    risk_level: riskLevel,
-    probabilities
+    risk_category: category,
+    risk_level: level,
+    probabilities: generateProbabilities(riskScore, options.seed),
+    risk_score: riskScore,
+    max_score: 100,
+    contributing_factors: factors
   };
 }
 
-function generateProbabilities(
-  riskScore: number, 
-  primaryCategory: SimulatedRiskPrediction['risk_category']
-): SimulatedRiskPrediction['probabilities'] {
-  // Base probabilities
-  const probs = {
-    'Non-diabetic': 0.2,
-    'Low Risk': 0.2,
-    'Moderate Risk': 0.2,
-    'High Risk': 0.2,
-    'Critical Risk': 0.2
-  };
-
-  // Adjust probabilities based on risk score
-  if (riskScore <= 20) {
-    probs['Non-diabetic'] = 0.6 + Math.random() * 0.2;
-    probs['Low Risk'] = 0.2 + Math.random() * 0.1;
-    probs['Moderate Risk'] = 0.1 + Math.random() * 0.05;
-    probs['High Risk'] = 0.05 + Math.random() * 0.03;
-    probs['Critical Risk'] = 0.02 + Math.random() * 0.02;
-  } else if (riskScore <= 35) {
-    probs['Non-diabetic'] = 0.3 + Math.random() * 0.1;
-    probs['Low Risk'] = 0.4 + Math.random() * 0.2;
-    probs['Moderate Risk'] = 0.2 + Math.random() * 0.1;
-    probs['High Risk'] = 0.08 + Math.random() * 0.05;
-    probs['Critical Risk'] = 0.02 + Math.random() * 0.03;
-  } else if (riskScore <= 55) {
-    probs['Non-diabetic'] = 0.15 + Math.random() * 0.1;
-    probs['Low Risk'] = 0.25 + Math.random() * 0.1;
-    probs['Moderate Risk'] = 0.35 + Math.random() * 0.15;
-    probs['High Risk'] = 0.2 + Math.random() * 0.1;
-    probs['Critical Risk'] = 0.05 + Math.random() * 0.05;
-  } else if (riskScore <= 75) {
-    probs['Non-diabetic'] = 0.05 + Math.random() * 0.05;
-    probs['Low Risk'] = 0.15 + Math.random() * 0.1;
-    probs['Moderate Risk'] = 0.25 + Math.random() * 0.1;
-    probs['High Risk'] = 0.4 + Math.random() * 0.15;
-    probs['Critical Risk'] = 0.15 + Math.random() * 0.1;
-  } else {
-    probs['Non-diabetic'] = 0.02 + Math.random() * 0.03;
-    probs['Low Risk'] = 0.08 + Math.random() * 0.05;
-    probs['Moderate Risk'] = 0.15 + Math.random() * 0.1;
-    probs['High Risk'] = 0.25 + Math.random() * 0.1;
-    probs['Critical Risk'] = 0.5 + Math.random() * 0.2;
-  }
-
-  // Normalize probabilities to sum to 1
-  const total = Object.values(probs).reduce((sum, prob) => sum + prob, 0);
-  Object.keys(probs).forEach(key => {
-    probs[key as keyof typeof probs] /= total;
-  });
-
-  return probs;
+export interface SimulationOptions {
+  // Adds small, reproducible variation to the probabilities, e.g. for demos.
+  // Without a seed the same answers always produce the same prediction.
+  seed?: number;
 }
 
-export function generateSimulatedRecommendations(
-  answers: Record<string, any>, 
-  riskCategory: string
-): Array<{ content: string; type: 'lifestyle' | 'clinical' }> {
-  const recommendations: Array<{ content: string; type: 'lifestyle' | 'clinical' }> = [];
-
-  // Critical risk recommendations
-  if (riskCategory === 'critical') {
-    recommendations.push({
-      content: 'Schedule an immediate consultation with a healthcare provider for comprehensive diabetes screening and blood glucose testing.',
-      type: 'clinical'
-    });
-    recommendations.push({
-      content: 'Monitor your blood sugar levels daily and keep a food diary to track glucose responses to different meals.',
-      type: 'clinical'
-    });
-  }
-
-  // High risk recommendations
-  if (riskCategory === 'high' || riskCategory === 'critical') {
-    recommendations.push({
-      content: 'Consult with a registered dietitian to create a personalized meal plan focused on blood sugar management.',
-      type: 'clinical'
-    });
-  }
-
-  // Activity level recommendations
-  const activityLevel = answers['activity-level'] || 'moderate';
-  if (activityLevel === 'sedentary') {
-    recommendations.push({
-      content: 'Start with 10-minute walks after meals and gradually increase to 150 minutes of moderate exercise per week. Even small increases in activity can significantly reduce diabetes risk.',
-      type: 'lifestyle'
-    });
-    recommendations.push({
-      content: 'Consider joining a local walking group or fitness class to make exercise more enjoyable and sustainable.',
-      type: 'lifestyle'
-    });
-  } else if (activityLevel === 'light') {
-    recommendations.push({
-      content: 'Increase your physical activity to include both cardio and strength training exercises. Aim for at least 150 minutes of moderate activity weekly.',
-      type: 'lifestyle'
-    });
-  }
-
-  // Diet recommendations
-  const dietHabits = answers['diet-habits'] || 'good';
-  if (dietHabits === 'poor') {
-    recommendations.push({
-      content: 'Focus on whole foods: vegetables, lean proteins, whole grains, and healthy fats. Limit processed foods, sugary drinks, and refined carbohydrates.',
-      type: 'lifestyle'
-    });
-    recommendations.push({
-      content: 'Practice portion control by using smaller plates and eating slowly. This helps with weight management and blood sugar control.',
-      type: 'lifestyle'
-    });
-  }
-
-  const dietQuality = answers.diet_quality || 5;
-  if (dietQuality <= 4) {
-    recommendations.push({
-      content: 'Include more fiber-rich foods like beans, lentils, and vegetables in your diet. Fiber helps slow sugar absorption and improves blood glucose control.',
-      type: 'lifestyle'
-    });
-  }
+type RiskProbabilities = SimulatedRiskPrediction['probabilities'];
 
-  // BMI-based recommendations
-  const heightInMeters = (answers.height || 170) / 100;
-  const weight = answers.weight || 70;
-  const bmi = weight / (heightInMeters * heightInMeters);
-  
-  if (bmi > 25) {
-    recommendations.push({
-      content: 'Work towards achieving a healthy weight through a combination of balanced nutrition and regular physical activity. Even a 5-10% weight loss can significantly reduce diabetes risk.',
-      type: 'lifestyle'
-    });
-  }
+// Upper score bound of each category, in risk level order
+export const RISK_CATEGORY_BANDS: { category: SimulatedRiskPrediction['risk_category']; label: keyof RiskProbabilities; maxScore: number }[] = [
+  { category: 'non-diabetic', label: 'Non-diabetic', maxScore: 20 },
+  { category: 'low', label: 'Low Risk', maxScore: 35 },
+  { category: 'moderate', label: 'Moderate Risk', maxScore: 55 },
+  { category: 'high', label: 'High Risk', maxScore: 75 },
+  { category: 'critical', label: 'Critical Risk', maxScore: 100 },
+];
 
-  // Stress management
-  const stressLevel = answers['stress-level'] || 5;
-  if (stressLevel >= 7) {
-    recommendations.push({
-      content: 'Practice stress management techniques such as meditation, deep breathing, or yoga. Chronic stress can affect blood sugar levels and increase diabetes risk.',
-      type: 'lifestyle'
-    });
-  }
+// Score at which each category is most likely. Adjacent centers are placed so the point
+// halfway between them is the band boundary, which makes the most probable class always
+// the category the score falls in.
+const CATEGORY_CENTERS = [15, 26, 45, 66, 85];
 
-  // Sleep recommendations
-  const sleepQuality = answers['sleep-quality'] || 'good';
-  if (sleepQuality === 'poor' || sleepQuality === 'fair') {
-    recommendations.push({
-      content: 'Prioritize getting 7-9 hours of quality sleep each night. Poor sleep can affect insulin sensitivity and blood sugar regulation.',
-      type: 'lifestyle'
-    });
-  }
+// Spread of each category's likelihood around its center, in score points
+const CATEGORY_SPREAD = 12;
 
-  // Smoking cessation
-  const smoking = answers.smoking || 'never';
-  if (smoking === 'current') {
-    recommendations.push({
-      content: 'Consider quitting smoking as it significantly increases diabetes risk and complications. Speak with your healthcare provider about smoking cessation programs.',
-      type: 'clinical'
-    });
-  }
+const SEEDED_JITTER = 0.1;
 
-  // Family history considerations
-  if (answers['family-history'] === 'yes') {
-    recommendations.push({
-      content: 'Given your family history of diabetes, maintain regular health screenings including annual blood glucose tests and HbA1c monitoring.',
-      type: 'clinical'
-    });
-  }
-
-  // Symptoms-based recommendations
-  const symptoms = answers.symptoms || [];
-  const symptomCount = Array.isArray(symptoms) 
-    ? symptoms.filter((s: string) => s !== 'none').length 
-    : 0;
-  
-  if (symptomCount > 2) {
-    recommendations.push({
-      content: 'You reported several symptoms that may be related to blood sugar issues. Schedule an appointment with your healthcare provider for proper evaluation.',
-      type: 'clinical'
-    });
-  }
+export function getRiskCategory(riskScore: number): { category: SimulatedRiskPrediction['risk_category']; level: number } {
+  const level = RISK_CATEGORY_BANDS.findIndex(band => riskScore <= band.maxScore);
+  const index = level === -1 ? RISK_CATEGORY_BANDS.length - 1 : level;
+  return { category: RISK_CATEGORY_BANDS[index].category, level: index };
+}
 
-  // Location-based recommendations
-  const location = answers.location || 'urban';
-  if (location === 'rural') {
-    recommendations.push({
-      content: 'Connect with your local health center for regular check-ups and consider telemedicine options for ongoing diabetes prevention support.',
-      type: 'clinical'
-    });
-  } else {
-    recommendations.push({
-      content: 'Take advantage of local resources such as community health centers, fitness facilities, and farmers markets for fresh produce.',
-      type: 'lifestyle'
-    });
-  }
+// Small deterministic PRNG (mulberry32) so seeded runs are reproducible
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
 
-  // General prevention recommendations for all risk levels
-  if (riskCategory !== 'critical') {
-    recommendations.push({
-      content: 'Stay hydrated by drinking plenty of water throughout the day. Proper hydration supports healthy blood sugar levels and overall metabolic function.',
-      type: 'lifestyle'
-    });
-  }
+function normalize(weights: number[]): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return weights.map(w => w / total);
+}
 
-  // Limit to 6-8 most relevant recommendations
-  return recommendations.slice(0, Math.min(8, recommendations.length));
-}
\ No newline at end of file
+// Maps a 0-100 risk score onto the five-class distribution returned by the prediction API
+export function generateProbabilities(riskScore: number, seed?: number): RiskProbabilities {
+  const score = Math.max(0, Math.min(riskScore, 100));
+  const base = normalize(
+    CATEGORY_CENTERS.map(center => Math.exp(-Math.pow((score - center) / CATEGORY_SPREAD, 2) / 2))
+  );
+
+  let weights = base;
+  if (seed !== undefined) {
+    const random = createRandom(seed);
+    const jittered = normalize(base.map(p => p * (1 + (random() * 2 - 1) * SEEDED_JITTER)));
+    // Variation must never change which category comes out on top
+    const top = (values: number[]) => values.indexOf(Math.max(...values));
+    if (top(jittered) === top(base)) weights = jittered;
+  }
+
+  return RISK_CATEGORY_BANDS.reduce((probs, band, index) => {
+    probs[band.label] = weights[index];
+    return probs;
+  }, {} as RiskProbabilities);
+}
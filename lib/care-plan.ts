@@ -0,0 +1,207 @@
+import { supabase } from './supabase';
+import type { TranslationKeys, TranslationParams } from './i18n';
+
+export type RecommendationType = 'lifestyle' | 'clinical';
+
+// A recommendation on a submission's care plan, with the doctors who wrote and last changed it
+export interface CarePlanItem {
+  id: string;
+  submission_id: string;
+  content: string;
+  type: RecommendationType;
+  position: number | null;
+  rule_id: string | null;
+  priority: number | null;
+  evidence: string | null;
+  created_at: string | null;
+  updated_at: string | null;
+  retired_at: string | null;
+  // NULL for recommendations generated by the rules in lib/recommendation-rules.ts
+  doctor_id: string | null;
+  updated_by: string | null;
+  retired_by: string | null;
+  authorName: string | null;
+  updatedByName: string | null;
+}
+
+export interface CarePlanDraft {
+  content: string;
+  type: RecommendationType;
+}
+
+const CARE_PLAN_COLUMNS = `
+  id,
+  submission_id,
+  content,
+  type,
+  position,
+  rule_id,
+  priority,
+  evidence,
+  created_at,
+  updated_at,
+  retired_at,
+  doctor_id,
+  updated_by,
+  retired_by
+`;
+
+// Position first, then the rule priority for rows written before positions existed
+export function sortCarePlan<T extends Pick<CarePlanItem, 'position' | 'priority' | 'created_at'>>(items: T[]): T[] {
+  return [...items].sort((a, b) =>
+    (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER) ||
+    (b.priority ?? 0) - (a.priority ?? 0) ||
+    new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime()
+  );
+}
+
+async function getCurrentDoctorId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) throw new Error('You must be signed in to edit a care plan');
+
+  const { data, error } = await supabase
+    .from('doctors')
+    .select('id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !data) throw new Error('Only doctors can edit care plans');
+  return data.id;
+}
+
+type CarePlanChangeKey = Extract<keyof TranslationKeys, `chat.system.carePlan${string}`>;
+
+// The message is translated for each reader, so the change is sent as a translation key
+async function notifyPatient(submissionId: string, change: CarePlanChangeKey, params: TranslationParams = {}): Promise<void> {
+  const { error } = await supabase.rpc('notify_care_plan_change', {
+    p_submission_id: submissionId,
+    p_message_key: change,
+    p_message_params: params
+  });
+
+  // The change itself is saved; a missing notification should not undo it
+  if (error) console.error('Error notifying patient of care plan change:', error);
+}
+
+export async function loadCarePlan(
+  submissionId: string,
+  { includeRetired = false }: { includeRetired?: boolean } = {}
+): Promise<CarePlanItem[]> {
+  let query = supabase
+    .from('recommendations')
+    .select(CARE_PLAN_COLUMNS)
+    .eq('submission_id', submissionId);
+
+  if (!includeRetired) {
+    query = query.is('retired_at', null);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const rows = data || [];
+  const doctorIds = [...new Set(rows.flatMap(row => [row.doctor_id, row.updated_by]).filter(Boolean))] as string[];
+
+  const names = new Map<string, string>();
+  if (doctorIds.length > 0) {
+    const { data: doctors, error: namesError } = await supabase.rpc('get_doctor_names', { p_doctor_ids: doctorIds });
+    if (namesError) throw namesError;
+    (doctors || []).forEach(doctor => names.set(doctor.doctor_id, doctor.full_name));
+  }
+
+  return sortCarePlan(rows.map(row => ({
+    ...row,
+    type: row.type as RecommendationType,
+    authorName: row.doctor_id ? names.get(row.doctor_id) || null : null,
+    updatedByName: row.updated_by ? names.get(row.updated_by) || null : null
+  })));
+}
+
+// Adds a recommendation at the end of the care plan
+export async function addRecommendation(submissionId: string, draft: CarePlanDraft): Promise<void> {
+  const doctorId = await getCurrentDoctorId();
+
+  const { data: last } = await supabase
+    .from('recommendations')
+    .select('position')
+    .eq('submission_id', submissionId)
+    .not('position', 'is', null)
+    .order('position', { ascending: false })
+    .limit(1);
+
+  const { error } = await supabase
+    .from('recommendations')
+    .insert({
+      submission_id: submissionId,
+      content: draft.content.trim(),
+      type: draft.type,
+      doctor_id: doctorId,
+      position: (last?.[0]?.position ?? 0) + 1
+    });
+
+  if (error) throw error;
+  await notifyPatient(submissionId, 'chat.system.carePlanAdded', { content: draft.content.trim() });
+}
+
+export async function editRecommendation(item: CarePlanItem, draft: CarePlanDraft): Promise<void> {
+  const doctorId = await getCurrentDoctorId();
+
+  const { error } = await supabase
+    .from('recommendations')
+    .update({
+      content: draft.content.trim(),
+      type: draft.type,
+      updated_by: doctorId
+    })
+    .eq('id', item.id);
+
+  if (error) throw error;
+  await notifyPatient(item.submission_id, 'chat.system.carePlanEdited', { content: draft.content.trim() });
+}
+
+// Retired recommendations are kept for the record but no longer shown to the patient
+export async function retireRecommendation(item: CarePlanItem): Promise<void> {
+  const doctorId = await getCurrentDoctorId();
+
+  const { error } = await supabase
+    .from('recommendations')
+    .update({
+      retired_at: new Date().toISOString(),
+      retired_by: doctorId,
+      updated_by: doctorId
+    })
+    .eq('id', item.id);
+
+  if (error) throw error;
+  await notifyPatient(item.submission_id, 'chat.system.carePlanRetired', { content: item.content });
+}
+
+// The active items with the one at `index` swapped with its neighbour in `direction`
+export function moveCarePlanItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) return items;
+
+  const moved = [...items];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+// Renumbers the active recommendations in the given order
+export async function reorderCarePlan(submissionId: string, ordered: CarePlanItem[]): Promise<void> {
+  const changed = ordered
+    .map((item, index) => ({ item, position: index + 1 }))
+    .filter(({ item, position }) => item.position !== position);
+
+  for (const { item, position } of changed) {
+    const { error } = await supabase
+      .from('recommendations')
+      .update({ position })
+      .eq('id', item.id);
+
+    if (error) throw error;
+  }
+
+  if (changed.length > 0) {
+    await notifyPatient(submissionId, 'chat.system.carePlanReordered');
+  }
+}
@@ -0,0 +1,26 @@
+import type { Tables } from '@/types/database';
+import { t, translateText, type TranslationParams } from './i18n';
+
+type ChatMessage = Pick<Tables<'messages'>, 'message' | 'sender_type'> &
+  Partial<Pick<Tables<'messages'>, 'message_key' | 'message_params'>>;
+
+// Posted by the database, e.g. when a prediction is re-scored or a care plan changes
+export function isSystemMessage(message: Pick<ChatMessage, 'sender_type'>): boolean {
+  return message.sender_type === 'system';
+}
+
+export function getSystemSenderName(): string {
+  return t('chat.system.sender');
+}
+
+// System messages carry a translation key and are shown in the reader's language;
+// `message` holds the English text for messages without one
+export function getMessageText(message: ChatMessage): string {
+  if (!message.message_key) return message.message;
+
+  const params = message.message_params && typeof message.message_params === 'object' && !Array.isArray(message.message_params)
+    ? message.message_params as TranslationParams
+    : undefined;
+  const text = translateText(message.message_key, params);
+  return text === message.message_key ? message.message : text;
+}
@@ -1,26 +1,68 @@
 import { supabase } from './supabase';
 import { Platform } from 'react-native';
 import * as Notifications from 'expo-notifications';
+import {
+  addDays,
+  calculateAdherence,
+  calculateStreak,
+  formatStreak,
+  getNextDueDate,
+  getReminderDays,
+  isCompletedForPeriod,
+  isDueOn,
+  isStreakMilestone,
+  type TaskFrequency,
+  type TaskRecurrence,
+} from './task-recurrence';
+import { atLocalTime, getUserTimeZone, startOfDay, toDayKey } from './time-zones';
+import { formatGlucose, getGlucoseStatus, getGlucoseUnit } from './glucose';
 
 export interface DiabetesTask {
   id: string;
   user_id: string; // Added user_id
-  type: 'medication' | 'blood_sugar' | 'exercise' | 'meal' | 'hydration' | 'foot_check' | 'weight';
+  type: 'medication' | 'blood_sugar' | 'exercise' | 'meal' | 'hydration' | 'foot_check' | 'weight' | 'custom';
   title: string;
   description: string;
-  frequency: 'daily' | 'weekly' | 'monthly';
+  frequency: TaskFrequency;
+  weekdays?: number[] | null; // For 'weekdays', 0 = Sunday
+  interval_days?: number | null; // For 'every_n_days'
   time?: string; // HH:MM format
-  completed: boolean;
-  completed_at?: string | null; // Can be null if not completed
-  streak: number;
   icon: string;
   color: string;
+  created_at?: string;
+  archived_at?: string | null; // Archived tasks are hidden from the daily list
+  assigned_by?: string | null; // Doctor who assigned the task; the patient cannot change or delete it
+  // Derived from task_completions by getDailyTasks, not stored on the task
+  completed: boolean; // Done for the current period (day, week, month...)
+  completed_at?: string | null;
+  streak: number; // Completed periods in a row
+  due_today: boolean; // Scheduled today; false e.g. on a weekday the task is not planned for
+  next_due_on: string;
+}
+
+// One completion of a task. A task is completed at most once per day.
+export interface TaskCompletion {
+  id: string;
+  task_id: string;
+  user_id: string;
+  completed_on: string; // YYYY-MM-DD, the day the completion counts toward
+  completed_at: string;
+  task?: Pick<DiabetesTask, 'title' | 'type' | 'icon'>;
+}
+
+export interface TaskAdherence {
+  task_id: string;
+  title: string;
+  // Periods (days, weeks, months...) in the window since the task was created
+  expected: number;
+  completed: number;
+  rate: number; // 0-1
 }
 
 export interface BloodSugarReading {
   id: string;
   user_id: string;
-  reading: number;
+  reading: number; // mg/dL, see lib/glucose.ts for the user's unit
   reading_type: 'fasting' | 'post_meal' | 'bedtime' | 'random';
   notes?: string;
   recorded_at: string;
@@ -37,7 +79,19 @@ export interface MedicationReminder {
   created_at: string;
 }
 
-export const DEFAULT_DIABETES_TASKS: Omit<DiabetesTask, 'id' | 'completed' | 'completed_at' | 'streak' | 'user_id'>[] = [
+type DerivedTaskField = 'completed' | 'completed_at' | 'streak' | 'due_today' | 'next_due_on';
+
+// The fields of a task users choose themselves
+export type TaskDraft = Pick<DiabetesTask, 'title' | 'description' | 'icon' | 'frequency' | 'weekdays' | 'interval_days' | 'time'>;
+
+export const CUSTOM_TASK_ICONS = ['✅', '💊', '🩸', '🏃‍♀️', '🥗', '💧', '🦶', '⚖️', '😴', '🧘', '👁️', '🦷'];
+
+const CUSTOM_TASK_COLOR = '#0066CC';
+
+// Identifiers of scheduled task reminders start with this, followed by the task id
+const TASK_REMINDER_PREFIX = 'diabetes-task-';
+
+export const DEFAULT_DIABETES_TASKS: Omit<DiabetesTask, 'id' | 'user_id' | 'created_at' | DerivedTaskField>[] = [
   {
     type: 'blood_sugar',
     title: 'Check Blood Sugar',
@@ -122,9 +176,6 @@ export async function initializeDiabetesTasks(userId: string): Promise<void> {
       description: task.description,
       frequency: task.frequency,
       time: task.time,
-      completed: false,
-      completed_at: null, // Ensure completed_at is explicitly null for new tasks
-      streak: 0,
       icon: task.icon,
       color: task.color
     }));
@@ -139,45 +190,100 @@ export async function initializeDiabetesTasks(userId: string): Promise<void> {
   }
 }
 
-export async function getDailyTasks(userId: string): Promise<DiabetesTask[]> {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    
-    const { data, error } = await (supabase.from('diabetes_tasks') as any)
+export const ADHERENCE_WINDOW_DAYS = 90;
+
+// How far back completions are loaded to compute streaks
+const STREAK_LOOKBACK_DAYS = 365;
+
+export function getTaskRecurrence(
+  task: Pick<DiabetesTask, 'frequency' | 'weekdays' | 'interval_days' | 'created_at'>,
+  timeZone: string
+): TaskRecurrence {
+  return {
+    frequency: task.frequency,
+    weekdays: task.weekdays,
+    interval_days: task.interval_days,
+    anchor: task.created_at ? toDayKey(new Date(task.created_at), timeZone) : '1970-01-01'
+  };
+}
+
+// Adds the completion state of the current period to a stored task. `today` is the day key
+// of the current day in `timeZone`.
+export function withCompletionState(
+  task: Omit<DiabetesTask, DerivedTaskField>,
+  completions: Pick<TaskCompletion, 'completed_on' | 'completed_at'>[],
+  today: string,
+  timeZone: string
+): DiabetesTask {
+  const recurrence = getTaskRecurrence(task, timeZone);
+  const days = completions.map(completion => completion.completed_on);
+  const latest = completions.reduce<string | null>(
+    (latestAt, completion) => (!latestAt || completion.completed_at > latestAt ? completion.completed_at : latestAt),
+    null
+  );
+
+  return {
+    ...task,
+    completed: isCompletedForPeriod(recurrence, days, today),
+    completed_at: latest,
+    streak: calculateStreak(recurrence, days, today),
+    due_today: isDueOn(recurrence, today),
+    next_due_on: getNextDueDate(recurrence, days, today)
+  };
+}
+
+// Tasks scheduled today, including those already completed for their period
+export function getTasksDueToday(tasks: DiabetesTask[]): DiabetesTask[] {
+  return tasks.filter(task => task.due_today);
+}
+
+function groupByTask<T extends Pick<TaskCompletion, 'task_id'>>(completions: T[]): Map<string, T[]> {
+  const byTask = new Map<string, T[]>();
+  completions.forEach(completion => {
+    byTask.set(completion.task_id, [...(byTask.get(completion.task_id) || []), completion]);
+  });
+  return byTask;
+}
+
+export async function getTaskCompletions(userId: string, days: number = ADHERENCE_WINDOW_DAYS): Promise<TaskCompletion[]> {
+  const timeZone = await getUserTimeZone(userId);
+  const { data, error } = await supabase
+    .from('task_completions')
+    .select('id, task_id, user_id, completed_on, completed_at')
+    .eq('user_id', userId)
+    .gte('completed_on', addDays(toDayKey(new Date(), timeZone), -(days - 1)))
+    .order('completed_at', { ascending: false });
+
+  if (error) throw error;
+  return data as TaskCompletion[] || [];
+}
+
+// Throws when the tasks or their completions cannot be loaded
+async function loadDailyTasks(userId: string): Promise<DiabetesTask[]> {
+  const timeZone = await getUserTimeZone(userId);
+  const today = toDayKey(new Date(), timeZone);
+
+  const [{ data, error }, completions] = await Promise.all([
+    (supabase.from('diabetes_tasks') as any)
       .select('*')
       .eq('user_id', userId)
-      .order('time', { ascending: true });
+      .is('archived_at', null)
+      .order('time', { ascending: true }),
+    getTaskCompletions(userId, STREAK_LOOKBACK_DAYS)
+  ]);
 
-    if (error) throw error;
+  if (error) throw error;
 
-    // Reset daily tasks if it's a new day
-    const tasksToUpdate: DiabetesTask[] = [];
-    const updatedTasks = data?.map((task: DiabetesTask) => { // Explicitly type task
-      const lastCompleted = task.completed_at ? new Date(task.completed_at).toISOString().split('T')[0] : null;
-      const shouldReset = task.frequency === 'daily' && task.completed && lastCompleted !== today;
-      
-      if (shouldReset) {
-        tasksToUpdate.push({ ...task, completed: false, completed_at: null, streak: 0 }); // Reset streak on new day if not completed
-        return { ...task, completed: false, completed_at: null, streak: 0 };
-      }
-      
-      return task;
-    }) || [];
-
-    // Update tasks that need to be reset
-    if (tasksToUpdate.length > 0) {
-      const { error: updateError } = await (supabase.from('diabetes_tasks') as any)
-        .upsert(tasksToUpdate.map(task => ({
-          id: task.id,
-          completed: false,
-          completed_at: null,
-          streak: 0 // Ensure streak is reset in DB
-        })));
-
-      if (updateError) console.error('Error resetting daily tasks:', updateError);
-    }
+  const completionsByTask = groupByTask(completions);
 
-    return updatedTasks;
+  return (data || []).map((task: DiabetesTask) =>
+    withCompletionState(task, completionsByTask.get(task.id) || [], today, timeZone)
+  );
+}
+
+export async function getDailyTasks(userId: string): Promise<DiabetesTask[]> {
+  try {
+    return await loadDailyTasks(userId);
   } catch (error) {
     console.error('Error fetching daily tasks:', error);
     return [];
@@ -186,52 +292,49 @@ export async function getDailyTasks(userId: string): Promise<DiabetesTask[]> {
 
 export async function completeTask(taskId: string): Promise<void> {
   try {
-    const now = new Date().toISOString();
-    const today = now.split('T')[0]; // Define today here
-    
-    // Get current task to update streak
+    const now = new Date();
+
     const { data: currentTask } = await (supabase.from('diabetes_tasks') as any)
-      .select('*')
+      .select('id, user_id, title, frequency, weekdays, interval_days, created_at')
       .eq('id', taskId)
       .single();
 
     if (!currentTask) throw new Error('Task not found');
 
-    let newStreak = currentTask.streak;
-    const lastCompletedDay = currentTask.completed_at ? new Date(currentTask.completed_at).toISOString().split('T')[0] : null;
-
-    if (lastCompletedDay === today) {
-      // Already completed today, no change to streak
-      newStreak = currentTask.streak;
-    } else if (lastCompletedDay) {
-      const yesterday = new Date();
-      yesterday.setDate(yesterday.getDate() - 1);
-      const yesterdayString = yesterday.toISOString().split('T')[0];
-
-      if (lastCompletedDay === yesterdayString) {
-        // Completed yesterday, continue streak
-        newStreak = currentTask.streak + 1;
-      } else {
-        // Not completed yesterday, reset streak
-        newStreak = 1;
-      }
-    } else {
-      // First completion, start streak
-      newStreak = 1;
-    }
-
-    const { error } = await (supabase.from('diabetes_tasks') as any)
-      .update({
-        completed: true,
-        completed_at: now,
-        streak: newStreak
-      })
-      .eq('id', taskId);
+    // The completion counts toward the day it is in the user's time zone
+    const timeZone = await getUserTimeZone(currentTask.user_id);
+    const today = toDayKey(now, timeZone);
+
+    // A second completion on the same day is ignored and returns no row
+    const { data: inserted, error } = await supabase
+      .from('task_completions')
+      .upsert({
+        task_id: taskId,
+        user_id: currentTask.user_id,
+        completed_on: today,
+        completed_at: now.toISOString()
+      }, { onConflict: 'task_id,completed_on', ignoreDuplicates: true })
+      .select('id');
 
     if (error) throw error;
+    if (!inserted || inserted.length === 0) return;
+
+    // The reminders of the completed period are no longer needed
+    await syncTaskReminders(currentTask.user_id);
+
+    const { data: completions, error: completionsError } = await supabase
+      .from('task_completions')
+      .select('completed_on')
+      .eq('task_id', taskId)
+      .gte('completed_on', addDays(today, -(STREAK_LOOKBACK_DAYS - 1)));
+
+    if (completionsError) throw completionsError;
+
+    const recurrence = getTaskRecurrence(currentTask, timeZone);
+    const newStreak = calculateStreak(recurrence, (completions || []).map(c => c.completed_on), today);
 
     // Send congratulatory notification for streaks
-    if (newStreak > 0 && newStreak % 7 === 0) {
+    if (isStreakMilestone(recurrence, newStreak)) {
       if (Platform.OS === 'web') {
         // Skip notifications on web
         return;
@@ -239,7 +342,7 @@ export async function completeTask(taskId: string): Promise<void> {
       await Notifications.scheduleNotificationAsync({
         content: {
           title: '🎉 Streak Achievement!',
-          body: `Congratulations! You've completed "${currentTask.title}" for ${newStreak} days in a row!`,
+          body: `Congratulations! You've completed "${currentTask.title}" ${formatStreak(recurrence, newStreak)}!`,
           sound: 'default',
         },
         trigger: null,
@@ -251,6 +354,7 @@ export async function completeTask(taskId: string): Promise<void> {
   }
 }
 
+// `reading` is in mg/dL; convert readings entered in mmol/L with parseGlucoseInput first
 export async function addBloodSugarReading(
   userId: string,
   reading: number,
@@ -270,14 +374,16 @@ export async function addBloodSugarReading(
     if (error) throw error;
 
     // Check if reading is concerning and send notification
-    if (reading < 70 || reading > 180) {
+    const status = getGlucoseStatus(reading);
+    if (status !== 'normal') {
       if (Platform.OS === 'web') {
         // Skip notifications on web
         return;
       }
-      const message = reading < 70
-        ? 'Your blood sugar is low. Consider having a quick-acting carbohydrate.'
-        : 'Your blood sugar is high. Consider checking with your healthcare provider.';
+      const formatted = formatGlucose(reading, await getGlucoseUnit(userId));
+      const message = status === 'low'
+        ? `Your blood sugar is low (${formatted}). Consider having a quick-acting carbohydrate.`
+        : `Your blood sugar is high (${formatted}). Consider checking with your healthcare provider.`;
 
       await Notifications.scheduleNotificationAsync({
         content: {
@@ -296,8 +402,9 @@ export async function addBloodSugarReading(
 
 export async function getBloodSugarHistory(userId: string, days: number = 90): Promise<BloodSugarReading[]> {
   try {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    // From midnight `days` days ago in the user's time zone
+    const timeZone = await getUserTimeZone(userId);
+    const startDate = startOfDay(addDays(toDayKey(new Date(), timeZone), -days), timeZone);
 
     const { data, error } = await (supabase.from('blood_sugar_readings') as any)
       .select('*')
@@ -313,26 +420,271 @@ export async function getBloodSugarHistory(userId: string, days: number = 90): P
   }
 }
 
-export async function getCompletedTasksHistory(userId: string, days: number = 90): Promise<DiabetesTask[]> {
+export async function getCompletedTasksHistory(userId: string, days: number = ADHERENCE_WINDOW_DAYS): Promise<TaskCompletion[]> {
   try {
-    const startDate = new Date();
-    startDate.setDate(startDate.getDate() - days);
+    const timeZone = await getUserTimeZone(userId);
+    const { data, error } = await supabase
+      .from('task_completions')
+      .select(`
+        id,
+        task_id,
+        user_id,
+        completed_on,
+        completed_at,
+        task:diabetes_tasks (
+          title,
+          type,
+          icon
+        )
+      `)
+      .eq('user_id', userId)
+      .gte('completed_on', addDays(toDayKey(new Date(), timeZone), -(days - 1)))
+      .order('completed_at', { ascending: false });
+
+    if (error) throw error;
+    return data as TaskCompletion[] || [];
+  } catch (error) {
+    console.error('Error fetching completed tasks history:', error);
+    return [];
+  }
+}
+
+export async function getTaskAdherence(userId: string, days: number = ADHERENCE_WINDOW_DAYS): Promise<TaskAdherence[]> {
+  try {
+    const timeZone = await getUserTimeZone(userId);
+    const today = toDayKey(new Date(), timeZone);
+
+    const [{ data, error }, completions] = await Promise.all([
+      (supabase.from('diabetes_tasks') as any)
+        .select('id, title, frequency, weekdays, interval_days, created_at')
+        .eq('user_id', userId)
+        .is('archived_at', null)
+        .order('time', { ascending: true }),
+      getTaskCompletions(userId, days)
+    ]);
+
+    if (error) throw error;
 
+    const completionsByTask = groupByTask(completions);
+
+    return (data || []).map((task: DiabetesTask) => ({
+      task_id: task.id,
+      title: task.title,
+      ...calculateAdherence(
+        getTaskRecurrence(task, timeZone),
+        (completionsByTask.get(task.id) || []).map(completion => completion.completed_on),
+        today,
+        days
+      )
+    }));
+  } catch (error) {
+    console.error('Error fetching task adherence:', error);
+    return [];
+  }
+}
+
+// Throws when the draft cannot be saved, with a message for the user
+export function validateTaskDraft(draft: TaskDraft): void {
+  if (!draft.title.trim()) throw new Error('Please enter a task name');
+  if (!draft.icon) throw new Error('Please choose an icon');
+  if (draft.time && !/^([01]\d|2[0-3]):[0-5]\d$/.test(draft.time)) {
+    throw new Error('Reminder time must be in HH:MM format, e.g. 08:30');
+  }
+  if (draft.frequency === 'weekdays' && (!draft.weekdays || draft.weekdays.length === 0)) {
+    throw new Error('Please choose at least one day of the week');
+  }
+  if (draft.frequency === 'every_n_days' && (!draft.interval_days || draft.interval_days < 2)) {
+    throw new Error('Tasks repeating every few days need an interval of at least 2 days');
+  }
+}
+
+function toTaskRow(draft: TaskDraft) {
+  return {
+    title: draft.title.trim(),
+    description: draft.description.trim(),
+    icon: draft.icon,
+    frequency: draft.frequency,
+    weekdays: draft.frequency === 'weekdays' ? draft.weekdays : null,
+    interval_days: draft.frequency === 'every_n_days' ? draft.interval_days : null,
+    time: draft.time || null
+  };
+}
+
+// Reminders are scheduled on the task owner's device, so edits made by a doctor are picked up
+// the next time the patient opens the dashboard
+async function syncRemindersIfOwner(userId: string): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (user?.id === userId) await syncTaskReminders(userId);
+}
+
+export async function createTask(userId: string, draft: TaskDraft): Promise<void> {
+  validateTaskDraft(draft);
+
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .insert({ ...toTaskRow(draft), user_id: userId, type: 'custom', color: CUSTOM_TASK_COLOR });
+
+  if (error) throw error;
+  await syncTaskReminders(userId);
+}
+
+// Assigns a task to a patient as the signed-in doctor
+export async function assignTask(patientUserId: string, draft: TaskDraft): Promise<void> {
+  validateTaskDraft(draft);
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data: doctor } = await supabase
+    .from('doctors')
+    .select('id')
+    .eq('user_id', user?.id || '')
+    .maybeSingle();
+
+  if (!doctor) throw new Error('Only doctors can assign tasks');
+
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .insert({
+      ...toTaskRow(draft),
+      user_id: patientUserId,
+      type: 'custom',
+      color: CUSTOM_TASK_COLOR,
+      assigned_by: doctor.id
+    });
+
+  if (error) throw error;
+}
+
+export async function getAssignedTasks(patientUserId: string): Promise<DiabetesTask[]> {
+  const { data, error } = await (supabase.from('diabetes_tasks') as any)
+    .select('*')
+    .eq('user_id', patientUserId)
+    .not('assigned_by', 'is', null)
+    .is('archived_at', null)
+    .order('time', { ascending: true });
+
+  if (error) throw error;
+  return data as DiabetesTask[] || [];
+}
+
+export async function getArchivedTasks(userId: string): Promise<DiabetesTask[]> {
+  try {
     const { data, error } = await (supabase.from('diabetes_tasks') as any)
       .select('*')
       .eq('user_id', userId)
-      .eq('completed', true)
-      .gte('completed_at', startDate.toISOString())
-      .order('completed_at', { ascending: false });
+      .not('archived_at', 'is', null)
+      .order('archived_at', { ascending: false });
 
     if (error) throw error;
     return data as DiabetesTask[] || [];
   } catch (error) {
-    console.error('Error fetching completed tasks history:', error);
+    console.error('Error fetching archived tasks:', error);
     return [];
   }
 }
 
+export async function updateTask(task: Pick<DiabetesTask, 'id' | 'user_id'>, draft: TaskDraft): Promise<void> {
+  validateTaskDraft(draft);
+
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .update(toTaskRow(draft))
+    .eq('id', task.id);
+
+  if (error) throw error;
+  await syncRemindersIfOwner(task.user_id);
+}
+
+// Archived tasks keep their completion history and can be restored
+export async function archiveTask(task: Pick<DiabetesTask, 'id' | 'user_id' | 'assigned_by'>): Promise<void> {
+  if (task.assigned_by) throw new Error('Tasks assigned by your doctor cannot be archived');
+
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .update({ archived_at: new Date().toISOString() })
+    .eq('id', task.id);
+
+  if (error) throw error;
+  await syncRemindersIfOwner(task.user_id);
+}
+
+export async function restoreTask(task: Pick<DiabetesTask, 'id' | 'user_id'>): Promise<void> {
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .update({ archived_at: null })
+    .eq('id', task.id);
+
+  if (error) throw error;
+  await syncRemindersIfOwner(task.user_id);
+}
+
+// Deletes the task and its completion history. Patients cannot delete tasks their doctor
+// assigned; doctors can.
+export async function deleteTask(task: Pick<DiabetesTask, 'id' | 'user_id' | 'assigned_by'>): Promise<void> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (task.assigned_by && user?.id === task.user_id) {
+    throw new Error('Tasks assigned by your doctor cannot be deleted');
+  }
+
+  const { error } = await (supabase.from('diabetes_tasks') as any)
+    .delete()
+    .eq('id', task.id);
+
+  if (error) throw error;
+  await syncRemindersIfOwner(task.user_id);
+}
+
+// Reminders are one-off notifications on the upcoming reminder days in the user's time zone, so
+// they follow the profile time zone rather than the device's. Every sync schedules this many
+// days ahead.
+const REMINDER_HORIZON_DAYS = 7;
+
+export function getReminderTriggers(
+  task: Pick<DiabetesTask, 'frequency' | 'weekdays' | 'interval_days' | 'created_at' | 'time' | 'next_due_on'>,
+  timeZone: string,
+  now: Date = new Date()
+): Notifications.DateTriggerInput[] {
+  if (!task.time) return [];
+  const [hour, minute] = task.time.split(':').map(Number);
+  const until = addDays(toDayKey(now, timeZone), REMINDER_HORIZON_DAYS - 1);
+
+  return getReminderDays(getTaskRecurrence(task, timeZone), task.next_due_on, until)
+    .map(day => atLocalTime(day, hour, minute, timeZone))
+    .filter(date => date > now)
+    .map(date => ({ type: Notifications.SchedulableTriggerInputTypes.DATE, date }));
+}
+
+// Replaces the scheduled reminders of all tasks with ones matching the current tasks
+export async function syncTaskReminders(userId: string): Promise<void> {
+  if (Platform.OS === 'web') {
+    // Skip notifications on web
+    return;
+  }
+
+  try {
+    // Loaded before anything is cancelled, so a failed request keeps the current reminders
+    const [tasks, timeZone] = await Promise.all([loadDailyTasks(userId), getUserTimeZone(userId)]);
+
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    for (const notification of scheduled) {
+      if (notification.identifier.startsWith(TASK_REMINDER_PREFIX)) {
+        await Notifications.cancelScheduledNotificationAsync(notification.identifier);
+      }
+    }
+
+    for (const task of tasks) {
+      const triggers = getReminderTriggers(task, timeZone);
+      for (const [index, trigger] of triggers.entries()) {
+        await Notifications.scheduleNotificationAsync({
+          identifier: `${TASK_REMINDER_PREFIX}${task.id}-${index}`,
+          content: {
+            title: `${task.icon} ${task.title}`,
+            body: task.description || 'Time for your diabetes care task',
+            sound: 'default',
+          },
+          trigger,
+        });
+      }
+    }
+  } catch (error) {
+    console.error('Error scheduling task reminders:', error);
+  }
+}
+
 export async function addMedicationReminder(
   userId: string,
   medicationName: string,
@@ -435,6 +787,7 @@ export function getHealthTips(riskCategory?: string): string[] {
   return shuffled.slice(0, 4);
 }
 
+// Estimated A1C in %; a1cToMmolPerMol in lib/glucose.ts gives the IFCC value in mmol/mol
 export function calculateA1CEstimate(readings: BloodSugarReading[]): number {
   if (readings.length === 0) return 0;
   
@@ -0,0 +1,100 @@
+import { supabase } from './supabase';
+import { fromCanonicalValue, toCanonicalValue } from './units';
+
+// Blood sugar readings are stored in mg/dL and converted to the user's unit for entry and display
+
+export type GlucoseUnit = 'mg/dL' | 'mmol/L';
+
+export const GLUCOSE_UNITS: GlucoseUnit[] = ['mg/dL', 'mmol/L'];
+
+export const DEFAULT_GLUCOSE_UNIT: GlucoseUnit = 'mg/dL';
+
+// Thresholds for low and high blood sugar alerts, in mg/dL
+export const LOW_GLUCOSE_MG_DL = 70;
+export const HIGH_GLUCOSE_MG_DL = 180;
+
+// Readings outside this range (mg/dL) are rejected as typing mistakes
+const MIN_READING_MG_DL = 20;
+const MAX_READING_MG_DL = 600;
+
+const GLUCOSE_DECIMALS: Record<GlucoseUnit, number> = {
+  'mg/dL': 0,
+  'mmol/L': 1
+};
+
+// IFCC units from the NGSP percentage: mmol/mol = (% - 2.15) × 10.929
+const IFCC_PER_NGSP_PERCENT = 10.929;
+const IFCC_NGSP_OFFSET = 2.15;
+
+const userGlucoseUnits = new Map<string, GlucoseUnit>();
+
+export function isGlucoseUnit(value: any): value is GlucoseUnit {
+  return GLUCOSE_UNITS.includes(value);
+}
+
+export function toMgDl(value: number, unit: GlucoseUnit): number {
+  return toCanonicalValue([value], unit);
+}
+
+export function fromMgDl(mgdl: number, unit: GlucoseUnit): number {
+  return fromCanonicalValue(mgdl, unit, GLUCOSE_DECIMALS[unit])[0];
+}
+
+// e.g. "126 mg/dL" or "7.0 mmol/L"
+export function formatGlucose(mgdl: number, unit: GlucoseUnit, { withUnit = true }: { withUnit?: boolean } = {}): string {
+  const value = fromMgDl(mgdl, unit).toFixed(GLUCOSE_DECIMALS[unit]);
+  return withUnit ? `${value} ${unit}` : value;
+}
+
+export function getGlucoseStatus(mgdl: number): 'low' | 'high' | 'normal' {
+  if (mgdl < LOW_GLUCOSE_MG_DL) return 'low';
+  if (mgdl > HIGH_GLUCOSE_MG_DL) return 'high';
+  return 'normal';
+}
+
+// Parses a reading typed in `unit` into mg/dL. Throws with a message for the user when the
+// input is not a plausible reading.
+export function parseGlucoseInput(input: string, unit: GlucoseUnit): number {
+  const value = parseFloat(input.replace(',', '.'));
+  const mgdl = isNaN(value) ? NaN : toMgDl(value, unit);
+
+  if (isNaN(mgdl) || mgdl < MIN_READING_MG_DL || mgdl > MAX_READING_MG_DL) {
+    const min = formatGlucose(MIN_READING_MG_DL, unit, { withUnit: false });
+    throw new Error(`Please enter a valid blood sugar reading between ${min}-${formatGlucose(MAX_READING_MG_DL, unit)}`);
+  }
+  return mgdl;
+}
+
+export function a1cToMmolPerMol(percent: number): number {
+  return Math.round((percent - IFCC_NGSP_OFFSET) * IFCC_PER_NGSP_PERCENT);
+}
+
+export async function getGlucoseUnit(userId: string): Promise<GlucoseUnit> {
+  const cached = userGlucoseUnits.get(userId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('glucose_unit')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading glucose unit:', error);
+    return DEFAULT_GLUCOSE_UNIT;
+  }
+
+  const unit = isGlucoseUnit(data?.glucose_unit) ? data.glucose_unit : DEFAULT_GLUCOSE_UNIT;
+  userGlucoseUnits.set(userId, unit);
+  return unit;
+}
+
+export async function saveGlucoseUnit(userId: string, unit: GlucoseUnit): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ glucose_unit: unit })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  userGlucoseUnits.set(userId, unit);
+}
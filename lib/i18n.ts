@@ -29,6 +29,14 @@ export interface TranslationKeys {
   'assessment.start': string;
   'assessment.progress': string;
   'assessment.complete': string;
+  'assessment.resume.title': string;
+  'assessment.resume.message': string;
+  'assessment.resume.startOver': string;
+  'assessment.resume.resume': string;
+  'assessment.review.title': string;
+  'assessment.review.description': string;
+  'assessment.review.edit': string;
+  'assessment.review.submit': string;
 
   // Risk levels
   'risk.low': string;
@@ -50,6 +58,172 @@ export interface TranslationKeys {
   'location.nearby.clinics': string;
   'location.nearby.pharmacies': string;
   'location.nearby.markets': string;
+
+  // Questionnaire
+  'questionnaire.title': string;
+  'questionnaire.description': string;
+  'questionnaire.welcome.text': string;
+  'questionnaire.welcome.description': string;
+  'questionnaire.welcome.option.start': string;
+  'questionnaire.age.text': string;
+  'questionnaire.age.description': string;
+  'questionnaire.age.validation.range': string;
+  'questionnaire.gender.text': string;
+  'questionnaire.gender.option.male': string;
+  'questionnaire.gender.option.female': string;
+  'questionnaire.gender.option.other': string;
+  'questionnaire.gender.option.prefer-not-to-say': string;
+  'questionnaire.weight.text': string;
+  'questionnaire.weight.description': string;
+  'questionnaire.height.text': string;
+  'questionnaire.height.description': string;
+  'questionnaire.blood-pressure.text': string;
+  'questionnaire.blood-pressure.description': string;
+  'questionnaire.diet_quality.text': string;
+  'questionnaire.diet_quality.description': string;
+  'questionnaire.location.text': string;
+  'questionnaire.location.option.urban': string;
+  'questionnaire.location.option.rural': string;
+  'questionnaire.family-history.text': string;
+  'questionnaire.family-history.description': string;
+  'questionnaire.family-history.option.yes': string;
+  'questionnaire.family-history.option.no': string;
+  'questionnaire.family-history.option.unknown': string;
+  'questionnaire.family-details.text': string;
+  'questionnaire.family-details.description': string;
+  'questionnaire.family-details.option.parent': string;
+  'questionnaire.family-details.option.sibling': string;
+  'questionnaire.family-details.option.grandparent': string;
+  'questionnaire.family-details.option.other': string;
+  'questionnaire.activity-level.text': string;
+  'questionnaire.activity-level.description': string;
+  'questionnaire.activity-level.option.sedentary': string;
+  'questionnaire.activity-level.option.light': string;
+  'questionnaire.activity-level.option.moderate': string;
+  'questionnaire.activity-level.option.active': string;
+  'questionnaire.sedentary-details.text': string;
+  'questionnaire.sedentary-details.description': string;
+  'questionnaire.sedentary-details.option.time': string;
+  'questionnaire.sedentary-details.option.motivation': string;
+  'questionnaire.sedentary-details.option.health': string;
+  'questionnaire.sedentary-details.option.facilities': string;
+  'questionnaire.sedentary-details.option.knowledge': string;
+  'questionnaire.sedentary-details.option.other': string;
+  'questionnaire.diet-habits.text': string;
+  'questionnaire.diet-habits.description': string;
+  'questionnaire.diet-habits.option.poor': string;
+  'questionnaire.diet-habits.option.fair': string;
+  'questionnaire.diet-habits.option.good': string;
+  'questionnaire.diet-habits.option.excellent': string;
+  'questionnaire.diet-challenges.text': string;
+  'questionnaire.diet-challenges.description': string;
+  'questionnaire.diet-challenges.option.cost': string;
+  'questionnaire.diet-challenges.option.time': string;
+  'questionnaire.diet-challenges.option.availability': string;
+  'questionnaire.diet-challenges.option.taste': string;
+  'questionnaire.diet-challenges.option.knowledge': string;
+  'questionnaire.diet-challenges.option.family': string;
+  'questionnaire.symptoms.text': string;
+  'questionnaire.symptoms.description': string;
+  'questionnaire.symptoms.option.frequent-urination': string;
+  'questionnaire.symptoms.option.excessive-thirst': string;
+  'questionnaire.symptoms.option.weight-loss': string;
+  'questionnaire.symptoms.option.fatigue': string;
+  'questionnaire.symptoms.option.blurred-vision': string;
+  'questionnaire.symptoms.option.slow-healing': string;
+  'questionnaire.symptoms.option.infections': string;
+  'questionnaire.symptoms.option.none': string;
+  'questionnaire.glucose-history.text': string;
+  'questionnaire.glucose-history.description': string;
+  'questionnaire.glucose-history.details': string;
+  'questionnaire.last-checkup.text': string;
+  'questionnaire.last-checkup.description': string;
+  'questionnaire.medications.text': string;
+  'questionnaire.medications.description': string;
+  'questionnaire.medications.field.name': string;
+  'questionnaire.medications.field.dose': string;
+  'questionnaire.smoking.text': string;
+  'questionnaire.smoking.option.never': string;
+  'questionnaire.smoking.option.former': string;
+  'questionnaire.smoking.option.current': string;
+  'questionnaire.alcohol.text': string;
+  'questionnaire.alcohol.option.never': string;
+  'questionnaire.alcohol.option.rarely': string;
+  'questionnaire.alcohol.option.occasionally': string;
+  'questionnaire.alcohol.option.regularly': string;
+  'questionnaire.alcohol.option.daily': string;
+  'questionnaire.stress-level.text': string;
+  'questionnaire.stress-level.description': string;
+  'questionnaire.sleep-quality.text': string;
+  'questionnaire.sleep-quality.description': string;
+  'questionnaire.sleep-quality.option.excellent': string;
+  'questionnaire.sleep-quality.option.good': string;
+  'questionnaire.sleep-quality.option.fair': string;
+  'questionnaire.sleep-quality.option.poor': string;
+  'questionnaire.completion.text': string;
+  'questionnaire.completion.description': string;
+  'questionnaire.completion.option.finish': string;
+  'questionnaire.validation.required': string;
+  'questionnaire.validation.number': string;
+  'questionnaire.validation.min': string;
+  'questionnaire.validation.max': string;
+  'questionnaire.validation.unknownOption': string;
+  'questionnaire.validation.exclusiveOption': string;
+  'questionnaire.validation.minSelections': string;
+  'questionnaire.validation.maxSelections': string;
+  'questionnaire.validation.date': string;
+  'questionnaire.validation.dateMin': string;
+  'questionnaire.validation.dateMax': string;
+  'questionnaire.validation.dateFuture': string;
+  'questionnaire.validation.bloodPressure': string;
+  'questionnaire.validation.systolicRange': string;
+  'questionnaire.validation.diastolicRange': string;
+  'questionnaire.validation.bloodPressureOrder': string;
+  'questionnaire.validation.minItems': string;
+  'questionnaire.validation.maxItems': string;
+  'questionnaire.validation.groupFieldRequired': string;
+  'questionnaire.validation.groupFieldNumber': string;
+  'questionnaire.validation.details': string;
+  'questionnaire.input.skip': string;
+  'questionnaire.input.addItem': string;
+  'questionnaire.input.remove': string;
+  'questionnaire.input.systolic': string;
+  'questionnaire.input.diastolic': string;
+  'questionnaire.input.year': string;
+  'questionnaire.input.month': string;
+  'questionnaire.input.day': string;
+  'questionnaire.input.outOf': string;
+  'questionnaire.input.low': string;
+  'questionnaire.input.high': string;
+
+  // Recommendations
+  'recommendation.critical-consultation': string;
+  'recommendation.critical-glucose-monitoring': string;
+  'recommendation.high-risk-dietitian': string;
+  'recommendation.symptoms-evaluation': string;
+  'recommendation.smoking-cessation': string;
+  'recommendation.family-history-screening': string;
+  'recommendation.blood-pressure': string;
+  'recommendation.activity-sedentary-start': string;
+  'recommendation.activity-sedentary-group': string;
+  'recommendation.activity-light-increase': string;
+  'recommendation.weight-loss': string;
+  'recommendation.diet-whole-foods': string;
+  'recommendation.diet-portion-control': string;
+  'recommendation.diet-fiber': string;
+  'recommendation.stress-management': string;
+  'recommendation.sleep': string;
+  'recommendation.rural-health-center': string;
+  'recommendation.urban-resources': string;
+  'recommendation.hydration': string;
+
+  // Chat
+  'chat.system.sender': string;
+  'chat.system.riskRescored': string;
+  'chat.system.carePlanAdded': string;
+  'chat.system.carePlanEdited': string;
+  'chat.system.carePlanRetired': string;
+  'chat.system.carePlanReordered': string;
 }
 
 const translations: Record<Language, TranslationKeys> = {
@@ -80,6 +254,14 @@ const translations: Record<Language, TranslationKeys> = {
     'assessment.start': 'Start Assessment',
     'assessment.progress': 'Progress',
     'assessment.complete': 'Assessment Complete',
+    'assessment.resume.title': 'Resume assessment?',
+    'assessment.resume.message': 'You have an unfinished assessment from {date}. Would you like to pick up where you left off?',
+    'assessment.resume.startOver': 'Start Over',
+    'assessment.resume.resume': 'Resume',
+    'assessment.review.title': 'Review your answers',
+    'assessment.review.description': 'Tap any answer to change it before submitting.',
+    'assessment.review.edit': 'Edit',
+    'assessment.review.submit': 'Submit Assessment',
 
     // Risk levels
     'risk.low': 'Low Risk',
@@ -101,6 +283,172 @@ const translations: Record<Language, TranslationKeys> = {
     'location.nearby.clinics': 'Nearby Clinics',
     'location.nearby.pharmacies': 'Nearby Pharmacies',
     'location.nearby.markets': 'Nearby Markets',
+
+    // Questionnaire
+    'questionnaire.title': 'Smart Health Assessment',
+    'questionnaire.description': 'A personalized questionnaire that adapts to your responses',
+    'questionnaire.welcome.text': 'Welcome to your health assessment! 🌟',
+    'questionnaire.welcome.description': 'This smart questionnaire will adapt based on your answers to give you the most relevant experience.',
+    'questionnaire.welcome.option.start': 'Let\'s begin!',
+    'questionnaire.age.text': 'What is your age?',
+    'questionnaire.age.description': 'This helps us understand your risk factors',
+    'questionnaire.age.validation.range': 'Please enter a valid age',
+    'questionnaire.gender.text': 'What is your gender?',
+    'questionnaire.gender.option.male': 'Male',
+    'questionnaire.gender.option.female': 'Female',
+    'questionnaire.gender.option.other': 'Other',
+    'questionnaire.gender.option.prefer-not-to-say': 'Prefer not to say',
+    'questionnaire.weight.text': 'What is your weight?',
+    'questionnaire.weight.description': 'Enter your weight in kilograms, pounds or stones',
+    'questionnaire.height.text': 'What is your height?',
+    'questionnaire.height.description': 'Enter your height in centimeters or feet and inches',
+    'questionnaire.blood-pressure.text': 'What is your blood pressure?',
+    'questionnaire.blood-pressure.description': 'Enter both numbers from your latest reading, e.g. 120 over 80',
+    'questionnaire.diet_quality.text': 'How would you rate the quality of your diet?',
+    'questionnaire.diet_quality.description': '1 is poor, 10 is excellent',
+    'questionnaire.location.text': 'Do you live in an urban or rural area?',
+    'questionnaire.location.option.urban': 'Urban',
+    'questionnaire.location.option.rural': 'Rural',
+    'questionnaire.family-history.text': 'Do you have a family history of diabetes?',
+    'questionnaire.family-history.description': 'This includes parents, siblings, or grandparents',
+    'questionnaire.family-history.option.yes': 'Yes',
+    'questionnaire.family-history.option.no': 'No',
+    'questionnaire.family-history.option.unknown': 'I don\'t know',
+    'questionnaire.family-details.text': 'Which family members have diabetes?',
+    'questionnaire.family-details.description': 'Select all that apply',
+    'questionnaire.family-details.option.parent': 'Parent(s)',
+    'questionnaire.family-details.option.sibling': 'Sibling(s)',
+    'questionnaire.family-details.option.grandparent': 'Grandparent(s)',
+    'questionnaire.family-details.option.other': 'Other relative',
+    'questionnaire.activity-level.text': 'How would you describe your physical activity level?',
+    'questionnaire.activity-level.description': 'Think about your typical week',
+    'questionnaire.activity-level.option.sedentary': '🪑 Sedentary - Mostly sitting',
+    'questionnaire.activity-level.option.light': '🚶 Light - Some walking',
+    'questionnaire.activity-level.option.moderate': '🏃 Moderate - Regular exercise',
+    'questionnaire.activity-level.option.active': '💪 Very Active - Intense exercise',
+    'questionnaire.sedentary-details.text': 'What keeps you from being more active?',
+    'questionnaire.sedentary-details.description': 'Understanding barriers helps us provide better recommendations',
+    'questionnaire.sedentary-details.option.time': 'Lack of time',
+    'questionnaire.sedentary-details.option.motivation': 'Lack of motivation',
+    'questionnaire.sedentary-details.option.health': 'Health issues',
+    'questionnaire.sedentary-details.option.facilities': 'No access to facilities',
+    'questionnaire.sedentary-details.option.knowledge': 'Don\'t know how to start',
+    'questionnaire.sedentary-details.option.other': 'Other reasons',
+    'questionnaire.diet-habits.text': 'How would you rate your eating habits?',
+    'questionnaire.diet-habits.description': 'Be honest - this helps us help you better!',
+    'questionnaire.diet-habits.option.poor': '🍟 Poor - Mostly processed foods',
+    'questionnaire.diet-habits.option.fair': '🥪 Fair - Mix of healthy and unhealthy',
+    'questionnaire.diet-habits.option.good': '🥗 Good - Mostly healthy foods',
+    'questionnaire.diet-habits.option.excellent': '🌱 Excellent - Very healthy diet',
+    'questionnaire.diet-challenges.text': 'What makes healthy eating challenging for you?',
+    'questionnaire.diet-challenges.description': 'Select all that apply',
+    'questionnaire.diet-challenges.option.cost': 'Cost of healthy foods',
+    'questionnaire.diet-challenges.option.time': 'Time to prepare meals',
+    'questionnaire.diet-challenges.option.availability': 'Limited healthy options nearby',
+    'questionnaire.diet-challenges.option.taste': 'Preference for certain foods',
+    'questionnaire.diet-challenges.option.knowledge': 'Don\'t know what\'s healthy',
+    'questionnaire.diet-challenges.option.family': 'Family food preferences',
+    'questionnaire.symptoms.text': 'Have you experienced any of these symptoms recently?',
+    'questionnaire.symptoms.description': 'Select all that apply (or none if you haven\'t)',
+    'questionnaire.symptoms.option.frequent-urination': '🚽 Frequent urination',
+    'questionnaire.symptoms.option.excessive-thirst': '💧 Excessive thirst',
+    'questionnaire.symptoms.option.weight-loss': '⚖️ Unexplained weight loss',
+    'questionnaire.symptoms.option.fatigue': '😴 Unusual fatigue',
+    'questionnaire.symptoms.option.blurred-vision': '👁️ Blurred vision',
+    'questionnaire.symptoms.option.slow-healing': '🩹 Slow healing wounds',
+    'questionnaire.symptoms.option.infections': '🦠 Frequent infections',
+    'questionnaire.symptoms.option.none': '✅ None of the above',
+    'questionnaire.glucose-history.text': 'Has a health worker ever told you that your blood sugar was high?',
+    'questionnaire.glucose-history.description': 'Including during pregnancy',
+    'questionnaire.glucose-history.details': 'When and where was it measured?',
+    'questionnaire.last-checkup.text': 'When was your last medical checkup?',
+    'questionnaire.last-checkup.description': 'Skip this if you don\'t remember',
+    'questionnaire.medications.text': 'Which medications do you currently take?',
+    'questionnaire.medications.description': 'Add each medication with its dose, or continue if you take none',
+    'questionnaire.medications.field.name': 'Medication name',
+    'questionnaire.medications.field.dose': 'Dose (e.g. 500 mg twice a day)',
+    'questionnaire.smoking.text': 'What is your smoking status?',
+    'questionnaire.smoking.option.never': '🚭 Never smoked',
+    'questionnaire.smoking.option.former': '🚫 Former smoker',
+    'questionnaire.smoking.option.current': '🚬 Current smoker',
+    'questionnaire.alcohol.text': 'How often do you consume alcohol?',
+    'questionnaire.alcohol.option.never': 'Never',
+    'questionnaire.alcohol.option.rarely': 'Rarely (few times a year)',
+    'questionnaire.alcohol.option.occasionally': 'Occasionally (few times a month)',
+    'questionnaire.alcohol.option.regularly': 'Regularly (weekly)',
+    'questionnaire.alcohol.option.daily': 'Daily',
+    'questionnaire.stress-level.text': 'How would you rate your stress level?',
+    'questionnaire.stress-level.description': 'Stress can affect blood sugar levels',
+    'questionnaire.sleep-quality.text': 'How is your sleep quality?',
+    'questionnaire.sleep-quality.description': 'Poor sleep can increase diabetes risk',
+    'questionnaire.sleep-quality.option.excellent': '😴 Excellent (7-9 hours, restful)',
+    'questionnaire.sleep-quality.option.good': '😊 Good (6-8 hours, mostly restful)',
+    'questionnaire.sleep-quality.option.fair': '😐 Fair (5-7 hours, sometimes restful)',
+    'questionnaire.sleep-quality.option.poor': '😵 Poor (less than 5 hours or restless)',
+    'questionnaire.completion.text': 'Great job completing the assessment! 🎉',
+    'questionnaire.completion.description': 'Your personalized risk assessment and recommendations are being generated.',
+    'questionnaire.completion.option.finish': 'View My Results',
+    'questionnaire.validation.required': 'This question is required',
+    'questionnaire.validation.number': 'Please enter a valid number',
+    'questionnaire.validation.min': 'Value must be at least {min}',
+    'questionnaire.validation.max': 'Value must be at most {max}',
+    'questionnaire.validation.unknownOption': 'Please choose from the listed options',
+    'questionnaire.validation.exclusiveOption': '"{option}" cannot be combined with other answers',
+    'questionnaire.validation.minSelections': 'Select at least {count} options',
+    'questionnaire.validation.maxSelections': 'Select no more than {count} options',
+    'questionnaire.validation.date': 'Please enter a valid date',
+    'questionnaire.validation.dateMin': 'Date must be on or after {date}',
+    'questionnaire.validation.dateMax': 'Date must be on or before {date}',
+    'questionnaire.validation.dateFuture': 'Date cannot be in the future',
+    'questionnaire.validation.bloodPressure': 'Please enter both blood pressure numbers',
+    'questionnaire.validation.systolicRange': 'Systolic pressure must be between {min} and {max} mmHg',
+    'questionnaire.validation.diastolicRange': 'Diastolic pressure must be between {min} and {max} mmHg',
+    'questionnaire.validation.bloodPressureOrder': 'Systolic pressure must be higher than diastolic pressure',
+    'questionnaire.validation.minItems': 'Add at least {count} items',
+    'questionnaire.validation.maxItems': 'Add no more than {count} items',
+    'questionnaire.validation.groupFieldRequired': '{field} is required for item {item}',
+    'questionnaire.validation.groupFieldNumber': '{field} must be a number for item {item}',
+    'questionnaire.validation.details': 'Please add some details',
+    'questionnaire.input.skip': 'Skip',
+    'questionnaire.input.addItem': 'Add another',
+    'questionnaire.input.remove': 'Remove',
+    'questionnaire.input.systolic': 'Systolic (top)',
+    'questionnaire.input.diastolic': 'Diastolic (bottom)',
+    'questionnaire.input.year': 'Year',
+    'questionnaire.input.month': 'Month',
+    'questionnaire.input.day': 'Day',
+    'questionnaire.input.outOf': 'out of {max}',
+    'questionnaire.input.low': 'Low',
+    'questionnaire.input.high': 'High',
+
+    // Recommendations
+    'recommendation.critical-consultation': 'Schedule an immediate consultation with a healthcare provider for comprehensive diabetes screening and blood glucose testing.',
+    'recommendation.critical-glucose-monitoring': 'Monitor your blood sugar levels daily and keep a food diary to track glucose responses to different meals.',
+    'recommendation.high-risk-dietitian': 'Consult with a registered dietitian to create a personalized meal plan focused on blood sugar management.',
+    'recommendation.symptoms-evaluation': 'You reported several symptoms that may be related to blood sugar issues. Schedule an appointment with your healthcare provider for proper evaluation.',
+    'recommendation.smoking-cessation': 'Consider quitting smoking as it significantly increases diabetes risk and complications. Speak with your healthcare provider about smoking cessation programs.',
+    'recommendation.family-history-screening': 'Given your family history of diabetes, maintain regular health screenings including annual blood glucose tests and HbA1c monitoring.',
+    'recommendation.blood-pressure': 'Your blood pressure is above the healthy range. Reduce salt, limit alcohol and have it checked regularly by your healthcare provider.',
+    'recommendation.activity-sedentary-start': 'Start with 10-minute walks after meals and gradually increase to 150 minutes of moderate exercise per week. Even small increases in activity can significantly reduce diabetes risk.',
+    'recommendation.activity-sedentary-group': 'Consider joining a local walking group or fitness class to make exercise more enjoyable and sustainable.',
+    'recommendation.activity-light-increase': 'Increase your physical activity to include both cardio and strength training exercises. Aim for at least 150 minutes of moderate activity weekly.',
+    'recommendation.weight-loss': 'Work towards achieving a healthy weight through a combination of balanced nutrition and regular physical activity. Even a 5-10% weight loss can significantly reduce diabetes risk.',
+    'recommendation.diet-whole-foods': 'Focus on whole foods: vegetables, lean proteins, whole grains, and healthy fats. Limit processed foods, sugary drinks, and refined carbohydrates.',
+    'recommendation.diet-portion-control': 'Practice portion control by using smaller plates and eating slowly. This helps with weight management and blood sugar control.',
+    'recommendation.diet-fiber': 'Include more fiber-rich foods like beans, lentils, and vegetables in your diet. Fiber helps slow sugar absorption and improves blood glucose control.',
+    'recommendation.stress-management': 'Practice stress management techniques such as meditation, deep breathing, or yoga. Chronic stress can affect blood sugar levels and increase diabetes risk.',
+    'recommendation.sleep': 'Prioritize getting 7-9 hours of quality sleep each night. Poor sleep can affect insulin sensitivity and blood sugar regulation.',
+    'recommendation.rural-health-center': 'Connect with your local health center for regular check-ups and consider telemedicine options for ongoing diabetes prevention support.',
+    'recommendation.urban-resources': 'Take advantage of local resources such as community health centers, fitness facilities, and farmers markets for fresh produce.',
+    'recommendation.hydration': 'Stay hydrated by drinking plenty of water throughout the day. Proper hydration supports healthy blood sugar levels and overall metabolic function.',
+
+    // Chat
+    'chat.system.sender': 'Automatic update',
+    'chat.system.riskRescored': 'The risk assessment was re-scored by the AI service once it was available again. Risk category changed from {from} to {to}.',
+    'chat.system.carePlanAdded': 'Your care plan was updated: new recommendation "{content}"',
+    'chat.system.carePlanEdited': 'Your care plan was updated: recommendation changed to "{content}"',
+    'chat.system.carePlanRetired': 'Your care plan was updated: recommendation "{content}" was removed',
+    'chat.system.carePlanReordered': 'Your care plan was updated: the order of your recommendations changed',
   },
   rw: {
     // Common
@@ -129,6 +477,14 @@ const translations: Record<Language, TranslationKeys> = {
     'assessment.start': 'Tangira Isuzuma',
     'assessment.progress': 'Aho bigeze',
     'assessment.complete': 'Isuzuma ryarangiye',
+    'assessment.resume.title': 'Ukomeze isuzuma?',
+    'assessment.resume.message': 'Ufite isuzuma utarangije guhera ku wa {date}. Urashaka gukomereza aho wari ugeze?',
+    'assessment.resume.startOver': 'Tangira bushya',
+    'assessment.resume.resume': 'Komeza',
+    'assessment.review.title': 'Suzuma ibisubizo byawe',
+    'assessment.review.description': 'Kanda ku gisubizo icyo ari cyo cyose kugira ngo ugihindure mbere yo kohereza.',
+    'assessment.review.edit': 'Hindura',
+    'assessment.review.submit': 'Ohereza Isuzuma',
 
     // Risk levels
     'risk.low': 'Ingaruka nke',
@@ -150,6 +506,172 @@ const translations: Record<Language, TranslationKeys> = {
     'location.nearby.clinics': 'Ivuriro biri hafi',
     'location.nearby.pharmacies': 'Amaduka y\'imiti ari hafi',
     'location.nearby.markets': 'Amasoko ari hafi',
+
+    // Questionnaire
+    'questionnaire.title': 'Isuzuma ry\'ubuzima rifite ubwenge',
+    'questionnaire.description': 'Ibibazo bigenewe wowe bihinduka bitewe n\'ibisubizo byawe',
+    'questionnaire.welcome.text': 'Murakaza neza ku isuzuma ry\'ubuzima bwawe! 🌟',
+    'questionnaire.welcome.description': 'Ibi bibazo bizahinduka bitewe n\'ibisubizo byawe kugira ngo tuguhe ibikureba kurusha ibindi.',
+    'questionnaire.welcome.option.start': 'Reka dutangire!',
+    'questionnaire.age.text': 'Ufite imyaka ingahe?',
+    'questionnaire.age.description': 'Ibi bidufasha gusobanukirwa ibyago ufite',
+    'questionnaire.age.validation.range': 'Andika imyaka yawe neza',
+    'questionnaire.gender.text': 'Uri igitsina ki?',
+    'questionnaire.gender.option.male': 'Gabo',
+    'questionnaire.gender.option.female': 'Gore',
+    'questionnaire.gender.option.other': 'Ikindi',
+    'questionnaire.gender.option.prefer-not-to-say': 'Sinshaka kubivuga',
+    'questionnaire.weight.text': 'Ufite ibiro bingahe?',
+    'questionnaire.weight.description': 'Andika ibiro byawe muri kilogarama, pawundi cyangwa sitoni',
+    'questionnaire.height.text': 'Ufite uburebure bungahe?',
+    'questionnaire.height.description': 'Andika uburebure bwawe muri santimetero cyangwa fite na inshi',
+    'questionnaire.blood-pressure.text': 'Umuvuduko w\'amaraso wawe ni uwuhe?',
+    'questionnaire.blood-pressure.description': 'Andika imibare yombi yo ku ipimo ryawe riheruka, urugero 120 kuri 80',
+    'questionnaire.diet_quality.text': 'Ireme ry\'imirire yawe uriha amanota angahe?',
+    'questionnaire.diet_quality.description': '1 ni mibi cyane, 10 ni myiza cyane',
+    'questionnaire.location.text': 'Utuye mu mujyi cyangwa mu cyaro?',
+    'questionnaire.location.option.urban': 'Mu mujyi',
+    'questionnaire.location.option.rural': 'Mu cyaro',
+    'questionnaire.family-history.text': 'Hari umuntu wo mu muryango wawe urwaye diyabete?',
+    'questionnaire.family-history.description': 'Harimo ababyeyi, abavandimwe, cyangwa ba sogokuru na ba nyogokuru',
+    'questionnaire.family-history.option.yes': 'Yego',
+    'questionnaire.family-history.option.no': 'Oya',
+    'questionnaire.family-history.option.unknown': 'Simbizi',
+    'questionnaire.family-details.text': 'Ni bande mu muryango bafite diyabete?',
+    'questionnaire.family-details.description': 'Hitamo ibikureba byose',
+    'questionnaire.family-details.option.parent': 'Ababyeyi',
+    'questionnaire.family-details.option.sibling': 'Abavandimwe',
+    'questionnaire.family-details.option.grandparent': 'Ba sogokuru cyangwa ba nyogokuru',
+    'questionnaire.family-details.option.other': 'Undi wo mu muryango',
+    'questionnaire.activity-level.text': 'Ukora imyitozo ngororamubiri ku rugero rungana iki?',
+    'questionnaire.activity-level.description': 'Tekereza ku cyumweru gisanzwe',
+    'questionnaire.activity-level.option.sedentary': '🪑 Gake cyane - Nicara igihe kinini',
+    'questionnaire.activity-level.option.light': '🚶 Gake - Ngenda n\'amaguru rimwe na rimwe',
+    'questionnaire.activity-level.option.moderate': '🏃 Hagati - Nkora imyitozo buri gihe',
+    'questionnaire.activity-level.option.active': '💪 Cyane - Nkora imyitozo ikomeye',
+    'questionnaire.sedentary-details.text': 'Ni iki kikubuza gukora imyitozo ngororamubiri kurushaho?',
+    'questionnaire.sedentary-details.description': 'Kumenya inzitizi bidufasha kuguha inama nziza',
+    'questionnaire.sedentary-details.option.time': 'Kubura umwanya',
+    'questionnaire.sedentary-details.option.motivation': 'Kubura ubushake',
+    'questionnaire.sedentary-details.option.health': 'Ibibazo by\'ubuzima',
+    'questionnaire.sedentary-details.option.facilities': 'Nta hantu ho gukorera imyitozo',
+    'questionnaire.sedentary-details.option.knowledge': 'Sinzi aho natangirira',
+    'questionnaire.sedentary-details.option.other': 'Izindi mpamvu',
+    'questionnaire.diet-habits.text': 'Imirire yawe uyibona ite?',
+    'questionnaire.diet-habits.description': 'Vugisha ukuri - ibi bidufasha kugufasha neza!',
+    'questionnaire.diet-habits.option.poor': '🍟 Mibi - Ahanini ibiryo byatunganyirijwe mu nganda',
+    'questionnaire.diet-habits.option.fair': '🥪 Iringaniye - Ibiryo byiza n\'ibitari byiza bivanze',
+    'questionnaire.diet-habits.option.good': '🥗 Myiza - Ahanini ibiryo bifitiye ubuzima akamaro',
+    'questionnaire.diet-habits.option.excellent': '🌱 Myiza cyane - Indyo yuzuye rwose',
+    'questionnaire.diet-challenges.text': 'Ni iki kikugora mu kurya indyo yuzuye?',
+    'questionnaire.diet-challenges.description': 'Hitamo ibikureba byose',
+    'questionnaire.diet-challenges.option.cost': 'Igiciro cy\'ibiryo byiza',
+    'questionnaire.diet-challenges.option.time': 'Igihe cyo gutegura amafunguro',
+    'questionnaire.diet-challenges.option.availability': 'Ibiryo byiza ntibiboneka hafi',
+    'questionnaire.diet-challenges.option.taste': 'Nkunda ibiryo bimwe na bimwe',
+    'questionnaire.diet-challenges.option.knowledge': 'Sinzi ibiryo bifite akamaro',
+    'questionnaire.diet-challenges.option.family': 'Ibyo umuryango ukunda kurya',
+    'questionnaire.symptoms.text': 'Hari muri ibi bimenyetso wagize vuba aha?',
+    'questionnaire.symptoms.description': 'Hitamo ibikureba byose (cyangwa nta na kimwe niba ntabyo)',
+    'questionnaire.symptoms.option.frequent-urination': '🚽 Kunyara kenshi',
+    'questionnaire.symptoms.option.excessive-thirst': '💧 Inyota ikabije',
+    'questionnaire.symptoms.option.weight-loss': '⚖️ Gutakaza ibiro nta mpamvu',
+    'questionnaire.symptoms.option.fatigue': '😴 Umunaniro udasanzwe',
+    'questionnaire.symptoms.option.blurred-vision': '👁️ Kutabona neza',
+    'questionnaire.symptoms.option.slow-healing': '🩹 Ibisebe bitinda gukira',
+    'questionnaire.symptoms.option.infections': '🦠 Kwandura indwara kenshi',
+    'questionnaire.symptoms.option.none': '✅ Nta na kimwe muri ibi',
+    'questionnaire.glucose-history.text': 'Hari umukozi w\'ubuzima wigeze akubwira ko isukari yo mu maraso yawe iri hejuru?',
+    'questionnaire.glucose-history.description': 'Harimo no mu gihe cyo gutwita',
+    'questionnaire.glucose-history.details': 'Byapimwe ryari kandi hehe?',
+    'questionnaire.last-checkup.text': 'Ni ryari uheruka kwisuzumisha kwa muganga?',
+    'questionnaire.last-checkup.description': 'Simbuka iki kibazo niba utabyibuka',
+    'questionnaire.medications.text': 'Ni iyihe miti ufata ubu?',
+    'questionnaire.medications.description': 'Ongeraho buri muti n\'urugero uwufatamo, cyangwa ukomeze niba nta muti ufata',
+    'questionnaire.medications.field.name': 'Izina ry\'umuti',
+    'questionnaire.medications.field.dose': 'Urugero (nka mg 500 kabiri ku munsi)',
+    'questionnaire.smoking.text': 'Unywa itabi?',
+    'questionnaire.smoking.option.never': '🚭 Sinigeze nywa itabi',
+    'questionnaire.smoking.option.former': '🚫 Naretse itabi',
+    'questionnaire.smoking.option.current': '🚬 Nywa itabi',
+    'questionnaire.alcohol.text': 'Unywa inzoga kangahe?',
+    'questionnaire.alcohol.option.never': 'Sinywa inzoga',
+    'questionnaire.alcohol.option.rarely': 'Gake cyane (inshuro nke mu mwaka)',
+    'questionnaire.alcohol.option.occasionally': 'Rimwe na rimwe (inshuro nke mu kwezi)',
+    'questionnaire.alcohol.option.regularly': 'Kenshi (buri cyumweru)',
+    'questionnaire.alcohol.option.daily': 'Buri munsi',
+    'questionnaire.stress-level.text': 'Urwego rw\'umuhangayiko wawe uruha amanota angahe?',
+    'questionnaire.stress-level.description': 'Umuhangayiko ushobora kugira ingaruka ku isukari mu maraso',
+    'questionnaire.sleep-quality.text': 'Ibitotsi byawe bimeze bite?',
+    'questionnaire.sleep-quality.description': 'Kudasinzira neza bishobora kongera ibyago byo kurwara diyabete',
+    'questionnaire.sleep-quality.option.excellent': '😴 Byiza cyane (amasaha 7-9, nsinzira neza)',
+    'questionnaire.sleep-quality.option.good': '😊 Byiza (amasaha 6-8, ahanini nsinzira neza)',
+    'questionnaire.sleep-quality.option.fair': '😐 Biringaniye (amasaha 5-7, rimwe na rimwe nsinzira neza)',
+    'questionnaire.sleep-quality.option.poor': '😵 Bibi (munsi y\'amasaha 5 cyangwa sinsinzira neza)',
+    'questionnaire.completion.text': 'Wakoze neza kurangiza isuzuma! 🎉',
+    'questionnaire.completion.description': 'Isuzuma ry\'ibyago byawe n\'inama zikugenewe birimo gutegurwa.',
+    'questionnaire.completion.option.finish': 'Reba ibisubizo byanjye',
+    'questionnaire.validation.required': 'Iki kibazo kigomba gusubizwa',
+    'questionnaire.validation.number': 'Andika umubare wemewe',
+    'questionnaire.validation.min': 'Agaciro kagomba kuba nibura {min}',
+    'questionnaire.validation.max': 'Agaciro ntikagomba kurenza {max}',
+    'questionnaire.validation.unknownOption': 'Hitamo mu bisubizo byatanzwe',
+    'questionnaire.validation.exclusiveOption': '"{option}" ntishobora guhurizwa hamwe n\'ibindi bisubizo',
+    'questionnaire.validation.minSelections': 'Hitamo nibura ibisubizo {count}',
+    'questionnaire.validation.maxSelections': 'Ntuhitemo ibisubizo birenze {count}',
+    'questionnaire.validation.date': 'Andika itariki yemewe',
+    'questionnaire.validation.dateMin': 'Itariki igomba kuba {date} cyangwa nyuma yaho',
+    'questionnaire.validation.dateMax': 'Itariki igomba kuba {date} cyangwa mbere yaho',
+    'questionnaire.validation.dateFuture': 'Itariki ntishobora kuba iri imbere',
+    'questionnaire.validation.bloodPressure': 'Andika imibare yombi y\'umuvuduko w\'amaraso',
+    'questionnaire.validation.systolicRange': 'Umuvuduko wo hejuru ugomba kuba hagati ya {min} na {max} mmHg',
+    'questionnaire.validation.diastolicRange': 'Umuvuduko wo hasi ugomba kuba hagati ya {min} na {max} mmHg',
+    'questionnaire.validation.bloodPressureOrder': 'Umuvuduko wo hejuru ugomba kuruta uwo hasi',
+    'questionnaire.validation.minItems': 'Ongeraho nibura ibintu {count}',
+    'questionnaire.validation.maxItems': 'Ntukongereho ibirenze {count}',
+    'questionnaire.validation.groupFieldRequired': '{field} irakenewe ku kintu cya {item}',
+    'questionnaire.validation.groupFieldNumber': '{field} igomba kuba umubare ku kintu cya {item}',
+    'questionnaire.validation.details': 'Ongeraho ibisobanuro',
+    'questionnaire.input.skip': 'Simbuka',
+    'questionnaire.input.addItem': 'Ongeraho ikindi',
+    'questionnaire.input.remove': 'Kuraho',
+    'questionnaire.input.systolic': 'Uwo hejuru',
+    'questionnaire.input.diastolic': 'Uwo hasi',
+    'questionnaire.input.year': 'Umwaka',
+    'questionnaire.input.month': 'Ukwezi',
+    'questionnaire.input.day': 'Umunsi',
+    'questionnaire.input.outOf': 'kuri {max}',
+    'questionnaire.input.low': 'Hasi',
+    'questionnaire.input.high': 'Hejuru',
+
+    // Recommendations
+    'recommendation.critical-consultation': 'Fata gahunda yihuse yo kubonana n\'umuganga kugira ngo usuzumwe diyabete mu buryo bwuzuye kandi upimwe isukari mu maraso.',
+    'recommendation.critical-glucose-monitoring': 'Pima isukari mu maraso buri munsi kandi wandike ibyo urya kugira ngo umenye uko isukari ihinduka nyuma y\'amafunguro atandukanye.',
+    'recommendation.high-risk-dietitian': 'Ganira n\'inzobere mu mirire yemewe kugira ngo mugushyirireho gahunda y\'amafunguro yawe igamije kugenzura isukari mu maraso.',
+    'recommendation.symptoms-evaluation': 'Wagaragaje ibimenyetso byinshi bishobora kuba bifitanye isano n\'ikibazo cy\'isukari mu maraso. Fata gahunda yo kubonana n\'umuganga kugira ngo agusuzume neza.',
+    'recommendation.smoking-cessation': 'Tekereza kureka itabi kuko ryongera cyane ibyago bya diyabete n\'ingaruka zayo. Baza umuganga ibijyanye na gahunda zifasha kureka itabi.',
+    'recommendation.family-history-screening': 'Kubera ko mu muryango wawe harimo abarwaye diyabete, jya wisuzumisha buri gihe, harimo gupima isukari mu maraso na HbA1c buri mwaka.',
+    'recommendation.blood-pressure': 'Umuvuduko w\'amaraso yawe uri hejuru y\'urugero rwiza. Gabanya umunyu, ugabanye inzoga kandi ujye usuzumisha umuvuduko w\'amaraso kwa muganga buri gihe.',
+    'recommendation.activity-sedentary-start': 'Tangira ugenda n\'amaguru iminota 10 nyuma yo kurya, hanyuma wongere buhoro buhoro ugere ku minota 150 y\'imyitozo iringaniye mu cyumweru. No kongera imyitozo gake bigabanya cyane ibyago bya diyabete.',
+    'recommendation.activity-sedentary-group': 'Tekereza kwinjira mu itsinda ry\'abagenda n\'amaguru cyangwa mu isomo ry\'imyitozo hafi yawe kugira ngo imyitozo ikunezeze kandi uyikomeze.',
+    'recommendation.activity-light-increase': 'Ongera imyitozo ngororamubiri ushyiremo iy\'umutima n\'iyo gukomeza imitsi. Gerageza kugera nibura ku minota 150 y\'imyitozo iringaniye mu cyumweru.',
+    'recommendation.weight-loss': 'Harira kugira ibiro bikwiye ufatanya imirire iboneye n\'imyitozo ngororamubiri ya buri gihe. No gutakaza 5-10% by\'ibiro byawe bigabanya cyane ibyago bya diyabete.',
+    'recommendation.diet-whole-foods': 'Ibanda ku biribwa by\'umwimerere: imboga, poroteyine zidafite ibinure byinshi, ibinyampeke byuzuye n\'amavuta meza. Gabanya ibiribwa byatunganyijwe mu nganda, ibinyobwa birimo isukari n\'ibinyamasukari byatunganyijwe.',
+    'recommendation.diet-portion-control': 'Gabanya ingano y\'ibyo urya ukoresheje amasahani mato kandi urye buhoro. Ibi bifasha kugenzura ibiro n\'isukari mu maraso.',
+    'recommendation.diet-fiber': 'Ongera mu mafunguro yawe ibiribwa bikungahaye kuri fibre nk\'ibishyimbo, inkori n\'imboga. Fibre ituma isukari yinjira mu maraso buhoro kandi ifasha kugenzura isukari.',
+    'recommendation.stress-management': 'Koresha uburyo bwo kugabanya umunaniro w\'ubwonko nko gutekereza utuje, guhumeka cyane cyangwa yoga. Umunaniro uhoraho ushobora kuzamura isukari mu maraso no kongera ibyago bya diyabete.',
+    'recommendation.sleep': 'Shyira imbere gusinzira neza amasaha 7-9 buri joro. Kudasinzira neza bigira ingaruka ku mikorere ya insuline no ku igenzura ry\'isukari mu maraso.',
+    'recommendation.rural-health-center': 'Egera ikigo nderabuzima kiri hafi yawe kugira ngo ujye usuzumwa buri gihe, kandi utekereze no ku buvuzi bwo kure bugufasha gukomeza kwirinda diyabete.',
+    'recommendation.urban-resources': 'Koresha ibikorwa remezo biri hafi yawe nk\'ibigo nderabuzima, ahakorerwa imyitozo ngororamubiri n\'amasoko y\'abahinzi ubonamo imboga n\'imbuto bishya.',
+    'recommendation.hydration': 'Nywa amazi ahagije umunsi wose. Kunywa amazi ahagije bifasha isukari mu maraso kuguma ku rugero rwiza n\'imikorere myiza y\'umubiri muri rusange.',
+
+    // Chat
+    'chat.system.sender': 'Ubutumwa bwikora',
+    'chat.system.riskRescored': 'Isuzuma ry\'ibyago ryongeye kubarwa na serivisi ya AI imaze kongera kuboneka. Icyiciro cy\'ibyago cyavuye kuri {from} kijya kuri {to}.',
+    'chat.system.carePlanAdded': 'Gahunda yawe yo kwivuza yahinduwe: inama nshya "{content}"',
+    'chat.system.carePlanEdited': 'Gahunda yawe yo kwivuza yahinduwe: inama yahinduwe iba "{content}"',
+    'chat.system.carePlanRetired': 'Gahunda yawe yo kwivuza yahinduwe: inama "{content}" yakuweho',
+    'chat.system.carePlanReordered': 'Gahunda yawe yo kwivuza yahinduwe: uko inama zawe zikurikirana byahindutse',
   }
 };
 
@@ -173,8 +695,37 @@ export function setLanguage(language: Language): void {
   currentLanguage = language;
 }
 
-export function t(key: keyof TranslationKeys): string {
-  return translations[currentLanguage][key] || translations['en'][key] || key;
+export type TranslationParams = Record<string, string | number>;
+
+function interpolate(text: string, params?: TranslationParams): string {
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+}
+
+export function t(key: keyof TranslationKeys, params?: TranslationParams): string {
+  return interpolate(translations[currentLanguage][key] || translations['en'][key] || key, params);
+}
+
+export function isTranslationKey(key: string): key is keyof TranslationKeys {
+  return key in translations.en;
+}
+
+// Content loaded at runtime, such as questionnaire flows from Supabase, may use
+// translation keys or literal text; literal text is shown as-is
+export function translateText(text: string, params?: TranslationParams): string {
+  return isTranslationKey(text) ? t(text, params) : interpolate(text, params);
+}
+
+export function findMissingTranslations(keys: string[]): { key: string; language: Language }[] {
+  const missing: { key: string; language: Language }[] = [];
+  keys.forEach(key => {
+    (Object.keys(translations) as Language[]).forEach(language => {
+      if (!isTranslationKey(key) || !translations[language][key]?.trim()) {
+        missing.push({ key, language });
+      }
+    });
+  });
+  return missing;
 }
 
 export function getAvailableLanguages(): { code: Language; name: string; nativeName: string }[] {
@@ -0,0 +1,182 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { RISK_CATEGORY_BANDS, type SimulatedRiskPrediction } from './assessment-simulation';
+import { buildDiabetesInput, type DiabetesInput } from './prediction-client';
+import { AI_ENGINE_OFFLINE_MODEL_ID, registerRiskModel, type RiskModel } from './risk-models';
+
+// JSON written by ai_engine/export_model.py and served by GET /model-export
+export interface ExportedRiskModel {
+  format: 'glucogard-linear-v1';
+  model_version: string;
+  source_model: string;
+  feature_columns: string[];
+  bmi_bins: number[];
+  age_bins: number[];
+  scaler: { mean: number[]; scale: number[] };
+  classes: number[];
+  // Softmax over all classes, otherwise one-vs-rest sigmoids normalized to sum to 1
+  multinomial: boolean;
+  coefficients: number[][];
+  intercepts: number[];
+  // Inputs and the probabilities the Python model produced for them
+  parity_fixtures: { input: DiabetesInput; probabilities: number[] }[];
+}
+
+export interface ParityMismatch {
+  fixture: number;
+  expected: number[];
+  actual: number[];
+}
+
+const MODEL_CACHE_KEY = 'offlineRiskModel';
+const PARITY_TOLERANCE = 1e-6;
+
+// pandas.cut with right-closed bins and labels 0..n-1; values outside every bin,
+// including the lowest edge itself, become -1 like the service's fillna(-1)
+function binValue(value: number, bins: number[]): number {
+  for (let i = 1; i < bins.length; i++) {
+    if (value > bins[i - 1] && value <= bins[i]) return i - 1;
+  }
+  return -1;
+}
+
+export function buildFeatureVector(model: ExportedRiskModel, input: DiabetesInput): number[] {
+  const features: Record<string, number> = {
+    ...input,
+    bmi_category: binValue(input.bmi, model.bmi_bins),
+    age_group: binValue(input.age, model.age_bins),
+  };
+
+  return model.feature_columns.map((column, i) => {
+    const scale = model.scaler.scale[i] || 1;
+    return (features[column] - model.scaler.mean[i]) / scale;
+  });
+}
+
+// Class probabilities in the order of model.classes, as predict_proba returns them
+export function evaluateExportedModel(model: ExportedRiskModel, input: DiabetesInput): number[] {
+  const x = buildFeatureVector(model, input);
+  const logits = model.coefficients.map(
+    (row, c) => row.reduce((sum, weight, j) => sum + weight * x[j], model.intercepts[c])
+  );
+
+  if (model.multinomial) {
+    const maxLogit = Math.max(...logits);
+    const exps = logits.map(logit => Math.exp(logit - maxLogit));
+    const total = exps.reduce((sum, e) => sum + e, 0);
+    return exps.map(e => e / total);
+  }
+
+  const sigmoids = logits.map(logit => 1 / (1 + Math.exp(-logit)));
+  const total = sigmoids.reduce((sum, s) => sum + s, 0);
+  return sigmoids.map(s => s / total);
+}
+
+export function checkModelParity(model: ExportedRiskModel): ParityMismatch[] {
+  return model.parity_fixtures.flatMap((fixture, index) => {
+    const actual = evaluateExportedModel(model, fixture.input);
+    const matches = actual.length === fixture.probabilities.length &&
+      actual.every((p, i) => Math.abs(p - fixture.probabilities[i]) <= PARITY_TOLERANCE);
+    return matches ? [] : [{ fixture: index, expected: fixture.probabilities, actual }];
+  });
+}
+
+function isExportedRiskModel(data: any): data is ExportedRiskModel {
+  if (!data || data.format !== 'glucogard-linear-v1' || !Array.isArray(data.feature_columns)) return false;
+
+  const featureCount = data.feature_columns.length;
+  const classCount = data.classes?.length;
+  const isNumbers = (values: any, length: number) =>
+    Array.isArray(values) && values.length === length && values.every((v: any) => typeof v === 'number');
+
+  return typeof data.model_version === 'string' &&
+    isNumbers(data.scaler?.mean, featureCount) &&
+    isNumbers(data.scaler?.scale, featureCount) &&
+    isNumbers(data.intercepts, classCount) &&
+    Array.isArray(data.coefficients) &&
+    data.coefficients.length === classCount &&
+    data.coefficients.every((row: any) => isNumbers(row, featureCount)) &&
+    data.classes.every((c: any) => Number.isInteger(c) && c >= 0 && c < RISK_CATEGORY_BANDS.length) &&
+    Array.isArray(data.parity_fixtures);
+}
+
+function toPrediction(model: ExportedRiskModel, classProbabilities: number[]): SimulatedRiskPrediction {
+  const probabilities = RISK_CATEGORY_BANDS.reduce((probs, band) => {
+    probs[band.label] = 0;
+    return probs;
+  }, {} as SimulatedRiskPrediction['probabilities']);
+  model.classes.forEach((level, i) => {
+    probabilities[RISK_CATEGORY_BANDS[level].label] = classProbabilities[i];
+  });
+
+  const top = classProbabilities.indexOf(Math.max(...classProbabilities));
+  const riskLevel = model.classes[top];
+  // Expected risk level on a 0-100 scale
+  const expectedLevel = model.classes.reduce((sum, level, i) => sum + level * classProbabilities[i], 0);
+
+  return {
+    risk_category: RISK_CATEGORY_BANDS[riskLevel].category,
+    risk_level: riskLevel,
+    probabilities,
+    risk_score: Math.round((expectedLevel / (RISK_CATEGORY_BANDS.length - 1)) * 100),
+    max_score: 100,
+    contributing_factors: []
+  };
+}
+
+export function createOfflineRiskModel(exported: ExportedRiskModel): RiskModel {
+  return {
+    id: AI_ENGINE_OFFLINE_MODEL_ID,
+    version: exported.model_version,
+    name: 'GlucoGard AI (offline)',
+    description: 'The AI service model evaluated on-device from exported coefficients',
+    predict: answers => toPrediction(exported, evaluateExportedModel(exported, buildDiabetesInput(answers)))
+  };
+}
+
+// Registers the model only if it reproduces the Python model's outputs
+function activateModel(data: any): boolean {
+  if (!isExportedRiskModel(data)) {
+    console.warn('Exported risk model has an unexpected format');
+    return false;
+  }
+
+  const mismatches = checkModelParity(data);
+  if (mismatches.length > 0) {
+    console.warn('Exported risk model does not match the service outputs:', mismatches);
+    return false;
+  }
+
+  registerRiskModel(createOfflineRiskModel(data));
+  return true;
+}
+
+export async function loadCachedRiskModel(): Promise<boolean> {
+  try {
+    const stored = await AsyncStorage.getItem(MODEL_CACHE_KEY);
+    return stored ? activateModel(JSON.parse(stored)) : false;
+  } catch (error) {
+    console.error('Error loading cached risk model:', error);
+    return false;
+  }
+}
+
+// Downloads the current model while the service is reachable so it can be used offline later
+export async function refreshOfflineRiskModel(
+  apiUrl: string = process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8000'
+): Promise<boolean> {
+  try {
+    const response = await fetch(`${apiUrl}/model-export`, { signal: AbortSignal.timeout(10000) });
+    if (!response.ok) {
+      throw new Error(`API responded with status: ${response.status}`);
+    }
+
+    const exported = await response.json();
+    if (!activateModel(exported)) return false;
+
+    await AsyncStorage.setItem(MODEL_CACHE_KEY, JSON.stringify(exported));
+    return true;
+  } catch (error) {
+    console.warn('Could not refresh offline risk model:', error);
+    return false;
+  }
+}
@@ -0,0 +1,187 @@
+import { RISK_CATEGORY_BANDS, type SimulatedRiskPrediction } from './assessment-simulation';
+import { getBmi, getSystolicBp } from './questionnaire';
+import {
+  AI_ENGINE_MODEL_ID,
+  getLocalRiskModel,
+  getSelectedRiskModelId,
+  runRiskModel,
+  type RiskPrediction
+} from './risk-models';
+
+// Request body of /predict-risk, mirroring DiabetesInput in ai_engine/main.py
+export interface DiabetesInput {
+  age: number;
+  bmi: number;
+  weight: number;
+  height: number;
+  systolic_bp: number;
+  family_history: number;
+  physical_activity: number;
+  diet_quality: number;
+  location: number;
+  smoking: number;
+}
+
+// Response body of /predict-risk
+export type ApiRiskPrediction = Pick<SimulatedRiskPrediction, 'risk_category' | 'risk_level' | 'probabilities'>;
+
+export interface PredictionClientOptions {
+  apiUrl?: string;
+  // Attempts after the first one, for network errors, timeouts and 5xx/429 responses
+  retries?: number;
+  // Delay before the first retry, doubled for every further one
+  backoffMs?: number;
+  timeoutMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<PredictionClientOptions> = {
+  apiUrl: process.env.EXPO_PUBLIC_API_URL || 'http://localhost:8000',
+  retries: 2,
+  backoffMs: 1000,
+  timeoutMs: 10000,
+};
+
+const PROBABILITY_SUM_TOLERANCE = 0.01;
+
+export function buildDiabetesInput(answers: Record<string, any>): DiabetesInput {
+  return {
+    age: answers.age || 0,
+    bmi: getBmi(answers) ?? 0,
+    weight: answers.weight || 0,
+    height: answers.height || 0,
+    systolic_bp: getSystolicBp(answers) || 0,
+    family_history: answers['family-history'] === 'yes' ? 1 : 0,
+    physical_activity: ['sedentary', 'light', 'moderate', 'active'].indexOf(answers['activity-level'] || 'sedentary'),
+    diet_quality: answers.diet_quality || 5,
+    location: answers.location === 'urban' ? 1 : 0,
+    smoking: ['never', 'former', 'current'].indexOf(answers.smoking || 'never'),
+  };
+}
+
+// Checks a /predict-risk response and returns only the fields the app relies on.
+// Throws with the first problem found, so a broken service is never persisted as a result.
+export function parsePredictionResponse(data: any): ApiRiskPrediction {
+  if (!data || typeof data !== 'object') {
+    throw new Error('Prediction response is not an object');
+  }
+
+  const level = RISK_CATEGORY_BANDS.findIndex(band => band.category === data.risk_category);
+  if (level === -1) {
+    throw new Error(`Unknown risk category in prediction response: ${data.risk_category}`);
+  }
+  if (data.risk_level !== level) {
+    throw new Error(`Risk level ${data.risk_level} does not match risk category ${data.risk_category}`);
+  }
+
+  const probabilities = {} as ApiRiskPrediction['probabilities'];
+  for (const band of RISK_CATEGORY_BANDS) {
+    const probability = data.probabilities?.[band.label];
+    if (typeof probability !== 'number' || !(probability >= 0 && probability <= 1)) {
+      throw new Error(`Invalid probability for ${band.label} in prediction response`);
+    }
+    probabilities[band.label] = probability;
+  }
+
+  const total = Object.values(probabilities).reduce((sum, p) => sum + p, 0);
+  if (Math.abs(total - 1) > PROBABILITY_SUM_TOLERANCE) {
+    throw new Error(`Prediction probabilities sum to ${total.toFixed(3)} instead of 1`);
+  }
+
+  return { risk_category: data.risk_category, risk_level: level, probabilities };
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+export async function fetchRiskPrediction(
+  input: DiabetesInput,
+  options: PredictionClientOptions = {}
+): Promise<ApiRiskPrediction> {
+  const { apiUrl, retries, backoffMs, timeoutMs } = { ...DEFAULT_OPTIONS, ...options };
+  let lastError: unknown = null;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      await wait(backoffMs * 2 ** (attempt - 1));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${apiUrl}/predict-risk`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input),
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (error) {
+      lastError = error;
+      continue;
+    }
+
+    if (!response.ok) {
+      lastError = new Error(`API responded with status: ${response.status}`);
+      if (isRetryableStatus(response.status)) continue;
+      break;
+    }
+
+    // An invalid response is not retried: the service would answer the same way again
+    return parsePredictionResponse(await response.json());
+  }
+
+  throw lastError;
+}
+
+// Scores the answers with the AI service, without falling back to an on-device model
+export async function fetchApiRiskPrediction(
+  answers: Record<string, any>,
+  options: PredictionClientOptions = {}
+): Promise<RiskPrediction> {
+  const result = await fetchRiskPrediction(buildDiabetesInput(answers), options);
+
+  // The service returns class probabilities only; the score is the expected risk level
+  // on a 0-100 scale, as for its offline copy, and no per-factor breakdown is available
+  const expectedLevel = RISK_CATEGORY_BANDS.reduce(
+    (sum, band, level) => sum + level * result.probabilities[band.label], 0
+  );
+  return {
+    ...result,
+    risk_score: Math.round((expectedLevel / (RISK_CATEGORY_BANDS.length - 1)) * 100),
+    max_score: 100,
+    contributing_factors: [],
+    model_id: AI_ENGINE_MODEL_ID,
+    model_version: null,
+    source: 'api'
+  };
+}
+
+// Scores the answers with the AI service, or on-device when another model is selected
+// or the service cannot be reached
+export async function getRiskPrediction(
+  answers: Record<string, any>,
+  options: PredictionClientOptions = {}
+): Promise<RiskPrediction> {
+  // Deployments can score with an on-device model such as FINDRISC instead of the AI service
+  if (getSelectedRiskModelId() !== AI_ENGINE_MODEL_ID) {
+    return runRiskModel(getLocalRiskModel(), answers);
+  }
+
+  try {
+    return await fetchApiRiskPrediction(answers, options);
+  } catch (error) {
+    console.warn('AI service unavailable, using an on-device prediction:', error);
+    return runRiskModel(getLocalRiskModel(), answers);
+  }
+}
+
+// A simulated prediction is re-scored later only when it stands in for the AI service,
+// not when the deployment deliberately scores with an on-device model
+export function needsRescoring(prediction: RiskPrediction): boolean {
+  return prediction.source === 'simulation' && getSelectedRiskModelId() === AI_ENGINE_MODEL_ID;
+}
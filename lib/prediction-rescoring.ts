@@ -0,0 +1,130 @@
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { sendContextualNotification } from './notifications';
+import { fetchApiRiskPrediction } from './prediction-client';
+import { RISK_CATEGORY_BANDS } from './assessment-simulation';
+import { migrateAnswers } from './questionnaire';
+import type { RiskPrediction } from './risk-models';
+import type { Json } from '@/types/database';
+
+export const RESCORING_TASK_NAME = 'rescore-simulated-predictions';
+
+// Background fetch runs at most this often; the OS may wait longer
+const RESCORING_INTERVAL_SECONDS = 15 * 60;
+
+export interface RescoredPrediction {
+  predictionId: string;
+  previousCategory: string;
+  category: string;
+  revision: number;
+}
+
+function getCategoryLabel(category: string): string {
+  return RISK_CATEGORY_BANDS.find(band => band.category === category)?.label || category;
+}
+
+// Re-submits the current user's predictions that were simulated during an AI service
+// outage. Stops at the first failed request, leaving the rest queued for the next run.
+export async function rescoreQueuedPredictions(): Promise<RescoredPrediction[]> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  const { data: queued, error } = await supabase
+    .from('risk_predictions')
+    .select(`
+      id,
+      risk_category,
+      health_submissions!inner (
+        answers,
+        questionnaire_version,
+        patients!inner (user_id)
+      )
+    `)
+    .eq('needs_rescoring', true)
+    .eq('health_submissions.patients.user_id', user.id)
+    .order('generated_at', { ascending: true });
+
+  if (error) throw error;
+
+  const rescored: RescoredPrediction[] = [];
+  for (const queuedPrediction of queued || []) {
+    // Answers from older questionnaire versions are scored in today's shape
+    const submission = queuedPrediction.health_submissions;
+    const answers = migrateAnswers(submission.answers as Record<string, any>, submission.questionnaire_version);
+
+    let prediction: RiskPrediction;
+    try {
+      prediction = await fetchApiRiskPrediction(answers, { retries: 0 });
+    } catch (error) {
+      console.warn('AI service still unavailable, keeping predictions queued:', error);
+      break;
+    }
+
+    const { data: revision, error: revisionError } = await supabase.rpc('revise_risk_prediction', {
+      p_prediction_id: queuedPrediction.id,
+      p_risk_score: prediction.risk_level,
+      p_risk_category: prediction.risk_category,
+      p_raw_prediction: prediction as unknown as Json,
+      p_model_id: prediction.model_id,
+      p_model_version: prediction.model_version,
+      p_source: prediction.source
+    });
+
+    if (revisionError) throw revisionError;
+
+    rescored.push({
+      predictionId: queuedPrediction.id,
+      previousCategory: queuedPrediction.risk_category,
+      category: prediction.risk_category,
+      revision
+    });
+
+    // The doctor is told through a chat message posted by revise_risk_prediction
+    if (queuedPrediction.risk_category !== prediction.risk_category) {
+      await sendContextualNotification(
+        'Risk Assessment Updated',
+        `Your assessment was re-checked by the AI service: ${getCategoryLabel(queuedPrediction.risk_category)} is now ${getCategoryLabel(prediction.risk_category)}.`,
+        { predictionId: queuedPrediction.id }
+      );
+    }
+  }
+
+  return rescored;
+}
+
+// Task definitions must run when the JS bundle loads, so this stays at module level
+TaskManager.defineTask(RESCORING_TASK_NAME, async () => {
+  try {
+    const rescored = await rescoreQueuedPredictions();
+    return rescored.length > 0
+      ? BackgroundFetch.BackgroundFetchResult.NewData
+      : BackgroundFetch.BackgroundFetchResult.NoData;
+  } catch (error) {
+    console.error('Error re-scoring predictions:', error);
+    return BackgroundFetch.BackgroundFetchResult.Failed;
+  }
+});
+
+export async function registerRescoringTask(): Promise<void> {
+  if (Platform.OS === 'web') return;
+
+  try {
+    const status = await BackgroundFetch.getStatusAsync();
+    if (status !== BackgroundFetch.BackgroundFetchStatus.Available) {
+      console.warn('Background fetch is not available, simulated predictions will not be re-scored');
+      return;
+    }
+
+    if (await TaskManager.isTaskRegisteredAsync(RESCORING_TASK_NAME)) return;
+
+    await BackgroundFetch.registerTaskAsync(RESCORING_TASK_NAME, {
+      minimumInterval: RESCORING_INTERVAL_SECONDS,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+  } catch (error) {
+    console.error('Error registering re-scoring task:', error);
+  }
+}
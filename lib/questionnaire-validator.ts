@@ -0,0 +1,287 @@
+import { findMissingTranslations } from './i18n';
+import type { Question, QuestionnaireFlow, RuleExpression, RuleOperand } from './questionnaire';
+
+export interface FlowValidationIssue {
+  type:
+    | 'duplicate-id'
+    | 'missing-start'
+    | 'dangling-reference'
+    | 'unreachable'
+    | 'cycle'
+    | 'dead-end'
+    | 'unanswered-reference'
+    | 'skippable-required'
+    | 'missing-translation';
+  severity: 'error' | 'warning';
+  questionId: string;
+  message: string;
+}
+
+export function collectAnswerReferences(expression: RuleExpression, refs: Set<string> = new Set()): Set<string> {
+  const addOperand = (operand: RuleOperand) => {
+    if (operand !== null && typeof operand === 'object' && !Array.isArray(operand) && 'answer' in operand) {
+      refs.add(operand.answer);
+    }
+  };
+
+  switch (expression.op) {
+    case 'and':
+    case 'or':
+      expression.args.forEach(arg => collectAnswerReferences(arg, refs));
+      break;
+    case 'not':
+      collectAnswerReferences(expression.arg, refs);
+      break;
+    case 'answered':
+      refs.add(expression.question);
+      break;
+    default:
+      addOperand(expression.left);
+      addOperand(expression.right);
+  }
+
+  return refs;
+}
+
+// Mirrors getNextQuestion: the first later question whose condition may pass, including
+// every conditional question before it, since conditions are only known at runtime.
+function getLinearSuccessors(flow: QuestionnaireFlow, index: number): string[] {
+  const successors: string[] = [];
+  for (let i = index + 1; i < flow.questions.length; i++) {
+    successors.push(flow.questions[i].id);
+    if (!flow.questions[i].condition) break;
+  }
+  return successors;
+}
+
+// All questions that getNextQuestion can return after answering the given question
+export function getPossibleSuccessors(flow: QuestionnaireFlow, questionId: string): string[] {
+  const index = flow.questions.findIndex(q => q.id === questionId);
+  if (index === -1) return [];
+
+  const question = flow.questions[index];
+  const byId = new Map(flow.questions.map(q => [q.id, q]));
+  const successors = new Set<string>();
+  const linear = getLinearSuccessors(flow, index);
+
+  // Multiple-choice and free-form answers are submitted without an option, so they always fall through
+  const branchingOptions = question.type === 'single-choice' ? question.options || [] : [];
+  if (branchingOptions.length === 0) {
+    linear.forEach(id => successors.add(id));
+  }
+
+  branchingOptions.forEach(option => {
+    const targets = [option.nextQuestionId, option.skipToQuestionId]
+      .filter((id): id is string => !!id)
+      .map(id => byId.get(id));
+
+    // An option falls through to linear order unless it points at a question that is always shown
+    const alwaysBranches = targets.some(target => target && !target.condition);
+    targets.forEach(target => target && successors.add(target.id));
+    if (!alwaysBranches) {
+      linear.forEach(id => successors.add(id));
+    }
+  });
+
+  return Array.from(successors);
+}
+
+function isReachable(
+  flow: QuestionnaireFlow,
+  fromId: string,
+  isTarget: (id: string) => boolean,
+  avoidId?: string
+): boolean {
+  if (fromId === avoidId) return false;
+
+  const visited = new Set<string>([fromId]);
+  const queue = [fromId];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (isTarget(id)) return true;
+
+    getPossibleSuccessors(flow, id).forEach(next => {
+      if (next !== avoidId && !visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  return false;
+}
+
+function findCycles(flow: QuestionnaireFlow): string[][] {
+  const cycles: string[][] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    getPossibleSuccessors(flow, id).forEach(next => {
+      if (state.get(next) === 'visiting') {
+        cycles.push([...stack.slice(stack.indexOf(next)), next]);
+      } else if (!state.has(next)) {
+        visit(next);
+      }
+    });
+
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  flow.questions.forEach(q => {
+    if (!state.has(q.id)) visit(q.id);
+  });
+
+  return cycles;
+}
+
+function getRuleReferences(question: Question): Set<string> {
+  const refs = new Set<string>();
+  if (question.condition) collectAnswerReferences(question.condition, refs);
+  question.validation?.forEach(v => collectAnswerReferences(v.rule, refs));
+  return refs;
+}
+
+export function validateQuestionnaireFlow(flow: QuestionnaireFlow): FlowValidationIssue[] {
+  const issues: FlowValidationIssue[] = [];
+  const ids = new Set<string>();
+
+  flow.questions.forEach(q => {
+    if (ids.has(q.id)) {
+      issues.push({ type: 'duplicate-id', severity: 'error', questionId: q.id, message: `Question id "${q.id}" is used more than once` });
+    }
+    ids.add(q.id);
+  });
+
+  if (!ids.has(flow.startQuestionId)) {
+    issues.push({
+      type: 'missing-start',
+      severity: 'error',
+      questionId: flow.startQuestionId,
+      message: `Start question "${flow.startQuestionId}" does not exist`
+    });
+    return issues;
+  }
+
+  flow.questions.forEach(q => {
+    q.options?.forEach(option => {
+      [option.nextQuestionId, option.skipToQuestionId].forEach(target => {
+        if (target && !ids.has(target)) {
+          issues.push({
+            type: 'dangling-reference',
+            severity: 'error',
+            questionId: q.id,
+            message: `Option "${option.id}" points at missing question "${target}"`
+          });
+        }
+      });
+    });
+
+    if ((q.type === 'single-choice' || q.type === 'multiple-choice') && !q.options?.length) {
+      issues.push({ type: 'dead-end', severity: 'error', questionId: q.id, message: 'Choice question has no options to answer with' });
+    }
+
+    if (q.type === 'multiple-choice' && q.options?.length && (q.minSelections ?? 0) > q.options.length) {
+      issues.push({
+        type: 'dead-end',
+        severity: 'error',
+        questionId: q.id,
+        message: `Requires ${q.minSelections} selections but only has ${q.options.length} options`
+      });
+    }
+
+    if (q.type === 'repeated-group' && !q.fields?.length) {
+      issues.push({ type: 'dead-end', severity: 'error', questionId: q.id, message: 'Repeated group has no fields to fill in' });
+    }
+  });
+
+  const isTerminal = (id: string) => getPossibleSuccessors(flow, id).length === 0;
+
+  flow.questions.forEach(q => {
+    if (q.id === flow.startQuestionId) return;
+
+    if (!isReachable(flow, flow.startQuestionId, id => id === q.id)) {
+      issues.push({ type: 'unreachable', severity: 'warning', questionId: q.id, message: 'Question cannot be reached from the start question' });
+      return;
+    }
+
+    if (q.required && !q.condition && isReachable(flow, flow.startQuestionId, isTerminal, q.id)) {
+      issues.push({
+        type: 'skippable-required',
+        severity: 'warning',
+        questionId: q.id,
+        message: 'Required question can be bypassed on some paths through the flow'
+      });
+    }
+  });
+
+  flow.questions.forEach(q => {
+    if (!isReachable(flow, q.id, isTerminal)) {
+      issues.push({ type: 'dead-end', severity: 'error', questionId: q.id, message: 'The end of the flow cannot be reached from this question' });
+    }
+  });
+
+  findCycles(flow).forEach(cycle => {
+    issues.push({ type: 'cycle', severity: 'error', questionId: cycle[0], message: `Cycle detected: ${cycle.join(' -> ')}` });
+  });
+
+  flow.questions.forEach(q => {
+    getRuleReferences(q).forEach(ref => {
+      if (!ids.has(ref)) {
+        issues.push({
+          type: 'unanswered-reference',
+          severity: 'error',
+          questionId: q.id,
+          message: `Rule references missing question "${ref}"`
+        });
+      } else if (ref === q.id || isReachable(flow, flow.startQuestionId, id => id === q.id, ref)) {
+        issues.push({
+          type: 'unanswered-reference',
+          severity: 'warning',
+          questionId: q.id,
+          message: `Rule references "${ref}", which may not be answered before this question`
+        });
+      }
+    });
+  });
+
+  return issues;
+}
+
+// Every piece of patient-facing text in the flow, keyed by the question it belongs to
+export function collectFlowStrings(flow: QuestionnaireFlow): { questionId: string; text: string }[] {
+  const strings = [flow.title, flow.description].map(text => ({ questionId: flow.startQuestionId, text }));
+
+  flow.questions.forEach(q => {
+    const texts = [
+      q.text,
+      q.description,
+      q.detailsPrompt,
+      ...(q.options || []).map(o => o.text),
+      ...(q.fields || []).map(f => f.text),
+      ...(q.validation || []).map(v => v.message)
+    ];
+    texts.forEach(text => {
+      if (text) strings.push({ questionId: q.id, text });
+    });
+  });
+
+  return strings;
+}
+
+// Flow text must be translation keys with a translation in every supported language
+export function validateFlowTranslations(flow: QuestionnaireFlow): FlowValidationIssue[] {
+  return collectFlowStrings(flow).flatMap(({ questionId, text }) =>
+    findMissingTranslations([text]).map(({ language }) => ({
+      type: 'missing-translation' as const,
+      severity: 'warning' as const,
+      questionId,
+      message: `"${text}" has no ${language} translation`
+    }))
+  );
+}
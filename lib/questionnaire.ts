@@ -1,110 +1,231 @@
+import { supabase } from './supabase';
+import { collectAnswerReferences, validateFlowTranslations, validateQuestionnaireFlow } from './questionnaire-validator';
+import { t, translateText } from './i18n';
+import { UNITS, toCanonicalValue, type UnitId } from './units';
+
+// Operands in a rule expression. `{ answer }` reads another question's answer (or one `field`
+// of a compound answer), `{ current: true }` reads the value being validated, anything else is a literal.
+export type RuleOperand =
+  | { answer: string; field?: string }
+  | { current: true }
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number | boolean>;
+
+// JSON-serializable expression used for question conditions and validation rules
+export type RuleExpression =
+  | { op: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte'; left: RuleOperand; right: RuleOperand }
+  | { op: 'in' | 'not-in'; left: RuleOperand; right: RuleOperand }
+  | { op: 'includes'; left: RuleOperand; right: RuleOperand }
+  | { op: 'answered'; question: string }
+  | { op: 'and' | 'or'; args: RuleExpression[] }
+  | { op: 'not'; arg: RuleExpression };
+
+export interface ValidationRule {
+  // The answer is valid when this expression evaluates to true
+  rule: RuleExpression;
+  message: string;
+}
+
 export interface QuestionOption {
   id: string;
   text: string;
   value: any;
   nextQuestionId?: string;
   skipToQuestionId?: string;
+  // Multiple-choice only: selecting this option deselects every other one, e.g. "None of the above"
+  exclusive?: boolean;
+}
+
+export type QuestionType =
+  | 'single-choice'
+  | 'multiple-choice'
+  | 'number'
+  | 'text'
+  | 'slider'
+  | 'date'
+  | 'blood-pressure'
+  | 'repeated-group'
+  | 'yes-no-details';
+
+// A value captured for every item of a repeated-group question, e.g. a medication's name or dose
+export interface GroupField {
+  id: string;
+  text: string;
+  type: 'text' | 'number';
+  required: boolean;
+}
+
+// Answer shapes of the compound question types
+export interface BloodPressureAnswer {
+  systolic: number;
+  // Missing only on answers migrated from the systolic-only question of version 3 and earlier
+  diastolic?: number;
 }
 
+export type RepeatedGroupAnswer = Record<string, string | number>[];
+
+export interface YesNoDetailsAnswer {
+  answer: 'yes' | 'no';
+  details?: string;
+}
+
+// Plausible readings in mmHg; anything outside is almost certainly a typo
+export const BLOOD_PRESSURE_RANGE = {
+  systolic: { min: 70, max: 250 },
+  diastolic: { min: 40, max: 150 },
+};
+
 export interface Question {
   id: string;
-  type: 'single-choice' | 'multiple-choice' | 'number' | 'text' | 'slider';
+  type: QuestionType;
   text: string;
   description?: string;
   options?: QuestionOption[];
   min?: number;
   max?: number;
   step?: number;
-  unit?: string;
+  // Canonical unit; number answers are always stored in this unit
+  unit?: UnitId;
+  // Other units the user may enter the value in, converted to `unit` before storing
+  alternativeUnits?: UnitId[];
+  // Multiple-choice questions: how many options may be selected
+  minSelections?: number;
+  maxSelections?: number;
+  // Date questions: ISO dates (YYYY-MM-DD) or 'today'
+  minDate?: string;
+  maxDate?: string;
+  // Repeated-group questions: the fields of each item and how many items may be added
+  fields?: GroupField[];
+  minItems?: number;
+  maxItems?: number;
+  // Yes/no-with-details questions: the follow-up shown when the answer is yes
+  detailsPrompt?: string;
+  detailsRequired?: boolean;
   required: boolean;
-  condition?: (answers: Record<string, any>) => boolean;
-  validation?: (value: any) => string | null;
+  condition?: RuleExpression;
+  validation?: ValidationRule[];
+}
+
+// Maps answers recorded against one questionnaire version onto the ids and values of the next
+export interface AnswerMigration {
+  fromVersion: number;
+  toVersion: number;
+  renameQuestions?: Record<string, string>;
+  renameValues?: Record<string, Record<string, string | number | boolean>>; // keyed by the new question id
+  removeQuestions?: string[];
+  // Answers that become one field of a compound answer, keyed by the old question id
+  moveToFields?: Record<string, { questionId: string; field: string }>;
 }
 
 export interface QuestionnaireFlow {
   id: string;
+  version: number;
   title: string;
   description: string;
   questions: Question[];
   startQuestionId: string;
+  answerMigrations?: AnswerMigration[];
 }
 
+// Submissions recorded before versioning was introduced were produced by version 1
+export const LEGACY_QUESTIONNAIRE_VERSION = 1;
+
 export const ADAPTIVE_QUESTIONNAIRE: QuestionnaireFlow = {
   id: 'diabetes-risk-assessment',
-  title: 'Smart Health Assessment',
-  description: 'A personalized questionnaire that adapts to your responses',
+  version: 4,
+  title: 'questionnaire.title',
+  description: 'questionnaire.description',
   startQuestionId: 'welcome',
+  answerMigrations: [
+    // v2 added alternative input units; stored answers are still kg/cm
+    { fromVersion: 1, toVersion: 2 },
+    // v3 added clinical history questions; glucose-history is required, so drafts from v2
+    // resume at it (see assessment-drafts.ts)
+    { fromVersion: 2, toVersion: 3 },
+    // v4 asks for both blood pressure numbers instead of the systolic one only
+    { fromVersion: 3, toVersion: 4, moveToFields: { systolic_bp: { questionId: 'blood-pressure', field: 'systolic' } } }
+  ],
   questions: [
     {
       id: 'welcome',
       type: 'single-choice',
-      text: 'Welcome to your health assessment! 🌟',
-      description: 'This smart questionnaire will adapt based on your answers to give you the most relevant experience.',
+      text: 'questionnaire.welcome.text',
+      description: 'questionnaire.welcome.description',
       options: [
-        { id: 'start', text: 'Let\'s begin!', value: true, nextQuestionId: 'age' }
+        { id: 'start', text: 'questionnaire.welcome.option.start', value: true, nextQuestionId: 'age' }
       ],
       required: true
     },
     {
       id: 'age',
       type: 'number',
-      text: 'What is your age?',
-      description: 'This helps us understand your risk factors',
+      text: 'questionnaire.age.text',
+      description: 'questionnaire.age.description',
       min: 1,
       max: 120,
       required: true,
-      validation: (value) => {
-        if (value < 1 || value > 120) return 'Please enter a valid age';
-        return null;
-      }
+      validation: [
+        {
+          rule: {
+            op: 'and',
+            args: [
+              { op: 'gte', left: { current: true }, right: 1 },
+              { op: 'lte', left: { current: true }, right: 120 }
+            ]
+          },
+          message: 'questionnaire.age.validation.range'
+        }
+      ]
     },
     {
       id: 'gender',
       type: 'single-choice',
-      text: 'What is your gender?',
+      text: 'questionnaire.gender.text',
       options: [
-        { id: 'male', text: 'Male', value: 'male' },
-        { id: 'female', text: 'Female', value: 'female' },
-        { id: 'other', text: 'Other', value: 'other' },
-        { id: 'prefer-not-to-say', text: 'Prefer not to say', value: 'prefer-not-to-say' }
+        { id: 'male', text: 'questionnaire.gender.option.male', value: 'male' },
+        { id: 'female', text: 'questionnaire.gender.option.female', value: 'female' },
+        { id: 'other', text: 'questionnaire.gender.option.other', value: 'other' },
+        { id: 'prefer-not-to-say', text: 'questionnaire.gender.option.prefer-not-to-say', value: 'prefer-not-to-say' }
       ],
       required: true
     },
     {
       id: 'weight',
       type: 'number',
-      text: 'What is your weight?',
-      description: 'Enter your weight in kilograms',
+      text: 'questionnaire.weight.text',
+      description: 'questionnaire.weight.description',
       min: 20,
       max: 300,
       unit: 'kg',
+      alternativeUnits: ['lb', 'st'],
       required: true
     },
     {
       id: 'height',
       type: 'number',
-      text: 'What is your height?',
-      description: 'Enter your height in centimeters',
+      text: 'questionnaire.height.text',
+      description: 'questionnaire.height.description',
       min: 100,
       max: 250,
       unit: 'cm',
+      alternativeUnits: ['ft-in', 'in'],
       required: true
     },
     {
-      id: 'systolic_bp',
-      type: 'number',
-      text: 'What is your systolic blood pressure?',
-      description: 'Enter the top number from your blood pressure reading',
-      min: 70,
-      max: 200,
-      unit: 'mmHg',
+      id: 'blood-pressure',
+      type: 'blood-pressure',
+      text: 'questionnaire.blood-pressure.text',
+      description: 'questionnaire.blood-pressure.description',
       required: true
     },
     {
       id: 'diet_quality',
       type: 'slider',
-      text: 'How would you rate the quality of your diet?',
-      description: '1 is poor, 10 is excellent',
+      text: 'questionnaire.diet_quality.text',
+      description: 'questionnaire.diet_quality.description',
       min: 1,
       max: 10,
       step: 1,
@@ -113,66 +234,66 @@ export const ADAPTIVE_QUESTIONNAIRE: QuestionnaireFlow = {
     {
       id: 'location',
       type: 'single-choice',
-      text: 'Do you live in an urban or rural area?',
+      text: 'questionnaire.location.text',
       options: [
-        { id: 'urban', text: 'Urban', value: 'urban' },
-        { id: 'rural', text: 'Rural', value: 'rural' }
+        { id: 'urban', text: 'questionnaire.location.option.urban', value: 'urban' },
+        { id: 'rural', text: 'questionnaire.location.option.rural', value: 'rural' }
       ],
       required: true
     },
     {
       id: 'family-history',
       type: 'single-choice',
-      text: 'Do you have a family history of diabetes?',
-      description: 'This includes parents, siblings, or grandparents',
+      text: 'questionnaire.family-history.text',
+      description: 'questionnaire.family-history.description',
       options: [
-        { id: 'yes', text: 'Yes', value: 'yes', nextQuestionId: 'family-details' },
-        { id: 'no', text: 'No', value: 'no', nextQuestionId: 'activity-level' },
-        { id: 'unknown', text: 'I don\'t know', value: 'unknown', nextQuestionId: 'activity-level' }
+        { id: 'yes', text: 'questionnaire.family-history.option.yes', value: 'yes', nextQuestionId: 'family-details' },
+        { id: 'no', text: 'questionnaire.family-history.option.no', value: 'no', nextQuestionId: 'activity-level' },
+        { id: 'unknown', text: 'questionnaire.family-history.option.unknown', value: 'unknown', nextQuestionId: 'activity-level' }
       ],
       required: true
     },
     {
       id: 'family-details',
       type: 'multiple-choice',
-      text: 'Which family members have diabetes?',
-      description: 'Select all that apply',
+      text: 'questionnaire.family-details.text',
+      description: 'questionnaire.family-details.description',
       options: [
-        { id: 'parent', text: 'Parent(s)', value: 'parent' },
-        { id: 'sibling', text: 'Sibling(s)', value: 'sibling' },
-        { id: 'grandparent', text: 'Grandparent(s)', value: 'grandparent' },
-        { id: 'other', text: 'Other relative', value: 'other' }
+        { id: 'parent', text: 'questionnaire.family-details.option.parent', value: 'parent' },
+        { id: 'sibling', text: 'questionnaire.family-details.option.sibling', value: 'sibling' },
+        { id: 'grandparent', text: 'questionnaire.family-details.option.grandparent', value: 'grandparent' },
+        { id: 'other', text: 'questionnaire.family-details.option.other', value: 'other' }
       ],
       required: true,
-      condition: (answers) => answers['family-history'] === 'yes'
+      condition: { op: 'eq', left: { answer: 'family-history' }, right: 'yes' }
     },
     {
       id: 'activity-level',
       type: 'single-choice',
-      text: 'How would you describe your physical activity level?',
-      description: 'Think about your typical week',
+      text: 'questionnaire.activity-level.text',
+      description: 'questionnaire.activity-level.description',
       options: [
         { 
           id: 'sedentary', 
-          text: '🪑 Sedentary - Mostly sitting', 
+          text: 'questionnaire.activity-level.option.sedentary', 
           value: 'sedentary',
           nextQuestionId: 'sedentary-details'
         },
         { 
           id: 'light', 
-          text: '🚶 Light - Some walking', 
+          text: 'questionnaire.activity-level.option.light', 
           value: 'light',
           nextQuestionId: 'diet-habits'
         },
         { 
           id: 'moderate', 
-          text: '🏃 Moderate - Regular exercise', 
+          text: 'questionnaire.activity-level.option.moderate', 
           value: 'moderate',
           nextQuestionId: 'diet-habits'
         },
         { 
           id: 'active', 
-          text: '💪 Very Active - Intense exercise', 
+          text: 'questionnaire.activity-level.option.active', 
           value: 'active',
           nextQuestionId: 'diet-habits'
         }
@@ -182,46 +303,46 @@ export const ADAPTIVE_QUESTIONNAIRE: QuestionnaireFlow = {
     {
       id: 'sedentary-details',
       type: 'multiple-choice',
-      text: 'What keeps you from being more active?',
-      description: 'Understanding barriers helps us provide better recommendations',
+      text: 'questionnaire.sedentary-details.text',
+      description: 'questionnaire.sedentary-details.description',
       options: [
-        { id: 'time', text: 'Lack of time', value: 'time' },
-        { id: 'motivation', text: 'Lack of motivation', value: 'motivation' },
-        { id: 'health', text: 'Health issues', value: 'health' },
-        { id: 'facilities', text: 'No access to facilities', value: 'facilities' },
-        { id: 'knowledge', text: 'Don\'t know how to start', value: 'knowledge' },
-        { id: 'other', text: 'Other reasons', value: 'other' }
+        { id: 'time', text: 'questionnaire.sedentary-details.option.time', value: 'time' },
+        { id: 'motivation', text: 'questionnaire.sedentary-details.option.motivation', value: 'motivation' },
+        { id: 'health', text: 'questionnaire.sedentary-details.option.health', value: 'health' },
+        { id: 'facilities', text: 'questionnaire.sedentary-details.option.facilities', value: 'facilities' },
+        { id: 'knowledge', text: 'questionnaire.sedentary-details.option.knowledge', value: 'knowledge' },
+        { id: 'other', text: 'questionnaire.sedentary-details.option.other', value: 'other' }
       ],
       required: true,
-      condition: (answers) => answers['activity-level'] === 'sedentary'
+      condition: { op: 'eq', left: { answer: 'activity-level' }, right: 'sedentary' }
     },
     {
       id: 'diet-habits',
       type: 'single-choice',
-      text: 'How would you rate your eating habits?',
-      description: 'Be honest - this helps us help you better!',
+      text: 'questionnaire.diet-habits.text',
+      description: 'questionnaire.diet-habits.description',
       options: [
         { 
           id: 'poor', 
-          text: '🍟 Poor - Mostly processed foods', 
+          text: 'questionnaire.diet-habits.option.poor', 
           value: 'poor',
           nextQuestionId: 'diet-challenges'
         },
         { 
           id: 'fair', 
-          text: '🥪 Fair - Mix of healthy and unhealthy', 
+          text: 'questionnaire.diet-habits.option.fair', 
           value: 'fair',
           nextQuestionId: 'symptoms'
         },
         { 
           id: 'good', 
-          text: '🥗 Good - Mostly healthy foods', 
+          text: 'questionnaire.diet-habits.option.good', 
           value: 'good',
           nextQuestionId: 'symptoms'
         },
         { 
           id: 'excellent', 
-          text: '🌱 Excellent - Very healthy diet', 
+          text: 'questionnaire.diet-habits.option.excellent', 
           value: 'excellent',
           nextQuestionId: 'symptoms'
         }
@@ -231,65 +352,94 @@ export const ADAPTIVE_QUESTIONNAIRE: QuestionnaireFlow = {
     {
       id: 'diet-challenges',
       type: 'multiple-choice',
-      text: 'What makes healthy eating challenging for you?',
-      description: 'Select all that apply',
+      text: 'questionnaire.diet-challenges.text',
+      description: 'questionnaire.diet-challenges.description',
       options: [
-        { id: 'cost', text: 'Cost of healthy foods', value: 'cost' },
-        { id: 'time', text: 'Time to prepare meals', value: 'time' },
-        { id: 'availability', text: 'Limited healthy options nearby', value: 'availability' },
-        { id: 'taste', text: 'Preference for certain foods', value: 'taste' },
-        { id: 'knowledge', text: 'Don\'t know what\'s healthy', value: 'knowledge' },
-        { id: 'family', text: 'Family food preferences', value: 'family' }
+        { id: 'cost', text: 'questionnaire.diet-challenges.option.cost', value: 'cost' },
+        { id: 'time', text: 'questionnaire.diet-challenges.option.time', value: 'time' },
+        { id: 'availability', text: 'questionnaire.diet-challenges.option.availability', value: 'availability' },
+        { id: 'taste', text: 'questionnaire.diet-challenges.option.taste', value: 'taste' },
+        { id: 'knowledge', text: 'questionnaire.diet-challenges.option.knowledge', value: 'knowledge' },
+        { id: 'family', text: 'questionnaire.diet-challenges.option.family', value: 'family' }
       ],
       required: true,
-      condition: (answers) => answers['diet-habits'] === 'poor'
+      condition: { op: 'eq', left: { answer: 'diet-habits' }, right: 'poor' }
     },
     {
       id: 'symptoms',
       type: 'multiple-choice',
-      text: 'Have you experienced any of these symptoms recently?',
-      description: 'Select all that apply (or none if you haven\'t)',
+      text: 'questionnaire.symptoms.text',
+      description: 'questionnaire.symptoms.description',
       options: [
-        { id: 'frequent-urination', text: '🚽 Frequent urination', value: 'frequent-urination' },
-        { id: 'excessive-thirst', text: '💧 Excessive thirst', value: 'excessive-thirst' },
-        { id: 'weight-loss', text: '⚖️ Unexplained weight loss', value: 'weight-loss' },
-        { id: 'fatigue', text: '😴 Unusual fatigue', value: 'fatigue' },
-        { id: 'blurred-vision', text: '👁️ Blurred vision', value: 'blurred-vision' },
-        { id: 'slow-healing', text: '🩹 Slow healing wounds', value: 'slow-healing' },
-        { id: 'infections', text: '🦠 Frequent infections', value: 'infections' },
-        { id: 'none', text: '✅ None of the above', value: 'none' }
+        { id: 'frequent-urination', text: 'questionnaire.symptoms.option.frequent-urination', value: 'frequent-urination' },
+        { id: 'excessive-thirst', text: 'questionnaire.symptoms.option.excessive-thirst', value: 'excessive-thirst' },
+        { id: 'weight-loss', text: 'questionnaire.symptoms.option.weight-loss', value: 'weight-loss' },
+        { id: 'fatigue', text: 'questionnaire.symptoms.option.fatigue', value: 'fatigue' },
+        { id: 'blurred-vision', text: 'questionnaire.symptoms.option.blurred-vision', value: 'blurred-vision' },
+        { id: 'slow-healing', text: 'questionnaire.symptoms.option.slow-healing', value: 'slow-healing' },
+        { id: 'infections', text: 'questionnaire.symptoms.option.infections', value: 'infections' },
+        { id: 'none', text: 'questionnaire.symptoms.option.none', value: 'none', exclusive: true }
+      ],
+      required: false
+    },
+    {
+      id: 'glucose-history',
+      type: 'yes-no-details',
+      text: 'questionnaire.glucose-history.text',
+      description: 'questionnaire.glucose-history.description',
+      detailsPrompt: 'questionnaire.glucose-history.details',
+      required: true
+    },
+    {
+      id: 'last-checkup',
+      type: 'date',
+      text: 'questionnaire.last-checkup.text',
+      description: 'questionnaire.last-checkup.description',
+      minDate: '1900-01-01',
+      maxDate: 'today',
+      required: false
+    },
+    {
+      id: 'medications',
+      type: 'repeated-group',
+      text: 'questionnaire.medications.text',
+      description: 'questionnaire.medications.description',
+      fields: [
+        { id: 'name', text: 'questionnaire.medications.field.name', type: 'text', required: true },
+        { id: 'dose', text: 'questionnaire.medications.field.dose', type: 'text', required: false }
       ],
+      maxItems: 20,
       required: false
     },
     {
       id: 'smoking',
       type: 'single-choice',
-      text: 'What is your smoking status?',
+      text: 'questionnaire.smoking.text',
       options: [
-        { id: 'never', text: '🚭 Never smoked', value: 'never' },
-        { id: 'former', text: '🚫 Former smoker', value: 'former' },
-        { id: 'current', text: '🚬 Current smoker', value: 'current' }
+        { id: 'never', text: 'questionnaire.smoking.option.never', value: 'never' },
+        { id: 'former', text: 'questionnaire.smoking.option.former', value: 'former' },
+        { id: 'current', text: 'questionnaire.smoking.option.current', value: 'current' }
       ],
       required: true
     },
     {
       id: 'alcohol',
       type: 'single-choice',
-      text: 'How often do you consume alcohol?',
+      text: 'questionnaire.alcohol.text',
       options: [
-        { id: 'never', text: 'Never', value: 'never' },
-        { id: 'rarely', text: 'Rarely (few times a year)', value: 'rarely' },
-        { id: 'occasionally', text: 'Occasionally (few times a month)', value: 'occasionally' },
-        { id: 'regularly', text: 'Regularly (weekly)', value: 'regularly' },
-        { id: 'daily', text: 'Daily', value: 'daily' }
+        { id: 'never', text: 'questionnaire.alcohol.option.never', value: 'never' },
+        { id: 'rarely', text: 'questionnaire.alcohol.option.rarely', value: 'rarely' },
+        { id: 'occasionally', text: 'questionnaire.alcohol.option.occasionally', value: 'occasionally' },
+        { id: 'regularly', text: 'questionnaire.alcohol.option.regularly', value: 'regularly' },
+        { id: 'daily', text: 'questionnaire.alcohol.option.daily', value: 'daily' }
       ],
       required: true
     },
     {
       id: 'stress-level',
       type: 'slider',
-      text: 'How would you rate your stress level?',
-      description: 'Stress can affect blood sugar levels',
+      text: 'questionnaire.stress-level.text',
+      description: 'questionnaire.stress-level.description',
       min: 1,
       max: 10,
       step: 1,
@@ -298,29 +448,99 @@ export const ADAPTIVE_QUESTIONNAIRE: QuestionnaireFlow = {
     {
       id: 'sleep-quality',
       type: 'single-choice',
-      text: 'How is your sleep quality?',
-      description: 'Poor sleep can increase diabetes risk',
+      text: 'questionnaire.sleep-quality.text',
+      description: 'questionnaire.sleep-quality.description',
       options: [
-        { id: 'excellent', text: '😴 Excellent (7-9 hours, restful)', value: 'excellent' },
-        { id: 'good', text: '😊 Good (6-8 hours, mostly restful)', value: 'good' },
-        { id: 'fair', text: '😐 Fair (5-7 hours, sometimes restful)', value: 'fair' },
-        { id: 'poor', text: '😵 Poor (less than 5 hours or restless)', value: 'poor' }
+        { id: 'excellent', text: 'questionnaire.sleep-quality.option.excellent', value: 'excellent' },
+        { id: 'good', text: 'questionnaire.sleep-quality.option.good', value: 'good' },
+        { id: 'fair', text: 'questionnaire.sleep-quality.option.fair', value: 'fair' },
+        { id: 'poor', text: 'questionnaire.sleep-quality.option.poor', value: 'poor' }
       ],
       required: true
     },
     {
       id: 'completion',
       type: 'single-choice',
-      text: 'Great job completing the assessment! 🎉',
-      description: 'Your personalized risk assessment and recommendations are being generated.',
+      text: 'questionnaire.completion.text',
+      description: 'questionnaire.completion.description',
       options: [
-        { id: 'finish', text: 'View My Results', value: true }
+        { id: 'finish', text: 'questionnaire.completion.option.finish', value: true }
       ],
       required: true
     }
   ]
 };
 
+function resolveOperand(operand: RuleOperand, answers: Record<string, any>, current: any): any {
+  if (operand !== null && typeof operand === 'object' && !Array.isArray(operand)) {
+    if ('answer' in operand) {
+      const value = answers[operand.answer];
+      return operand.field ? value?.[operand.field] : value;
+    }
+    if ('current' in operand) return current;
+  }
+  return operand;
+}
+
+function isAnswered(value: any): boolean {
+  if (value === null || value === undefined || value === '') return false;
+  return !Array.isArray(value) || value.length > 0;
+}
+
+export function evaluateRule(
+  expression: RuleExpression,
+  answers: Record<string, any>,
+  current?: any
+): boolean {
+  switch (expression.op) {
+    case 'and':
+      return expression.args.every(arg => evaluateRule(arg, answers, current));
+    case 'or':
+      return expression.args.some(arg => evaluateRule(arg, answers, current));
+    case 'not':
+      return !evaluateRule(expression.arg, answers, current);
+    case 'answered':
+      return isAnswered(answers[expression.question]);
+    case 'in':
+    case 'not-in': {
+      const left = resolveOperand(expression.left, answers, current);
+      const right = resolveOperand(expression.right, answers, current);
+      const found = Array.isArray(right) && right.includes(left);
+      return expression.op === 'in' ? found : !found;
+    }
+    case 'includes': {
+      const left = resolveOperand(expression.left, answers, current);
+      const right = resolveOperand(expression.right, answers, current);
+      return Array.isArray(left) && left.includes(right);
+    }
+    case 'eq':
+      return resolveOperand(expression.left, answers, current) === resolveOperand(expression.right, answers, current);
+    case 'neq':
+      return resolveOperand(expression.left, answers, current) !== resolveOperand(expression.right, answers, current);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      const left = resolveOperand(expression.left, answers, current);
+      const right = resolveOperand(expression.right, answers, current);
+      if (!isAnswered(left) || !isAnswered(right)) return false;
+      const leftNum = Number(left);
+      const rightNum = Number(right);
+      if (isNaN(leftNum) || isNaN(rightNum)) return false;
+      if (expression.op === 'gt') return leftNum > rightNum;
+      if (expression.op === 'gte') return leftNum >= rightNum;
+      if (expression.op === 'lt') return leftNum < rightNum;
+      return leftNum <= rightNum;
+    }
+    default:
+      return false;
+  }
+}
+
+export function isQuestionVisible(question: Question, answers: Record<string, any>): boolean {
+  return !question.condition || evaluateRule(question.condition, answers);
+}
+
 export function getNextQuestion(
   currentQuestionId: string,
   selectedOption: QuestionOption | null,
@@ -330,7 +550,7 @@ export function getNextQuestion(
   // If there's a specific next question defined in the option
   if (selectedOption?.nextQuestionId) {
     const nextQuestion = questionnaire.questions.find(q => q.id === selectedOption.nextQuestionId);
-    if (nextQuestion && (!nextQuestion.condition || nextQuestion.condition(answers))) {
+    if (nextQuestion && isQuestionVisible(nextQuestion, answers)) {
       return nextQuestion;
     }
   }
@@ -338,7 +558,7 @@ export function getNextQuestion(
   // If there's a skip condition
   if (selectedOption?.skipToQuestionId) {
     const skipToQuestion = questionnaire.questions.find(q => q.id === selectedOption.skipToQuestionId);
-    if (skipToQuestion && (!skipToQuestion.condition || skipToQuestion.condition(answers))) {
+    if (skipToQuestion && isQuestionVisible(skipToQuestion, answers)) {
       return skipToQuestion;
     }
   }
@@ -350,7 +570,7 @@ export function getNextQuestion(
   // Look for the next valid question
   for (let i = currentIndex + 1; i < questionnaire.questions.length; i++) {
     const question = questionnaire.questions[i];
-    if (!question.condition || question.condition(answers)) {
+    if (isQuestionVisible(question, answers)) {
       return question;
     }
   }
@@ -358,42 +578,492 @@ export function getNextQuestion(
   return null; // No more questions
 }
 
+// The single-choice option matching a recorded answer, which is what getNextQuestion branches on
+export function getSelectedOption(question: Question, value: any): QuestionOption | null {
+  if (question.type !== 'single-choice') return null;
+  return question.options?.find(o => o.value === value) || null;
+}
+
+// Every way the flow can continue from `question`: one branch per single-choice option,
+// otherwise a single branch that falls through without an option.
+function getBranches(
+  question: Question,
+  answers: Record<string, any>,
+  questionnaire: QuestionnaireFlow
+): { next: Question | null; answers: Record<string, any> }[] {
+  const options: (QuestionOption | null)[] =
+    question.type === 'single-choice' && question.options?.length ? question.options : [null];
+
+  return options.map(option => {
+    const branchAnswers = option ? { ...answers, [question.id]: option.value } : answers;
+    return { next: getNextQuestion(question.id, option, branchAnswers, questionnaire), answers: branchAnswers };
+  });
+}
+
+// Only answers referenced by conditions can change the path through a flow
+function getPathKey(question: Question, answers: Record<string, any>, questionnaire: QuestionnaireFlow): string {
+  const referencedIds = new Set<string>();
+  questionnaire.questions.forEach(q => q.condition && collectAnswerReferences(q.condition, referencedIds));
+  return `${question.id}|${JSON.stringify(Array.from(referencedIds).map(id => answers[id] ?? null))}`;
+}
+
+export interface RemainingPathEstimate {
+  min: number;
+  expected: number;
+  max: number;
+}
+
+// Counts the questions still to be asked starting at `question`, following every option
+// branch through getNextQuestion. `expected` weights each option of a question equally.
+export function estimateRemainingQuestions(
+  question: Question | null,
+  answers: Record<string, any>,
+  questionnaire: QuestionnaireFlow
+): RemainingPathEstimate {
+  const memo = new Map<string, RemainingPathEstimate>();
+
+  const walk = (q: Question | null, current: Record<string, any>, depth: number): RemainingPathEstimate => {
+    if (!q || depth > questionnaire.questions.length) {
+      return { min: 0, expected: 0, max: 0 };
+    }
+
+    const key = getPathKey(q, current, questionnaire);
+    const cached = memo.get(key);
+    if (cached) return cached;
+
+    const branches = getBranches(q, current, questionnaire).map(branch =>
+      walk(branch.next, branch.answers, depth + 1)
+    );
+
+    const estimate = {
+      min: 1 + Math.min(...branches.map(b => b.min)),
+      expected: 1 + branches.reduce((sum, b) => sum + b.expected, 0) / branches.length,
+      max: 1 + Math.max(...branches.map(b => b.max)),
+    };
+    memo.set(key, estimate);
+    return estimate;
+  };
+
+  return walk(question, answers, 0);
+}
+
+// Percent done when `currentQuestion` is asked after the `answered` questions before it on the
+// path (see replayAnswers): answered ÷ (answered + questions expected from here to the end).
+// A null question means the path is complete.
 export function calculateProgress(
-  currentQuestionId: string,
+  currentQuestion: Question | null,
+  answered: number,
   answers: Record<string, any>,
   questionnaire: QuestionnaireFlow
 ): number {
-  const totalQuestions = questionnaire.questions.filter(q => 
-    !q.condition || q.condition(answers)
-  ).length;
-  
-  const currentIndex = questionnaire.questions.findIndex(q => q.id === currentQuestionId);
-  const answeredQuestions = Object.keys(answers).length;
-  
-  return Math.min((answeredQuestions / totalQuestions) * 100, 100);
+  if (!currentQuestion) return 100;
+
+  const remaining = estimateRemainingQuestions(currentQuestion, answers, questionnaire).expected;
+  return (answered / (answered + remaining)) * 100;
+}
+
+export interface AnswerReplay {
+  // Answered questions in the order the flow asks them
+  path: string[];
+  // The first unanswered question on that path, or null when the flow is complete
+  nextQuestion: Question | null;
+  // Answers with everything the current path can no longer reach removed
+  answers: Record<string, any>;
 }
 
-export function validateAnswer(question: Question, value: any): string | null {
-  if (question.required && (value === null || value === undefined || value === '')) {
-    return 'This question is required';
+// Re-walks the flow from the start using the recorded answers, e.g. after an earlier answer was
+// edited. Answers beyond the first gap are kept only if some branch from that gap can reach them.
+export function replayAnswers(
+  answers: Record<string, any>,
+  questionnaire: QuestionnaireFlow
+): AnswerReplay {
+  const path: string[] = [];
+  let current = questionnaire.questions.find(q => q.id === questionnaire.startQuestionId) || null;
+
+  while (current && current.id in answers && !path.includes(current.id)) {
+    path.push(current.id);
+    current = getNextQuestion(
+      current.id,
+      getSelectedOption(current, answers[current.id]),
+      answers,
+      questionnaire
+    );
+  }
+
+  const reachable = new Set<string>(path);
+  const visited = new Set<string>();
+  const explore = (q: Question | null, branchAnswers: Record<string, any>) => {
+    if (!q) return;
+    const key = getPathKey(q, branchAnswers, questionnaire);
+    if (visited.has(key)) return;
+    visited.add(key);
+    reachable.add(q.id);
+    getBranches(q, branchAnswers, questionnaire).forEach(branch => explore(branch.next, branch.answers));
+  };
+  explore(current, answers);
+
+  const prunedAnswers = Object.fromEntries(
+    Object.entries(answers).filter(([questionId]) => reachable.has(questionId))
+  );
+
+  return { path, nextQuestion: current, answers: prunedAnswers };
+}
+
+export function formatAnswer(question: Question, value: any): string {
+  if (value === null || value === undefined || value === '') return '—';
+
+  if (question.type === 'multiple-choice' && Array.isArray(value)) {
+    return value
+      .map(v => {
+        const option = question.options?.find(o => o.id === v || o.value === v);
+        return option ? translateText(option.text) : String(v);
+      })
+      .join(', ');
+  }
+
+  if (question.type === 'single-choice') {
+    const option = getSelectedOption(question, value);
+    return option ? translateText(option.text) : String(value);
+  }
+
+  if (question.type === 'date') {
+    return parseISODate(value)?.toLocaleDateString() || String(value);
+  }
+
+  if (question.type === 'blood-pressure') {
+    return value.diastolic === undefined ? `${value.systolic} mmHg` : `${value.systolic}/${value.diastolic} mmHg`;
+  }
+
+  if (question.type === 'repeated-group' && Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    const fields = question.fields || [];
+    return value
+      .map(item => fields.map(field => item[field.id]).filter(part => part !== undefined && part !== '').join(' '))
+      .join(', ');
+  }
+
+  if (question.type === 'yes-no-details') {
+    const answer = value.answer === 'yes' ? t('common.yes') : t('common.no');
+    return value.details ? `${answer} — ${value.details}` : answer;
+  }
+
+  return question.unit ? `${value} ${question.unit}` : String(value);
+}
+
+export function getInputUnits(question: Question): UnitId[] {
+  if (!question.unit) return [];
+  return [question.unit, ...(question.alternativeUnits || [])];
+}
+
+// Converts a number entered in any accepted unit to the question's canonical unit
+export function normalizeNumberAnswer(question: Question, parts: number[], unit?: UnitId): number {
+  if (!question.unit || !unit || unit === question.unit) {
+    return parts[0];
+  }
+
+  if (!question.alternativeUnits?.includes(unit) || UNITS[unit].canonical !== question.unit) {
+    throw new Error(`Unit ${unit} cannot be converted to ${question.unit}`);
+  }
+
+  return toCanonicalValue(parts, unit);
+}
+
+export function validateAnswer(
+  question: Question,
+  value: any,
+  answers: Record<string, any> = {}
+): string | null {
+  if (!isAnswered(value)) {
+    return question.required ? t('questionnaire.validation.required') : null;
   }
 
   if (question.validation) {
-    return question.validation(value);
+    const failedRule = question.validation.find(v => !evaluateRule(v.rule, answers, value));
+    if (failedRule) return translateText(failedRule.message);
   }
 
   if (question.type === 'number') {
     const numValue = Number(value);
     if (isNaN(numValue)) {
-      return 'Please enter a valid number';
+      return t('questionnaire.validation.number');
     }
+    // Answers are normalized before validation, so the range is checked in the canonical unit
+    const unitSuffix = question.unit ? ` ${question.unit}` : '';
     if (question.min !== undefined && numValue < question.min) {
-      return `Value must be at least ${question.min}`;
+      return t('questionnaire.validation.min', { min: `${question.min}${unitSuffix}` });
     }
     if (question.max !== undefined && numValue > question.max) {
-      return `Value must be at most ${question.max}`;
+      return t('questionnaire.validation.max', { max: `${question.max}${unitSuffix}` });
     }
   }
 
+  switch (question.type) {
+    case 'multiple-choice':
+      return validateMultipleChoice(question, value);
+    case 'date':
+      return validateDate(question, value);
+    case 'blood-pressure':
+      return validateBloodPressure(value);
+    case 'repeated-group':
+      return validateRepeatedGroup(question, value);
+    case 'yes-no-details':
+      return validateYesNoDetails(question, value);
+    default:
+      return null;
+  }
+}
+
+function validateMultipleChoice(question: Question, value: any): string | null {
+  if (!Array.isArray(value)) {
+    return t('questionnaire.validation.required');
+  }
+
+  const selected = value.map(v => question.options?.find(o => o.id === v || o.value === v));
+  if (selected.some(option => !option)) {
+    return t('questionnaire.validation.unknownOption');
+  }
+
+  const exclusive = selected.find(option => option!.exclusive);
+  if (exclusive && selected.length > 1) {
+    return t('questionnaire.validation.exclusiveOption', { option: translateText(exclusive.text) });
+  }
+
+  // An exclusive option is a complete answer on its own, whatever the minimum
+  if (!exclusive && question.minSelections !== undefined && selected.length < question.minSelections) {
+    return t('questionnaire.validation.minSelections', { count: question.minSelections });
+  }
+  if (question.maxSelections !== undefined && selected.length > question.maxSelections) {
+    return t('questionnaire.validation.maxSelections', { count: question.maxSelections });
+  }
+
+  return null;
+}
+
+// Applies a tap on a multiple-choice option: exclusive options replace the whole selection,
+// any other option replaces a selected exclusive one
+export function toggleMultipleChoiceOption(question: Question, selected: string[], optionId: string): string[] {
+  if (selected.includes(optionId)) {
+    return selected.filter(id => id !== optionId);
+  }
+
+  const option = question.options?.find(o => o.id === optionId);
+  if (option?.exclusive) {
+    return [optionId];
+  }
+
+  const exclusiveIds = new Set((question.options || []).filter(o => o.exclusive).map(o => o.id));
+  return [...selected.filter(id => !exclusiveIds.has(id)), optionId];
+}
+
+// Number of real selections in a multiple-choice answer. Exclusive options such as "None of
+// the above" count as nothing, which also covers answers recorded before they were enforced.
+export function countSelectedOptions(
+  questionId: string,
+  value: any,
+  flow: QuestionnaireFlow = ADAPTIVE_QUESTIONNAIRE
+): number {
+  if (!Array.isArray(value)) return 0;
+  const question = flow.questions.find(q => q.id === questionId);
+  return value.filter(v => {
+    const option = question?.options?.find(o => o.id === v || o.value === v);
+    return option && !option.exclusive;
+  }).length;
+}
+
+// Systolic pressure in mmHg from the blood pressure answer, if it was given
+export function getSystolicBp(answers: Record<string, any>): number | undefined {
+  const systolic = answers['blood-pressure']?.systolic;
+  return typeof systolic === 'number' ? systolic : undefined;
+}
+
+// Body mass index from the weight (kg) and height (cm) answers, if both were given
+export function getBmi(answers: Record<string, any>): number | null {
+  const heightInMeters = (answers.height || 0) / 100;
+  if (!heightInMeters || !answers.weight) return null;
+  return answers.weight / (heightInMeters * heightInMeters);
+}
+
+// Today's date in the device's timezone, formatted like date answers
+function getTodayISODate(): string {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+function parseISODate(value: any): Date | null {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  // Rejects dates like 2024-02-30 that Date would roll over into the next month
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+function validateDate(question: Question, value: any): string | null {
+  if (!parseISODate(value)) {
+    return t('questionnaire.validation.date');
+  }
+
+  const resolve = (bound: string) => (bound === 'today' ? getTodayISODate() : bound);
+  // ISO dates compare correctly as strings
+  if (question.minDate && value < resolve(question.minDate)) {
+    return t('questionnaire.validation.dateMin', { date: resolve(question.minDate) });
+  }
+  if (question.maxDate && value > resolve(question.maxDate)) {
+    return question.maxDate === 'today'
+      ? t('questionnaire.validation.dateFuture')
+      : t('questionnaire.validation.dateMax', { date: resolve(question.maxDate) });
+  }
+
   return null;
 }
+
+function validateBloodPressure(value: any): string | null {
+  const systolic = Number(value?.systolic);
+  const diastolic = Number(value?.diastolic);
+  if (!isAnswered(value?.systolic) || !isAnswered(value?.diastolic) || isNaN(systolic) || isNaN(diastolic)) {
+    return t('questionnaire.validation.bloodPressure');
+  }
+
+  const { systolic: systolicRange, diastolic: diastolicRange } = BLOOD_PRESSURE_RANGE;
+  if (systolic < systolicRange.min || systolic > systolicRange.max) {
+    return t('questionnaire.validation.systolicRange', systolicRange);
+  }
+  if (diastolic < diastolicRange.min || diastolic > diastolicRange.max) {
+    return t('questionnaire.validation.diastolicRange', diastolicRange);
+  }
+  if (systolic <= diastolic) {
+    return t('questionnaire.validation.bloodPressureOrder');
+  }
+
+  return null;
+}
+
+function validateRepeatedGroup(question: Question, value: any): string | null {
+  if (!Array.isArray(value)) {
+    return t('questionnaire.validation.required');
+  }
+  if (question.minItems !== undefined && value.length < question.minItems) {
+    return t('questionnaire.validation.minItems', { count: question.minItems });
+  }
+  if (question.maxItems !== undefined && value.length > question.maxItems) {
+    return t('questionnaire.validation.maxItems', { count: question.maxItems });
+  }
+
+  for (let index = 0; index < value.length; index++) {
+    for (const field of question.fields || []) {
+      const fieldValue = value[index]?.[field.id];
+      const params = { field: translateText(field.text), item: index + 1 };
+      if (field.required && !isAnswered(typeof fieldValue === 'string' ? fieldValue.trim() : fieldValue)) {
+        return t('questionnaire.validation.groupFieldRequired', params);
+      }
+      if (field.type === 'number' && isAnswered(fieldValue) && isNaN(Number(fieldValue))) {
+        return t('questionnaire.validation.groupFieldNumber', params);
+      }
+    }
+  }
+
+  return null;
+}
+
+function validateYesNoDetails(question: Question, value: any): string | null {
+  if (value?.answer !== 'yes' && value?.answer !== 'no') {
+    return t('questionnaire.validation.required');
+  }
+  if (value.answer === 'yes' && question.detailsRequired && !value.details?.trim()) {
+    return t('questionnaire.validation.details');
+  }
+
+  return null;
+}
+
+function isQuestionnaireFlow(definition: any): definition is QuestionnaireFlow {
+  return !!definition &&
+    typeof definition.id === 'string' &&
+    typeof definition.version === 'number' &&
+    typeof definition.startQuestionId === 'string' &&
+    Array.isArray(definition.questions) &&
+    definition.questions.every((q: any) => typeof q?.id === 'string' && typeof q?.type === 'string');
+}
+
+export async function loadQuestionnaireFlow(
+  flowId: string = ADAPTIVE_QUESTIONNAIRE.id,
+  fallback: QuestionnaireFlow = ADAPTIVE_QUESTIONNAIRE
+): Promise<QuestionnaireFlow> {
+  try {
+    const { data, error } = await supabase
+      .from('questionnaire_flows')
+      .select('definition')
+      .eq('flow_id', flowId)
+      .eq('is_active', true)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data || !isQuestionnaireFlow(data.definition)) {
+      return fallback;
+    }
+
+    const errors = validateQuestionnaireFlow(data.definition).filter(issue => issue.severity === 'error');
+    if (errors.length > 0) {
+      console.warn('Stored questionnaire flow is invalid, using bundled flow:', errors);
+      return fallback;
+    }
+
+    // Untranslated text is still shown, just not in the patient's language
+    const untranslated = validateFlowTranslations(data.definition);
+    if (untranslated.length > 0) {
+      console.warn('Stored questionnaire flow has untranslated strings:', untranslated);
+    }
+
+    return data.definition;
+  } catch (error) {
+    console.error('Error loading questionnaire flow:', error);
+    return fallback;
+  }
+}
+
+function applyAnswerMigration(answers: Record<string, any>, migration: AnswerMigration): Record<string, any> {
+  const migrated: Record<string, any> = {};
+
+  Object.entries(answers).forEach(([questionId, value]) => {
+    if (migration.removeQuestions?.includes(questionId)) return;
+
+    const target = migration.moveToFields?.[questionId];
+    if (target) {
+      migrated[target.questionId] = { ...migrated[target.questionId], [target.field]: value };
+      return;
+    }
+
+    const newId = migration.renameQuestions?.[questionId] || questionId;
+    const valueMap = migration.renameValues?.[newId];
+    const mapValue = (v: any) => (valueMap && String(v) in valueMap ? valueMap[String(v)] : v);
+
+    migrated[newId] = Array.isArray(value) ? value.map(mapValue) : mapValue(value);
+  });
+
+  return migrated;
+}
+
+export function migrateAnswers(
+  answers: Record<string, any>,
+  fromVersion: number | null | undefined,
+  questionnaire: QuestionnaireFlow = ADAPTIVE_QUESTIONNAIRE
+): Record<string, any> {
+  let version = fromVersion ?? LEGACY_QUESTIONNAIRE_VERSION;
+  let migrated = { ...answers };
+
+  while (version < questionnaire.version) {
+    const migration = questionnaire.answerMigrations?.find(m => m.fromVersion === version);
+    if (!migration) {
+      console.warn(`No answer migration from questionnaire version ${version} to ${questionnaire.version}`);
+      break;
+    }
+    migrated = applyAnswerMigration(migrated, migration);
+    version = migration.toVersion;
+  }
+
+  return migrated;
+}
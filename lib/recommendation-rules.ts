@@ -0,0 +1,286 @@
+import { countSelectedOptions, evaluateRule, getBmi, type RuleExpression } from './questionnaire';
+import { translateText } from './i18n';
+
+// The risk factor a recommendation works on, so its benefit can be projected (see lib/what-if.ts)
+export type RecommendationFocus = 'weight' | 'activity' | 'smoking' | 'blood_pressure';
+
+export interface RecommendationEvidence {
+  source: string;
+  url?: string;
+}
+
+export interface RecommendationRule {
+  id: string;
+  type: 'lifestyle' | 'clinical';
+  // Higher priorities are shown first and survive the MAX_RECOMMENDATIONS cut
+  priority: number;
+  // Evaluated over the answers plus the derived facts in RecommendationFacts
+  condition: RuleExpression;
+  // Translation key or literal text
+  text: string;
+  evidence: RecommendationEvidence;
+  focus?: RecommendationFocus;
+  // Only the highest-priority rule of a group is kept
+  group?: string;
+}
+
+export interface Recommendation {
+  content: string;
+  type: 'lifestyle' | 'clinical';
+  focus?: RecommendationFocus;
+  rule_id: string;
+  priority: number;
+  evidence: RecommendationEvidence;
+}
+
+// Values computed from the answers, available to rule conditions as `{ answer: '$bmi' }` etc.
+// The `$` prefix keeps them apart from question ids.
+export interface RecommendationFacts {
+  $risk_category: string;
+  $bmi: number | null;
+  $symptom_count: number;
+}
+
+export const MAX_RECOMMENDATIONS = 8;
+
+const ADA_STANDARDS = 'American Diabetes Association. Standards of Care in Diabetes—2025. Diabetes Care 48 (Suppl. 1)';
+const ADA_STANDARDS_URL = 'https://diabetesjournals.org/care/issue/48/Supplement_1';
+const WHO_ACTIVITY = 'WHO guidelines on physical activity and sedentary behaviour, 2020';
+const WHO_ACTIVITY_URL = 'https://www.who.int/publications/i/item/9789240015128';
+
+const isCategory = (...categories: string[]): RuleExpression =>
+  ({ op: 'in', left: { answer: '$risk_category' }, right: categories });
+
+export const RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'critical-consultation',
+    type: 'clinical',
+    priority: 100,
+    condition: isCategory('critical'),
+    text: 'recommendation.critical-consultation',
+    evidence: { source: `${ADA_STANDARDS}, Section 2: Diagnosis and Classification of Diabetes`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'critical-glucose-monitoring',
+    type: 'clinical',
+    priority: 90,
+    condition: isCategory('critical'),
+    text: 'recommendation.critical-glucose-monitoring',
+    evidence: { source: `${ADA_STANDARDS}, Section 7: Diabetes Technology`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'symptoms-evaluation',
+    type: 'clinical',
+    priority: 85,
+    condition: { op: 'gt', left: { answer: '$symptom_count' }, right: 2 },
+    text: 'recommendation.symptoms-evaluation',
+    evidence: { source: `${ADA_STANDARDS}, Section 2: Diagnosis and Classification of Diabetes`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'high-risk-dietitian',
+    type: 'clinical',
+    priority: 80,
+    condition: isCategory('high', 'critical'),
+    text: 'recommendation.high-risk-dietitian',
+    evidence: { source: `${ADA_STANDARDS}, Section 3: Prevention or Delay of Diabetes`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'smoking-cessation',
+    type: 'clinical',
+    priority: 75,
+    focus: 'smoking',
+    condition: { op: 'eq', left: { answer: 'smoking' }, right: 'current' },
+    text: 'recommendation.smoking-cessation',
+    evidence: { source: `${ADA_STANDARDS}, Section 5: Facilitating Positive Health Behaviors`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'family-history-screening',
+    type: 'clinical',
+    priority: 70,
+    condition: { op: 'eq', left: { answer: 'family-history' }, right: 'yes' },
+    text: 'recommendation.family-history-screening',
+    evidence: {
+      source: 'US Preventive Services Task Force. Screening for Prediabetes and Type 2 Diabetes. JAMA 2021;326(8):736-743',
+      url: 'https://doi.org/10.1001/jama.2021.12531'
+    }
+  },
+  {
+    id: 'blood-pressure',
+    type: 'clinical',
+    priority: 65,
+    focus: 'blood_pressure',
+    condition: { op: 'gt', left: { answer: 'blood-pressure', field: 'systolic' }, right: 130 },
+    text: 'recommendation.blood-pressure',
+    evidence: { source: `${ADA_STANDARDS}, Section 10: Cardiovascular Disease and Risk Management`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'activity-sedentary-start',
+    type: 'lifestyle',
+    priority: 60,
+    focus: 'activity',
+    group: 'activity-goal',
+    condition: { op: 'eq', left: { answer: 'activity-level' }, right: 'sedentary' },
+    text: 'recommendation.activity-sedentary-start',
+    evidence: { source: WHO_ACTIVITY, url: WHO_ACTIVITY_URL }
+  },
+  {
+    id: 'weight-loss',
+    type: 'lifestyle',
+    priority: 60,
+    focus: 'weight',
+    condition: { op: 'gt', left: { answer: '$bmi' }, right: 25 },
+    text: 'recommendation.weight-loss',
+    evidence: {
+      source: 'Diabetes Prevention Program Research Group. Reduction in the incidence of type 2 diabetes with lifestyle intervention or metformin. N Engl J Med 2002;346:393-403',
+      url: 'https://doi.org/10.1056/NEJMoa012512'
+    }
+  },
+  {
+    id: 'activity-light-increase',
+    type: 'lifestyle',
+    priority: 55,
+    focus: 'activity',
+    group: 'activity-goal',
+    condition: { op: 'eq', left: { answer: 'activity-level' }, right: 'light' },
+    text: 'recommendation.activity-light-increase',
+    evidence: { source: WHO_ACTIVITY, url: WHO_ACTIVITY_URL }
+  },
+  {
+    id: 'diet-whole-foods',
+    type: 'lifestyle',
+    priority: 50,
+    condition: { op: 'eq', left: { answer: 'diet-habits' }, right: 'poor' },
+    text: 'recommendation.diet-whole-foods',
+    evidence: { source: `${ADA_STANDARDS}, Section 5: Facilitating Positive Health Behaviors`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'diet-fiber',
+    type: 'lifestyle',
+    priority: 45,
+    condition: { op: 'lte', left: { answer: 'diet_quality' }, right: 4 },
+    text: 'recommendation.diet-fiber',
+    evidence: {
+      source: 'Reynolds A, et al. Carbohydrate quality and human health: a series of systematic reviews and meta-analyses. Lancet 2019;393:434-445',
+      url: 'https://doi.org/10.1016/S0140-6736(18)31809-9'
+    }
+  },
+  {
+    id: 'diet-portion-control',
+    type: 'lifestyle',
+    priority: 40,
+    condition: { op: 'eq', left: { answer: 'diet-habits' }, right: 'poor' },
+    text: 'recommendation.diet-portion-control',
+    evidence: { source: `${ADA_STANDARDS}, Section 8: Obesity and Weight Management`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'activity-sedentary-group',
+    type: 'lifestyle',
+    priority: 35,
+    focus: 'activity',
+    condition: { op: 'eq', left: { answer: 'activity-level' }, right: 'sedentary' },
+    text: 'recommendation.activity-sedentary-group',
+    evidence: { source: WHO_ACTIVITY, url: WHO_ACTIVITY_URL }
+  },
+  {
+    id: 'stress-management',
+    type: 'lifestyle',
+    priority: 30,
+    condition: { op: 'gte', left: { answer: 'stress-level' }, right: 7 },
+    text: 'recommendation.stress-management',
+    evidence: { source: `${ADA_STANDARDS}, Section 5: Facilitating Positive Health Behaviors`, url: ADA_STANDARDS_URL }
+  },
+  {
+    id: 'sleep',
+    type: 'lifestyle',
+    priority: 30,
+    condition: { op: 'in', left: { answer: 'sleep-quality' }, right: ['poor', 'fair'] },
+    text: 'recommendation.sleep',
+    evidence: {
+      source: 'Shan Z, et al. Sleep duration and risk of type 2 diabetes: a meta-analysis of prospective studies. Diabetes Care 2015;38(3):529-537',
+      url: 'https://doi.org/10.2337/dc14-2073'
+    }
+  },
+  {
+    id: 'rural-health-center',
+    type: 'clinical',
+    priority: 25,
+    group: 'local-resources',
+    condition: { op: 'eq', left: { answer: 'location' }, right: 'rural' },
+    text: 'recommendation.rural-health-center',
+    evidence: { source: 'World Health Organization. Global report on diabetes, 2016', url: 'https://www.who.int/publications/i/item/9789241565257' }
+  },
+  {
+    id: 'urban-resources',
+    type: 'lifestyle',
+    priority: 10,
+    group: 'local-resources',
+    condition: { op: 'neq', left: { answer: 'location' }, right: 'rural' },
+    text: 'recommendation.urban-resources',
+    evidence: { source: 'World Health Organization. Global report on diabetes, 2016', url: 'https://www.who.int/publications/i/item/9789241565257' }
+  },
+  {
+    id: 'hydration',
+    type: 'lifestyle',
+    priority: 5,
+    condition: { op: 'not', arg: isCategory('critical') },
+    text: 'recommendation.hydration',
+    evidence: {
+      source: 'Roussel R, et al. Low water intake and risk for new-onset hyperglycemia. Diabetes Care 2011;34(12):2551-2554',
+      url: 'https://doi.org/10.2337/dc11-0652'
+    }
+  }
+];
+
+export function getRecommendationFacts(answers: Record<string, any>, riskCategory: string): RecommendationFacts {
+  return {
+    $risk_category: riskCategory,
+    $bmi: getBmi(answers),
+    $symptom_count: countSelectedOptions('symptoms', answers.symptoms)
+  };
+}
+
+export function getRecommendationRule(id: string): RecommendationRule | null {
+  return RECOMMENDATION_RULES.find(rule => rule.id === id) || null;
+}
+
+// Rules that fire for the answers, highest priority first, before deduplication and the cut
+export function evaluateRecommendationRules(
+  answers: Record<string, any>,
+  riskCategory: string,
+  rules: RecommendationRule[] = RECOMMENDATION_RULES
+): RecommendationRule[] {
+  const facts = { ...answers, ...getRecommendationFacts(answers, riskCategory) };
+
+  // Array.prototype.sort is stable, so equal priorities keep their definition order
+  return rules
+    .filter(rule => evaluateRule(rule.condition, facts))
+    .sort((a, b) => b.priority - a.priority);
+}
+
+export function generateRecommendations(
+  answers: Record<string, any>,
+  riskCategory: string,
+  rules: RecommendationRule[] = RECOMMENDATION_RULES
+): Recommendation[] {
+  const seenGroups = new Set<string>();
+  const seenContent = new Set<string>();
+  const recommendations: Recommendation[] = [];
+
+  for (const rule of evaluateRecommendationRules(answers, riskCategory, rules)) {
+    const content = translateText(rule.text);
+    if ((rule.group && seenGroups.has(rule.group)) || seenContent.has(content)) continue;
+    if (rule.group) seenGroups.add(rule.group);
+    seenContent.add(content);
+
+    recommendations.push({
+      content,
+      type: rule.type,
+      focus: rule.focus,
+      rule_id: rule.id,
+      priority: rule.priority,
+      evidence: rule.evidence
+    });
+  }
+
+  return recommendations.slice(0, MAX_RECOMMENDATIONS);
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabase';
+import { countSelectedOptions, migrateAnswers } from './questionnaire';
 
 export interface ResearchPreferences {
   participateInResearch: boolean;
@@ -173,14 +174,12 @@ export async function anonymizeAndExportHealthData(
       return null;
     }
 
-    const answers = submission.answers as any;
+    // Normalize answers onto the current questionnaire ids so exports are comparable across releases
+    const answers = migrateAnswers(submission.answers as Record<string, any>, submission.questionnaire_version);
     const riskPrediction = submission.risk_predictions?.[0];
 
     // Count symptoms
-    const symptoms = answers.symptoms || [];
-    const symptomsCount = Array.isArray(symptoms) 
-      ? symptoms.filter((s: string) => s !== 'none').length 
-      : 0;
+    const symptomsCount = countSelectedOptions('symptoms', answers.symptoms);
 
     // Determine location type
     let locationType: 'urban' | 'rural' = 'urban';
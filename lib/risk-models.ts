@@ -0,0 +1,277 @@
+import {
+  RISK_CATEGORY_BANDS,
+  generateProbabilities,
+  simulateRiskPrediction,
+  type RiskFactorContribution,
+  type SimulatedRiskPrediction
+} from './assessment-simulation';
+import { getBmi, getSystolicBp } from './questionnaire';
+
+// A risk scorer that runs on-device from ADAPTIVE_QUESTIONNAIRE answers
+export interface RiskModel {
+  id: string;
+  version: string;
+  name: string;
+  description: string;
+  predict: (answers: Record<string, any>) => SimulatedRiskPrediction;
+}
+
+// Whether a prediction came from the AI service or was computed on-device
+export type PredictionSource = 'api' | 'simulation';
+
+// A prediction together with the model that produced it, as stored on risk_predictions
+export type RiskPrediction = SimulatedRiskPrediction & {
+  model_id: string;
+  model_version: string | null;
+  source: PredictionSource;
+};
+
+// The FastAPI /predict-risk service. It is not an on-device model, but selecting it
+// (the default) means "use the service and fall back to an on-device model when offline".
+export const AI_ENGINE_MODEL_ID = 'ai-engine';
+
+// The service's model evaluated on-device, registered once its coefficients are downloaded
+export const AI_ENGINE_OFFLINE_MODEL_ID = 'ai-engine-offline';
+
+const DEFAULT_FALLBACK_MODEL_ID = 'glucogard-heuristic';
+
+interface ScoreBand {
+  maxScore: number;
+}
+
+function getBandLevel(score: number, bands: ScoreBand[]): number {
+  const level = bands.findIndex(band => score <= band.maxScore);
+  return level === -1 ? bands.length - 1 : level;
+}
+
+// Places a screening score inside the matching band of the heuristic's 0-100 scale so the
+// shared probability mapping can be reused and the most likely class matches the category
+function toHeuristicScale(score: number, bands: ScoreBand[], maxScore: number): number {
+  const level = getBandLevel(score, bands);
+
+  const low = level === 0 ? 0 : bands[level - 1].maxScore + 1;
+  const high = level === bands.length - 1 ? maxScore : bands[level].maxScore;
+  const fraction = high === low ? 0.5 : (score - low) / (high - low);
+
+  const targetLow = level === 0 ? 0 : RISK_CATEGORY_BANDS[level - 1].maxScore + 1;
+  const targetHigh = RISK_CATEGORY_BANDS[level].maxScore;
+  return targetLow + Math.min(Math.max(fraction, 0), 1) * (targetHigh - targetLow);
+}
+
+function buildPrediction(
+  score: number,
+  maxScore: number,
+  bands: ScoreBand[],
+  factors: RiskFactorContribution[]
+): SimulatedRiskPrediction {
+  const riskLevel = getBandLevel(score, bands);
+
+  return {
+    risk_category: RISK_CATEGORY_BANDS[riskLevel].category,
+    risk_level: riskLevel,
+    probabilities: generateProbabilities(toHeuristicScale(score, bands, maxScore)),
+    risk_score: score,
+    max_score: maxScore,
+    contributing_factors: factors.filter(f => f.points > 0).sort((a, b) => b.points - a.points)
+  };
+}
+
+function isPhysicallyActive(answers: Record<string, any>): boolean {
+  return answers['activity-level'] === 'moderate' || answers['activity-level'] === 'active';
+}
+
+// The questionnaire has no diagnosis question, so a reading of 140 or more stands in for
+// "treated for / told you have high blood pressure"
+function hasHighBloodPressure(answers: Record<string, any>): boolean {
+  return (getSystolicBp(answers) || 0) >= 140;
+}
+
+function getFamilyDegree(answers: Record<string, any>): 'first' | 'second' | null {
+  if (answers['family-history'] !== 'yes') return null;
+  const relatives: string[] = Array.isArray(answers['family-details']) ? answers['family-details'] : [];
+  return relatives.includes('parent') || relatives.includes('sibling') ? 'first' : 'second';
+}
+
+// Finnish Diabetes Risk Score (Lindström & Tuomilehto, 2003). Waist circumference is
+// not asked, so it contributes no points and the maximum reachable score is 22 of 26.
+const findriscModel: RiskModel = {
+  id: 'findrisc',
+  version: '1.0.0',
+  name: 'FINDRISC',
+  description: 'Finnish Diabetes Risk Score, estimating the 10-year risk of type 2 diabetes',
+  predict: answers => {
+    const factors: RiskFactorContribution[] = [];
+    const age = answers.age || 0;
+    const bmi = getBmi(answers);
+
+    factors.push({
+      factor: 'age',
+      label: 'Age',
+      points: age > 64 ? 4 : age >= 55 ? 3 : age >= 45 ? 2 : 0,
+      explanation: `Age ${age} (45-54: 2 points, 55-64: 3, over 64: 4).`
+    });
+
+    if (bmi !== null) {
+      factors.push({
+        factor: 'bmi',
+        label: 'Body mass index',
+        points: bmi > 30 ? 3 : bmi >= 25 ? 1 : 0,
+        explanation: `BMI ${bmi.toFixed(1)} (25-30: 1 point, over 30: 3).`
+      });
+    }
+
+    if (!isPhysicallyActive(answers)) {
+      factors.push({
+        factor: 'physical_activity',
+        label: 'Physical activity',
+        points: 2,
+        explanation: 'Less than 30 minutes of physical activity on most days.'
+      });
+    }
+
+    if (answers['diet-habits'] === 'poor' || answers['diet-habits'] === 'fair') {
+      factors.push({
+        factor: 'diet',
+        label: 'Vegetables and fruit',
+        points: 1,
+        explanation: 'Vegetables, fruit or berries are not eaten every day.'
+      });
+    }
+
+    if (hasHighBloodPressure(answers)) {
+      factors.push({
+        factor: 'blood_pressure',
+        label: 'Blood pressure',
+        points: 2,
+        explanation: `Systolic blood pressure of ${getSystolicBp(answers)} mmHg, taken as treated hypertension.`
+      });
+    }
+
+    if (answers['glucose-history']?.answer === 'yes') {
+      factors.push({
+        factor: 'high_glucose_history',
+        label: 'High blood glucose',
+        points: 5,
+        explanation: 'High blood glucose has been found before, e.g. at a check-up or during pregnancy.'
+      });
+    }
+
+    const familyDegree = getFamilyDegree(answers);
+    if (familyDegree) {
+      factors.push({
+        factor: 'family_history',
+        label: 'Family history',
+        points: familyDegree === 'first' ? 5 : 3,
+        explanation: familyDegree === 'first'
+          ? 'A parent, brother, sister or child has diabetes.'
+          : 'A grandparent, aunt, uncle or cousin has diabetes.'
+      });
+    }
+
+    const score = factors.reduce((sum, f) => sum + f.points, 0);
+    // Published bands: low, slightly elevated, moderate, high, very high
+    return buildPrediction(score, 26, [{ maxScore: 6 }, { maxScore: 11 }, { maxScore: 14 }, { maxScore: 20 }, { maxScore: 26 }], factors);
+  }
+};
+
+// American Diabetes Association type 2 diabetes risk test (Bang et al., 2009). A score of
+// 5 or more indicates high risk. Gestational diabetes is not asked separately.
+const adaRiskTestModel: RiskModel = {
+  id: 'ada-risk-test',
+  version: '1.0.0',
+  name: 'ADA Risk Test',
+  description: 'American Diabetes Association risk test for undiagnosed type 2 diabetes',
+  predict: answers => {
+    const factors: RiskFactorContribution[] = [];
+    const age = answers.age || 0;
+    const bmi = getBmi(answers);
+
+    factors.push({
+      factor: 'age',
+      label: 'Age',
+      points: age >= 60 ? 3 : age >= 50 ? 2 : age >= 40 ? 1 : 0,
+      explanation: `Age ${age} (40-49: 1 point, 50-59: 2, 60 or older: 3).`
+    });
+
+    if (answers.gender === 'male') {
+      factors.push({ factor: 'gender', label: 'Sex', points: 1, explanation: 'Men are at higher risk.' });
+    }
+
+    if (getFamilyDegree(answers) === 'first') {
+      factors.push({
+        factor: 'family_history',
+        label: 'Family history',
+        points: 1,
+        explanation: 'A parent, brother or sister has diabetes.'
+      });
+    }
+
+    if (hasHighBloodPressure(answers)) {
+      factors.push({
+        factor: 'blood_pressure',
+        label: 'Blood pressure',
+        points: 1,
+        explanation: `Systolic blood pressure of ${getSystolicBp(answers)} mmHg.`
+      });
+    }
+
+    if (!isPhysicallyActive(answers)) {
+      factors.push({ factor: 'physical_activity', label: 'Physical activity', points: 1, explanation: 'Not physically active.' });
+    }
+
+    if (bmi !== null) {
+      factors.push({
+        factor: 'bmi',
+        label: 'Weight',
+        // The published height/weight chart corresponds to these BMI cut-offs
+        points: bmi >= 40 ? 3 : bmi >= 30 ? 2 : bmi >= 25 ? 1 : 0,
+        explanation: `BMI ${bmi.toFixed(1)} (25-30: 1 point, 30-40: 2, 40 or more: 3).`
+      });
+    }
+
+    const score = factors.reduce((sum, f) => sum + f.points, 0);
+    // 5 or more is the published "increased risk" threshold, so it starts the moderate band
+    return buildPrediction(score, 10, [{ maxScore: 2 }, { maxScore: 4 }, { maxScore: 6 }, { maxScore: 8 }, { maxScore: 10 }], factors);
+  }
+};
+
+const heuristicModel: RiskModel = {
+  id: 'glucogard-heuristic',
+  version: '2.0.0',
+  name: 'GlucoGard heuristic',
+  description: 'Point-based estimate used when the AI service is unavailable',
+  predict: answers => simulateRiskPrediction(answers)
+};
+
+const registry = new Map<string, RiskModel>(
+  [heuristicModel, findriscModel, adaRiskTestModel].map(model => [model.id, model])
+);
+
+export function registerRiskModel(model: RiskModel): void {
+  registry.set(model.id, model);
+}
+
+export function getRiskModel(id: string): RiskModel | null {
+  return registry.get(id) || null;
+}
+
+export function getRiskModels(): RiskModel[] {
+  return Array.from(registry.values());
+}
+
+// The model this deployment scores with, set through EXPO_PUBLIC_RISK_MODEL
+export function getSelectedRiskModelId(): string {
+  return process.env.EXPO_PUBLIC_RISK_MODEL || AI_ENGINE_MODEL_ID;
+}
+
+// The on-device model to use: the selected one, or when the AI service is selected and
+// cannot be reached, its offline copy if downloaded and otherwise the heuristic
+export function getLocalRiskModel(): RiskModel {
+  const selectedId = getSelectedRiskModelId();
+  const preferredId = selectedId === AI_ENGINE_MODEL_ID ? AI_ENGINE_OFFLINE_MODEL_ID : selectedId;
+  return getRiskModel(preferredId) || registry.get(DEFAULT_FALLBACK_MODEL_ID)!;
+}
+
+export function runRiskModel(model: RiskModel, answers: Record<string, any>): RiskPrediction {
+  return { ...model.predict(answers), model_id: model.id, model_version: model.version, source: 'simulation' };
+}
@@ -0,0 +1,200 @@
+import { supabase } from './supabase';
+import { getBmi, getSystolicBp, migrateAnswers } from './questionnaire';
+
+export type TrajectoryFactor = 'bmi' | 'blood_pressure' | 'activity' | 'diet';
+
+// Submission with the fields the trajectory needs, as selected by loadRiskTrajectory
+export interface TrajectorySubmission {
+  id: string;
+  submitted_at: string | null;
+  answers: any;
+  questionnaire_version?: number | null;
+  risk_predictions?: {
+    risk_score: number;
+    risk_category: string;
+  }[];
+}
+
+export interface TrajectoryPoint {
+  submissionId: string;
+  submittedAt: string;
+  // risk_predictions.risk_score, the 0-4 risk level
+  riskLevel: number | null;
+  riskCategory: string | null;
+  factors: Record<TrajectoryFactor, number | null>;
+}
+
+export interface FactorDelta {
+  factor: TrajectoryFactor;
+  label: string;
+  unit: string;
+  previous: number;
+  current: number;
+  delta: number;
+  worsened: boolean;
+  significant: boolean;
+}
+
+// Comparison of a submission with the one before it
+export interface TrajectoryChange {
+  fromSubmissionId: string;
+  toSubmissionId: string;
+  riskLevelDelta: number | null;
+  deltas: FactorDelta[];
+  // The risk level went up, or a factor worsened by at least its significance threshold
+  significantWorsening: boolean;
+}
+
+export interface RiskTrajectory {
+  points: TrajectoryPoint[];
+  changes: TrajectoryChange[];
+  latestChange: TrajectoryChange | null;
+}
+
+interface FactorDefinition {
+  factor: TrajectoryFactor;
+  label: string;
+  unit: string;
+  higherIsWorse: boolean;
+  // Smallest change in the worse direction that is flagged
+  significantChange: number;
+  read: (answers: Record<string, any>) => number | null;
+}
+
+const ACTIVITY_LEVELS = ['sedentary', 'light', 'moderate', 'active'];
+
+const TRAJECTORY_FACTORS: FactorDefinition[] = [
+  {
+    factor: 'bmi',
+    label: 'BMI',
+    unit: 'kg/m²',
+    higherIsWorse: true,
+    significantChange: 1,
+    read: answers => {
+      const bmi = getBmi(answers);
+      return bmi === null ? null : Math.round(bmi * 10) / 10;
+    }
+  },
+  {
+    factor: 'blood_pressure',
+    label: 'Systolic blood pressure',
+    unit: 'mmHg',
+    higherIsWorse: true,
+    significantChange: 10,
+    read: answers => getSystolicBp(answers) ?? null
+  },
+  {
+    factor: 'activity',
+    label: 'Activity level',
+    unit: '',
+    higherIsWorse: false,
+    // Any step down, e.g. from moderate to light
+    significantChange: 1,
+    read: answers => {
+      const level = ACTIVITY_LEVELS.indexOf(answers['activity-level']);
+      return level === -1 ? null : level;
+    }
+  },
+  {
+    factor: 'diet',
+    label: 'Diet quality',
+    unit: '/10',
+    higherIsWorse: false,
+    significantChange: 2,
+    read: answers => (typeof answers.diet_quality === 'number' ? answers.diet_quality : null)
+  }
+];
+
+export function getActivityLevelLabel(level: number): string {
+  const id = ACTIVITY_LEVELS[level];
+  return id ? id.charAt(0).toUpperCase() + id.slice(1) : '';
+}
+
+function toPoint(submission: TrajectorySubmission): TrajectoryPoint {
+  // Answers from older questionnaire versions are compared in today's shape
+  const answers = migrateAnswers(submission.answers || {}, submission.questionnaire_version);
+  const prediction = submission.risk_predictions?.[0];
+
+  return {
+    submissionId: submission.id,
+    submittedAt: submission.submitted_at || '',
+    riskLevel: prediction ? prediction.risk_score : null,
+    riskCategory: prediction ? prediction.risk_category : null,
+    factors: TRAJECTORY_FACTORS.reduce((factors, definition) => {
+      factors[definition.factor] = definition.read(answers);
+      return factors;
+    }, {} as TrajectoryPoint['factors'])
+  };
+}
+
+function compareFactors(previous: TrajectoryPoint, current: TrajectoryPoint): FactorDelta[] {
+  return TRAJECTORY_FACTORS.flatMap(definition => {
+    const before = previous.factors[definition.factor];
+    const after = current.factors[definition.factor];
+    if (before === null || after === null) return [];
+
+    const delta = Math.round((after - before) * 10) / 10;
+    const worseningAmount = definition.higherIsWorse ? delta : -delta;
+
+    return [{
+      factor: definition.factor,
+      label: definition.label,
+      unit: definition.unit,
+      previous: before,
+      current: after,
+      delta,
+      worsened: worseningAmount > 0,
+      significant: worseningAmount >= definition.significantChange
+    }];
+  });
+}
+
+// Compares each submission with the previous one, oldest first
+export function buildRiskTrajectory(submissions: TrajectorySubmission[]): RiskTrajectory {
+  const points = submissions
+    .map(toPoint)
+    .sort((a, b) => new Date(a.submittedAt).getTime() - new Date(b.submittedAt).getTime());
+
+  const changes = points.slice(1).map((current, i): TrajectoryChange => {
+    const previous = points[i];
+    const riskLevelDelta = previous.riskLevel !== null && current.riskLevel !== null
+      ? current.riskLevel - previous.riskLevel
+      : null;
+    const deltas = compareFactors(previous, current);
+
+    return {
+      fromSubmissionId: previous.submissionId,
+      toSubmissionId: current.submissionId,
+      riskLevelDelta,
+      deltas,
+      significantWorsening: (riskLevelDelta !== null && riskLevelDelta > 0) || deltas.some(d => d.significant)
+    };
+  });
+
+  return {
+    points,
+    changes,
+    latestChange: changes.length > 0 ? changes[changes.length - 1] : null
+  };
+}
+
+export async function loadRiskTrajectory(patientId: string): Promise<RiskTrajectory> {
+  const { data, error } = await supabase
+    .from('health_submissions')
+    .select(`
+      id,
+      submitted_at,
+      answers,
+      questionnaire_version,
+      risk_predictions (
+        risk_score,
+        risk_category
+      )
+    `)
+    .eq('patient_id', patientId)
+    .neq('status', 'draft')
+    .order('submitted_at', { ascending: true });
+
+  if (error) throw error;
+  return buildRiskTrajectory(data || []);
+}
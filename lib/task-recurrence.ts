@@ -0,0 +1,226 @@
+// Recurrence rules for diabetes tasks. Days are YYYY-MM-DD keys in the user's time zone (see
+// lib/time-zones.ts) and weekdays are numbered like Date#getDay, 0 being Sunday. Day arithmetic
+// here works on calendar days only, so it is the same in every time zone.
+
+export type TaskFrequency = 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'every_n_days';
+
+export interface TaskRecurrence {
+  frequency: TaskFrequency;
+  // Scheduled days for 'weekdays'
+  weekdays?: number[] | null;
+  // Period length for 'every_n_days'
+  interval_days?: number | null;
+  // Day the schedule starts from; 'every_n_days' periods are aligned to it
+  anchor: string;
+}
+
+// The days a single completion covers. A task is done for the period once it has a
+// completion on any of its days.
+export interface TaskPeriod {
+  start: string;
+  end: string;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Completed periods in a row that earn a congratulation
+const STREAK_MILESTONES: Record<TaskFrequency, number> = {
+  daily: 7,
+  weekdays: 7,
+  weekly: 4,
+  monthly: 3,
+  every_n_days: 5
+};
+
+const STREAK_UNITS: Record<TaskFrequency, [string, string]> = {
+  daily: ['day', 'days'],
+  weekdays: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  every_n_days: ['time', 'times']
+};
+
+function formatUtcDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+export function addDays(dayKey: string, days: number): string {
+  const date = new Date(`${dayKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return formatUtcDay(date);
+}
+
+export function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+export function getWeekday(dayKey: string): number {
+  return new Date(`${dayKey}T00:00:00Z`).getUTCDay();
+}
+
+// The period containing `day`, or null when the task is not scheduled that day
+export function getPeriod(recurrence: TaskRecurrence, day: string): TaskPeriod | null {
+  switch (recurrence.frequency) {
+    case 'weekdays':
+      return (recurrence.weekdays || []).includes(getWeekday(day)) ? { start: day, end: day } : null;
+    case 'weekly': {
+      // Weeks run Monday to Sunday
+      const start = addDays(day, -((getWeekday(day) + 6) % 7));
+      return { start, end: addDays(start, 6) };
+    }
+    case 'monthly': {
+      const start = `${day.slice(0, 7)}-01`;
+      const nextMonth = new Date(`${start}T00:00:00Z`);
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+      return { start, end: addDays(formatUtcDay(nextMonth), -1) };
+    }
+    case 'every_n_days': {
+      const interval = Math.max(1, recurrence.interval_days || 1);
+      const index = Math.floor(daysBetween(recurrence.anchor, day) / interval);
+      const start = addDays(recurrence.anchor, index * interval);
+      return { start, end: addDays(start, interval - 1) };
+    }
+    default:
+      return { start: day, end: day };
+  }
+}
+
+// Looks at most a week away, which finds a scheduled day for any non-empty weekday set
+function findPeriod(recurrence: TaskRecurrence, from: string, step: 1 | -1): TaskPeriod | null {
+  for (let i = 0; i < 7; i++) {
+    const period = getPeriod(recurrence, addDays(from, i * step));
+    if (period) return period;
+  }
+  return null;
+}
+
+function getPreviousPeriod(recurrence: TaskRecurrence, period: TaskPeriod): TaskPeriod | null {
+  return findPeriod(recurrence, addDays(period.start, -1), -1);
+}
+
+function getNextPeriod(recurrence: TaskRecurrence, period: TaskPeriod): TaskPeriod | null {
+  return findPeriod(recurrence, addDays(period.end, 1), 1);
+}
+
+function isPeriodCompleted(period: TaskPeriod, completedDays: string[]): boolean {
+  return completedDays.some(day => day >= period.start && day <= period.end);
+}
+
+export function isDueOn(recurrence: TaskRecurrence, day: string): boolean {
+  return getPeriod(recurrence, day) !== null;
+}
+
+export function isCompletedForPeriod(recurrence: TaskRecurrence, completedDays: string[], today: string): boolean {
+  const period = getPeriod(recurrence, today);
+  return period !== null && isPeriodCompleted(period, completedDays);
+}
+
+// Today while the current period is still open, otherwise the first day of the next period
+export function getNextDueDate(recurrence: TaskRecurrence, completedDays: string[], today: string): string {
+  const current = getPeriod(recurrence, today);
+  if (current && !isPeriodCompleted(current, completedDays)) return today;
+
+  const next = getNextPeriod(recurrence, current || { start: today, end: today });
+  return next ? next.start : today;
+}
+
+// The day a period's reminder falls on. Weekly and monthly tasks are reminded on the weekday or
+// day of the month their schedule started, the last day of shorter months standing in for the 31st.
+function getReminderDay(recurrence: TaskRecurrence, period: TaskPeriod): string {
+  switch (recurrence.frequency) {
+    case 'weekly':
+      return addDays(period.start, (getWeekday(recurrence.anchor) + 6) % 7);
+    case 'monthly': {
+      const day = Math.min(Number(recurrence.anchor.slice(8)), Number(period.end.slice(8)));
+      return `${period.start.slice(0, 8)}${String(day).padStart(2, '0')}`;
+    }
+    default:
+      return period.start;
+  }
+}
+
+// One reminder day per period from `nextDueOn` through `until`. When the reminder day of the
+// period that is due has already passed, the reminder falls on `nextDueOn` instead.
+export function getReminderDays(recurrence: TaskRecurrence, nextDueOn: string, until: string): string[] {
+  const days: string[] = [];
+  let period = getPeriod(recurrence, nextDueOn);
+
+  while (period && period.start <= until) {
+    const day = getReminderDay(recurrence, period);
+    const reminderDay = day < nextDueOn ? nextDueOn : day;
+    if (reminderDay <= until) days.push(reminderDay);
+    period = getNextPeriod(recurrence, period);
+  }
+  return days;
+}
+
+// Completed periods in a row. The current period adds to the streak once completed, but
+// does not break it while it is still open.
+export function calculateStreak(recurrence: TaskRecurrence, completedDays: string[], today: string): number {
+  const current = getPeriod(recurrence, today);
+  let period = current && isPeriodCompleted(current, completedDays)
+    ? current
+    : getPreviousPeriod(recurrence, current || { start: today, end: today });
+
+  let streak = 0;
+  while (period && isPeriodCompleted(period, completedDays)) {
+    streak++;
+    period = getPreviousPeriod(recurrence, period);
+  }
+  return streak;
+}
+
+// Share of periods completed within the window, counting periods from the anchor on.
+// The current period only counts once completed, so an open period is not a miss.
+export function calculateAdherence(
+  recurrence: TaskRecurrence,
+  completedDays: string[],
+  today: string,
+  windowDays: number
+): { expected: number; completed: number; rate: number } {
+  const windowStart = addDays(today, -(windowDays - 1));
+  const start = recurrence.anchor > windowStart ? recurrence.anchor : windowStart;
+
+  let expected = 0;
+  let completed = 0;
+  let period = getPeriod(recurrence, today) || getPreviousPeriod(recurrence, { start: today, end: today });
+
+  while (period && period.end >= start) {
+    const done = isPeriodCompleted(period, completedDays);
+    if (done || period.end < today) {
+      expected++;
+      if (done) completed++;
+    }
+    period = getPreviousPeriod(recurrence, period);
+  }
+
+  return { expected, completed, rate: expected > 0 ? completed / expected : 0 };
+}
+
+export function isStreakMilestone(recurrence: TaskRecurrence, streak: number): boolean {
+  return streak > 0 && streak % STREAK_MILESTONES[recurrence.frequency] === 0;
+}
+
+// e.g. "5 days in a row" or "2 weeks in a row"
+export function formatStreak(recurrence: Pick<TaskRecurrence, 'frequency'>, streak: number): string {
+  const [singular, plural] = STREAK_UNITS[recurrence.frequency];
+  return `${streak} ${streak === 1 ? singular : plural} in a row`;
+}
+
+export function formatRecurrence(recurrence: Omit<TaskRecurrence, 'anchor'>): string {
+  switch (recurrence.frequency) {
+    case 'weekdays':
+      return [...(recurrence.weekdays || [])]
+        .sort((a, b) => ((a + 6) % 7) - ((b + 6) % 7))
+        .map(day => WEEKDAY_LABELS[day])
+        .join(', ');
+    case 'weekly':
+      return 'Once a week';
+    case 'monthly':
+      return 'Once a month';
+    case 'every_n_days':
+      return `Every ${recurrence.interval_days} days`;
+    default:
+      return 'Every day';
+  }
+}
@@ -0,0 +1,115 @@
+import { supabase } from './supabase';
+
+// Day keys (YYYY-MM-DD) are the calendar day in the user's time zone, so a task done at
+// 01:00 in Kigali counts toward that day and not the previous UTC day.
+
+const userTimeZones = new Map<string, string>();
+
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getDateParts(date: Date, timeZone: string): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(date);
+
+  return parts.reduce((values, part) => {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+    return values;
+  }, {} as Record<string, number>);
+}
+
+export function toDayKey(date: Date, timeZone: string): string {
+  const { year, month, day } = getDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Minutes the time zone is ahead of UTC at the given instant, e.g. 120 for Africa/Kigali
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute, second } = getDateParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+// The instant the day starts in the time zone. On days where clocks change at midnight,
+// this is the first moment that exists, e.g. 01:00.
+export function startOfDay(dayKey: string, timeZone: string): Date {
+  const utcMidnight = Date.parse(`${dayKey}T00:00:00Z`);
+  const offset = getTimeZoneOffset(new Date(utcMidnight), timeZone);
+  const guess = utcMidnight - offset * 60000;
+
+  // Across a change the offset at local midnight differs from the one at UTC midnight, so try
+  // both and keep the earliest instant that falls on the day
+  const offsetAtGuess = getTimeZoneOffset(new Date(guess), timeZone);
+  const instants = [guess, utcMidnight - offsetAtGuess * 60000]
+    .filter(instant => toDayKey(new Date(instant), timeZone) === dayKey);
+
+  return new Date(instants.length > 0 ? Math.min(...instants) : guess);
+}
+
+// The instant the clock in the time zone shows `hour`:`minute` on the day. A time skipped when
+// clocks go forward moves forward with them; a repeated time is its first occurrence.
+export function atLocalTime(dayKey: string, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.parse(`${dayKey}T00:00:00Z`) + (hour * 60 + minute) * 60000;
+  const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+  const offsetAtGuess = getTimeZoneOffset(new Date(wallClock - offset * 60000), timeZone);
+  const instants = [wallClock - offset * 60000, wallClock - offsetAtGuess * 60000];
+
+  const exact = instants.filter(instant => instant + getTimeZoneOffset(new Date(instant), timeZone) * 60000 === wallClock);
+  return new Date(exact.length > 0 ? Math.min(...exact) : Math.max(...instants));
+}
+
+// The stored time zone of the user. Profiles without one get the device's time zone.
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const cached = userTimeZones.get(userId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading time zone:', error);
+    return getDeviceTimeZone();
+  }
+
+  if (data?.timezone && isValidTimeZone(data.timezone)) {
+    userTimeZones.set(userId, data.timezone);
+    return data.timezone;
+  }
+
+  const deviceTimeZone = getDeviceTimeZone();
+  if (data) await saveUserTimeZone(userId, deviceTimeZone);
+  return deviceTimeZone;
+}
+
+export async function saveUserTimeZone(userId: string, timeZone: string): Promise<void> {
+  if (!isValidTimeZone(timeZone)) throw new Error(`Unknown time zone: ${timeZone}`);
+
+  const { error } = await supabase
+    .from('profiles')
+    .update({ timezone: timeZone })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  userTimeZones.set(userId, timeZone);
+}
@@ -0,0 +1,107 @@
+export type UnitId = 'kg' | 'lb' | 'st' | 'cm' | 'in' | 'ft-in' | 'mg/dL' | 'mmol/L' | 'mmHg';
+
+export interface UnitDefinition {
+  id: UnitId;
+  label: string;
+  // Canonical unit this unit converts to and from
+  canonical: UnitId;
+  // Labels of the input fields, e.g. ['ft', 'in'] for compound units
+  parts: string[];
+  toCanonical: (parts: number[]) => number;
+  // Compound units round to `decimals` before splitting the value into its parts
+  fromCanonical: (value: number, decimals: number) => number[];
+}
+
+const KG_PER_LB = 0.45359237;
+const LB_PER_ST = 14;
+const CM_PER_IN = 2.54;
+const IN_PER_FT = 12;
+// Molar mass of glucose: 1 mmol/L = 18.0182 mg/dL
+const MG_DL_PER_MMOL_L = 18.0182;
+
+// The total is rounded in the smaller unit before it is split, so 72 in never shows as 5 ft 12 in
+const splitCompound = (total: number, perMajor: number, decimals: number): number[] => {
+  const rounded = roundTo(total, decimals);
+  const major = Math.floor(rounded / perMajor);
+  return [major, rounded - major * perMajor];
+};
+
+const identity = (id: UnitId): UnitDefinition => ({
+  id,
+  label: id,
+  canonical: id,
+  parts: [id],
+  toCanonical: ([value]) => value,
+  fromCanonical: value => [value],
+});
+
+export const UNITS: Record<UnitId, UnitDefinition> = {
+  kg: identity('kg'),
+  cm: identity('cm'),
+  'mg/dL': identity('mg/dL'),
+  mmHg: identity('mmHg'),
+  lb: {
+    id: 'lb',
+    label: 'lb',
+    canonical: 'kg',
+    parts: ['lb'],
+    toCanonical: ([lb]) => lb * KG_PER_LB,
+    fromCanonical: kg => [kg / KG_PER_LB],
+  },
+  st: {
+    id: 'st',
+    label: 'st / lb',
+    canonical: 'kg',
+    parts: ['st', 'lb'],
+    toCanonical: ([st, lb = 0]) => (st * LB_PER_ST + lb) * KG_PER_LB,
+    fromCanonical: (kg, decimals) => splitCompound(kg / KG_PER_LB, LB_PER_ST, decimals),
+  },
+  in: {
+    id: 'in',
+    label: 'in',
+    canonical: 'cm',
+    parts: ['in'],
+    toCanonical: ([inches]) => inches * CM_PER_IN,
+    fromCanonical: cm => [cm / CM_PER_IN],
+  },
+  'ft-in': {
+    id: 'ft-in',
+    label: 'ft / in',
+    canonical: 'cm',
+    parts: ['ft', 'in'],
+    toCanonical: ([ft, inches = 0]) => (ft * IN_PER_FT + inches) * CM_PER_IN,
+    fromCanonical: (cm, decimals) => splitCompound(cm / CM_PER_IN, IN_PER_FT, decimals),
+  },
+  'mmol/L': {
+    id: 'mmol/L',
+    label: 'mmol/L',
+    canonical: 'mg/dL',
+    parts: ['mmol/L'],
+    toCanonical: ([mmol]) => mmol * MG_DL_PER_MMOL_L,
+    fromCanonical: mgdl => [mgdl / MG_DL_PER_MMOL_L],
+  },
+};
+
+export function isUnitId(value: any): value is UnitId {
+  return typeof value === 'string' && value in UNITS;
+}
+
+export function roundTo(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export function toCanonicalValue(parts: number[], unit: UnitId, decimals: number = 1): number {
+  return roundTo(UNITS[unit].toCanonical(parts), decimals);
+}
+
+export function fromCanonicalValue(value: number, unit: UnitId, decimals: number = 1): number[] {
+  return UNITS[unit].fromCanonical(value, decimals).map(part => roundTo(part, decimals));
+}
+
+export function formatWithUnit(value: number, unit: UnitId, decimals: number = 1): string {
+  const definition = UNITS[unit];
+  return fromCanonicalValue(value, unit, decimals)
+    .map((part, index) => `${part} ${definition.parts[index]}`)
+    .join(' ');
+}
@@ -0,0 +1,108 @@
+import { RISK_CATEGORY_BANDS, type SimulatedRiskPrediction } from './assessment-simulation';
+import { getBmi, getSystolicBp } from './questionnaire';
+import type { RecommendationFocus } from './recommendation-rules';
+import { getLocalRiskModel, runRiskModel, type RiskModel, type RiskPrediction } from './risk-models';
+
+export type WhatIfScenarioId = 'lose-weight' | 'moderate-activity' | 'quit-smoking' | 'lower-blood-pressure';
+
+export interface WhatIfScenario {
+  id: WhatIfScenarioId;
+  label: string;
+  description: string;
+  // Recommendations with this focus are the ones that work towards the scenario
+  focus: RecommendationFocus;
+  isApplicable: (answers: Record<string, any>) => boolean;
+  apply: (answers: Record<string, any>) => Record<string, any>;
+}
+
+export interface WhatIfProjection {
+  scenarioIds: WhatIfScenarioId[];
+  baseline: RiskPrediction;
+  projected: RiskPrediction;
+  // Negative when the scenario lowers the risk
+  riskLevelDelta: number;
+  riskScoreDelta: number;
+  // Projected minus baseline probability of each category
+  probabilityShift: SimulatedRiskPrediction['probabilities'];
+}
+
+const WEIGHT_LOSS_KG = 5;
+const BLOOD_PRESSURE_REDUCTION = 10;
+const TARGET_SYSTOLIC_BP = 120;
+
+export const WHAT_IF_SCENARIOS: WhatIfScenario[] = [
+  {
+    id: 'lose-weight',
+    label: `Lose ${WEIGHT_LOSS_KG} kg`,
+    description: `Your weight ${WEIGHT_LOSS_KG} kg lower, everything else unchanged.`,
+    focus: 'weight',
+    isApplicable: answers => (getBmi(answers) ?? 0) >= 25,
+    apply: answers => ({ ...answers, weight: answers.weight - WEIGHT_LOSS_KG })
+  },
+  {
+    id: 'moderate-activity',
+    label: 'Become moderately active',
+    description: 'Regular exercise 3-4 times a week.',
+    focus: 'activity',
+    isApplicable: answers => answers['activity-level'] === 'sedentary' || answers['activity-level'] === 'light',
+    apply: answers => {
+      const { 'sedentary-details': _, ...rest } = answers;
+      return { ...rest, 'activity-level': 'moderate' };
+    }
+  },
+  {
+    id: 'quit-smoking',
+    label: 'Quit smoking',
+    description: 'Stop smoking and become a former smoker.',
+    focus: 'smoking',
+    isApplicable: answers => answers.smoking === 'current',
+    apply: answers => ({ ...answers, smoking: 'former' })
+  },
+  {
+    id: 'lower-blood-pressure',
+    label: `Lower blood pressure by ${BLOOD_PRESSURE_REDUCTION} mmHg`,
+    description: 'For example through less salt, more activity or treatment from your doctor.',
+    focus: 'blood_pressure',
+    isApplicable: answers => (getSystolicBp(answers) || 0) > TARGET_SYSTOLIC_BP,
+    apply: answers => ({
+      ...answers,
+      'blood-pressure': {
+        ...answers['blood-pressure'],
+        systolic: Math.max(TARGET_SYSTOLIC_BP, getSystolicBp(answers)! - BLOOD_PRESSURE_REDUCTION)
+      }
+    })
+  }
+];
+
+export function getApplicableScenarios(answers: Record<string, any>): WhatIfScenario[] {
+  return WHAT_IF_SCENARIOS.filter(scenario => scenario.isApplicable(answers));
+}
+
+// Re-runs the model with the scenarios applied. The baseline is re-run with the same model,
+// so a stored prediction from the AI service is not compared against an on-device estimate.
+export function projectWhatIf(
+  answers: Record<string, any>,
+  scenarioIds: WhatIfScenarioId[],
+  model: RiskModel = getLocalRiskModel()
+): WhatIfProjection {
+  const modified = WHAT_IF_SCENARIOS
+    .filter(scenario => scenarioIds.includes(scenario.id) && scenario.isApplicable(answers))
+    .reduce((current, scenario) => scenario.apply(current), answers);
+
+  const baseline = runRiskModel(model, answers);
+  const projected = runRiskModel(model, modified);
+
+  const probabilityShift = RISK_CATEGORY_BANDS.reduce((shift, band) => {
+    shift[band.label] = projected.probabilities[band.label] - baseline.probabilities[band.label];
+    return shift;
+  }, {} as WhatIfProjection['probabilityShift']);
+
+  return {
+    scenarioIds,
+    baseline,
+    projected,
+    riskLevelDelta: projected.risk_level - baseline.risk_level,
+    riskScoreDelta: projected.risk_score - baseline.risk_score,
+    probabilityShift
+  };
+}
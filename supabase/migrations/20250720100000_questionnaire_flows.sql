@@ -0,0 +1,52 @@
+/*
+  # Questionnaire Flows
+
+  1. New Tables
+    - `questionnaire_flows` - Serialized questionnaire definitions
+      - `flow_id` (text, matches `QuestionnaireFlow.id`)
+      - `definition` (jsonb, the full flow including declarative conditions and validation rules)
+      - `is_active` (boolean, only active rows are served to the app)
+
+  2. Security
+    - Enable RLS
+    - Authenticated users can read active flows
+    - Doctors can manage flows
+*/
+
+CREATE TABLE IF NOT EXISTS questionnaire_flows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  flow_id text NOT NULL,
+  definition jsonb NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_questionnaire_flows_flow_id ON questionnaire_flows(flow_id);
+CREATE INDEX IF NOT EXISTS idx_questionnaire_flows_active ON questionnaire_flows(is_active);
+
+ALTER TABLE questionnaire_flows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read active questionnaire flows"
+  ON questionnaire_flows
+  FOR SELECT
+  TO authenticated
+  USING (is_active = true);
+
+CREATE POLICY "Doctors can manage questionnaire flows"
+  ON questionnaire_flows
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'doctor'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'doctor'
+    )
+  );
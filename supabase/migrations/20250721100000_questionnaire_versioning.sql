@@ -0,0 +1,37 @@
+/*
+  # Questionnaire Versioning
+
+  1. Changes
+    - `questionnaire_flows.version` - Integer version of each stored flow definition
+    - `health_submissions.questionnaire_id` - Flow that produced the answers
+    - `health_submissions.questionnaire_version` - Flow version that produced the answers
+
+  2. Notes
+    - Existing submissions were all produced by version 1 of `diabetes-risk-assessment`
+    - Answers from older versions are mapped onto current question ids in the app via `migrateAnswers`
+*/
+
+ALTER TABLE questionnaire_flows
+ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_constraint
+        WHERE conname = 'questionnaire_flows_flow_id_version_key'
+    ) THEN
+        ALTER TABLE questionnaire_flows
+        ADD CONSTRAINT questionnaire_flows_flow_id_version_key UNIQUE (flow_id, version);
+    END IF;
+END;
+$$;
+
+ALTER TABLE health_submissions
+ADD COLUMN IF NOT EXISTS questionnaire_id text NOT NULL DEFAULT 'diabetes-risk-assessment';
+
+ALTER TABLE health_submissions
+ADD COLUMN IF NOT EXISTS questionnaire_version integer NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_health_submissions_questionnaire
+  ON health_submissions(questionnaire_id, questionnaire_version);
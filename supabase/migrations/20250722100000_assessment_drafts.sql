@@ -0,0 +1,54 @@
+/*
+  # Assessment Drafts
+
+  1. Changes
+    - Allow `draft` as a `health_submissions.status` for partially completed assessments
+
+  2. Security
+    - Patients can update their own draft submissions, including promoting them to `pending`
+    - Patients can delete their own draft submissions
+
+  3. Notes
+    - Drafts are excluded from dashboards and doctor views in the app
+    - Stale drafts are discarded by the app after 14 days
+*/
+
+ALTER TABLE health_submissions
+DROP CONSTRAINT IF EXISTS health_submissions_status_check;
+
+ALTER TABLE health_submissions
+ADD CONSTRAINT health_submissions_status_check CHECK (status IN ('draft', 'pending', 'reviewed'));
+
+CREATE POLICY "Patients can update own draft submissions"
+  ON health_submissions
+  FOR UPDATE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM patients
+      WHERE patients.id = health_submissions.patient_id
+      AND patients.user_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    status IN ('draft', 'pending')
+    AND EXISTS (
+      SELECT 1 FROM patients
+      WHERE patients.id = health_submissions.patient_id
+      AND patients.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Patients can delete own draft submissions"
+  ON health_submissions
+  FOR DELETE
+  TO authenticated
+  USING (
+    status = 'draft'
+    AND EXISTS (
+      SELECT 1 FROM patients
+      WHERE patients.id = health_submissions.patient_id
+      AND patients.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,16 @@
+/*
+  # Risk Model Provenance
+
+  1. Changes
+    - Add `model_id` and `model_version` to `risk_predictions`, recording which risk model
+      (the AI service, the on-device heuristic, FINDRISC, the ADA risk test, ...) produced each prediction
+
+  2. Notes
+    - Predictions made before this migration have no recorded model and keep NULL
+*/
+
+ALTER TABLE risk_predictions
+ADD COLUMN IF NOT EXISTS model_id text,
+ADD COLUMN IF NOT EXISTS model_version text;
+
+CREATE INDEX IF NOT EXISTS idx_risk_predictions_model_id ON risk_predictions(model_id);
@@ -0,0 +1,15 @@
+/*
+  # Risk Prediction Source
+
+  1. Changes
+    - Add `source` to `risk_predictions`: 'api' when the AI service produced the prediction,
+      'simulation' when it was computed on-device because another model is selected or the
+      service could not be reached
+
+  2. Notes
+    - Predictions made before this migration have no recorded source and keep NULL
+*/
+
+ALTER TABLE risk_predictions
+ADD COLUMN IF NOT EXISTS source text
+CHECK (source IS NULL OR source IN ('api', 'simulation'));
@@ -0,0 +1,138 @@
+/*
+  # Risk Prediction Revisions
+
+  1. Changes
+    - Add `revision` and `needs_rescoring` to `risk_predictions`. Predictions simulated on-device
+      because the AI service could not be reached are flagged for re-scoring.
+    - New `risk_prediction_revisions` table keeping every superseded version of a prediction
+    - New `revise_risk_prediction` function replacing a prediction with a re-scored one
+
+  2. Security
+    - Patients and doctors can read revisions of predictions they can read
+    - `revise_risk_prediction` only revises predictions of the calling patient
+
+  3. Notes
+    - `risk_predictions` keeps holding the current revision, so existing queries are unchanged
+    - When the risk category changes, a system message is posted to the patient's doctor chats
+*/
+
+ALTER TABLE risk_predictions
+ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS needs_rescoring boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_risk_predictions_needs_rescoring
+  ON risk_predictions(needs_rescoring) WHERE needs_rescoring;
+
+CREATE TABLE IF NOT EXISTS risk_prediction_revisions (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  prediction_id uuid REFERENCES risk_predictions(id) ON DELETE CASCADE NOT NULL,
+  revision integer NOT NULL,
+  risk_score integer NOT NULL,
+  risk_category text NOT NULL,
+  raw_prediction jsonb,
+  model_id text,
+  model_version text,
+  source text,
+  generated_at timestamptz,
+  superseded_at timestamptz DEFAULT now(),
+  UNIQUE (prediction_id, revision)
+);
+
+ALTER TABLE risk_prediction_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can read own prediction revisions"
+  ON risk_prediction_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM risk_predictions
+      JOIN health_submissions ON health_submissions.id = risk_predictions.submission_id
+      JOIN patients ON patients.id = health_submissions.patient_id
+      WHERE risk_predictions.id = risk_prediction_revisions.prediction_id
+      AND patients.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Doctors can read all prediction revisions"
+  ON risk_prediction_revisions
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.user_id = auth.uid()
+      AND profiles.role = 'doctor'
+    )
+  );
+
+-- Archives the current prediction and replaces it with a re-scored one. Returns the new revision.
+CREATE OR REPLACE FUNCTION revise_risk_prediction(
+  p_prediction_id uuid,
+  p_risk_score integer,
+  p_risk_category text,
+  p_raw_prediction jsonb,
+  p_model_id text,
+  p_model_version text,
+  p_source text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_prediction risk_predictions%ROWTYPE;
+  prediction_patient_id uuid;
+BEGIN
+  SELECT risk_predictions.*
+  INTO current_prediction
+  FROM risk_predictions
+  JOIN health_submissions ON health_submissions.id = risk_predictions.submission_id
+  JOIN patients ON patients.id = health_submissions.patient_id
+  WHERE risk_predictions.id = p_prediction_id
+  AND patients.user_id = auth.uid()
+  FOR UPDATE OF risk_predictions;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk prediction % not found', p_prediction_id;
+  END IF;
+
+  SELECT patient_id INTO prediction_patient_id
+  FROM health_submissions
+  WHERE id = current_prediction.submission_id;
+
+  INSERT INTO risk_prediction_revisions (
+    prediction_id, revision, risk_score, risk_category, raw_prediction,
+    model_id, model_version, source, generated_at
+  ) VALUES (
+    current_prediction.id, current_prediction.revision, current_prediction.risk_score,
+    current_prediction.risk_category, current_prediction.raw_prediction,
+    current_prediction.model_id, current_prediction.model_version,
+    current_prediction.source, current_prediction.generated_at
+  );
+
+  UPDATE risk_predictions SET
+    risk_score = p_risk_score,
+    risk_category = p_risk_category,
+    raw_prediction = p_raw_prediction,
+    model_id = p_model_id,
+    model_version = p_model_version,
+    source = p_source,
+    generated_at = now(),
+    revision = current_prediction.revision + 1,
+    needs_rescoring = false
+  WHERE id = p_prediction_id;
+
+  IF current_prediction.risk_category <> p_risk_category THEN
+    INSERT INTO messages (chat_id, patient_id, sender_id, sender_type, message)
+    SELECT chats.id, prediction_patient_id, auth.uid(), 'system',
+      format('The risk assessment was re-scored by the AI service once it was available again. Risk category changed from %s to %s.',
+        current_prediction.risk_category, p_risk_category)
+    FROM chats
+    WHERE chats.patient_id = prediction_patient_id;
+  END IF;
+
+  RETURN current_prediction.revision + 1;
+END;
+$$;
@@ -0,0 +1,18 @@
+/*
+  # Recommendation Rules
+
+  1. Changes
+    - Add `rule_id`, `priority` and `evidence` to `recommendations`, recording which rule in
+      lib/recommendation-rules.ts produced an automatic recommendation, its rank and the
+      evidence it is based on
+
+  2. Notes
+    - Recommendations written by doctors and those generated before this migration keep NULL
+*/
+
+ALTER TABLE recommendations
+ADD COLUMN IF NOT EXISTS rule_id text,
+ADD COLUMN IF NOT EXISTS priority integer,
+ADD COLUMN IF NOT EXISTS evidence text;
+
+CREATE INDEX IF NOT EXISTS idx_recommendations_rule_id ON recommendations(rule_id);
@@ -0,0 +1,88 @@
+/*
+  # Care Plan Editing
+
+  1. Changes
+    - Add `position`, `updated_at`, `updated_by`, `retired_at` and `retired_by` to `recommendations`
+      so doctors can reorder, edit and retire the recommendations of a submission
+    - Existing recommendations are numbered in their current display order (priority, then age)
+    - New `get_doctor_names` function resolving the doctors who wrote or changed a recommendation
+    - New `notify_care_plan_change` function telling the patient their care plan changed
+
+  2. Security
+    - Doctors could already insert and update recommendations; the policies are unchanged
+    - `get_doctor_names` only exposes doctors' full names
+    - `notify_care_plan_change` can only be called by doctors
+
+  3. Notes
+    - Retired recommendations are kept for the record and hidden from patients by the app
+    - `doctor_id` stays the author; it is NULL for recommendations generated by the rules
+    - The patient is notified through a system message in their doctor chats
+*/
+
+ALTER TABLE recommendations
+ADD COLUMN IF NOT EXISTS position integer,
+ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now(),
+ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES doctors(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS retired_at timestamptz,
+ADD COLUMN IF NOT EXISTS retired_by uuid REFERENCES doctors(id) ON DELETE SET NULL;
+
+UPDATE recommendations SET position = ordered.position
+FROM (
+  SELECT id, row_number() OVER (
+    PARTITION BY submission_id
+    ORDER BY priority DESC NULLS LAST, created_at
+  ) AS position
+  FROM recommendations
+) AS ordered
+WHERE recommendations.id = ordered.id
+AND recommendations.position IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_recommendations_position ON recommendations(submission_id, position);
+
+CREATE TRIGGER update_recommendations_updated_at
+  BEFORE UPDATE ON recommendations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Patients cannot read the doctors table, so names are resolved here for attribution
+CREATE OR REPLACE FUNCTION get_doctor_names(p_doctor_ids uuid[])
+RETURNS TABLE (doctor_id uuid, full_name text)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT doctors.id, profiles.full_name
+  FROM doctors
+  JOIN profiles ON profiles.user_id = doctors.user_id
+  WHERE doctors.id = ANY(p_doctor_ids);
+$$;
+
+-- Posts a system message about a care plan change to the patient's doctor chats
+CREATE OR REPLACE FUNCTION notify_care_plan_change(p_submission_id uuid, p_change text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission_patient_id uuid;
+BEGIN
+  IF NOT is_current_user_doctor() THEN
+    RAISE EXCEPTION 'Only doctors can change care plans';
+  END IF;
+
+  SELECT patient_id INTO submission_patient_id
+  FROM health_submissions
+  WHERE id = p_submission_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Health submission % not found', p_submission_id;
+  END IF;
+
+  INSERT INTO messages (chat_id, patient_id, sender_id, sender_type, message)
+  SELECT chats.id, submission_patient_id, auth.uid(), 'system',
+    format('Your care plan was updated: %s', p_change)
+  FROM chats
+  WHERE chats.patient_id = submission_patient_id;
+END;
+$$;
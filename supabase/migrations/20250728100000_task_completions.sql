@@ -0,0 +1,53 @@
+/*
+  # Task Completions
+
+  1. New Tables
+    - `task_completions` - One row per completion of a diabetes task, so adherence history is kept
+
+  2. Changes
+    - Existing completions are copied from `diabetes_tasks.completed_at`
+    - Drop `completed`, `completed_at` and `streak` from `diabetes_tasks`; the app derives them
+      from `task_completions`
+
+  3. Security
+    - Enable RLS; users can only access their own completions
+
+  4. Notes
+    - `completed_on` is the day the completion counts toward; a task is completed at most once a day
+*/
+
+CREATE TABLE IF NOT EXISTS task_completions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id uuid NOT NULL REFERENCES diabetes_tasks(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  completed_on date NOT NULL,
+  completed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (task_id, completed_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_completions_user_day ON task_completions(user_id, completed_on);
+CREATE INDEX IF NOT EXISTS idx_task_completions_task_id ON task_completions(task_id);
+
+ALTER TABLE task_completions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own task completions"
+  ON task_completions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+INSERT INTO task_completions (task_id, user_id, completed_on, completed_at)
+SELECT id, user_id, (completed_at AT TIME ZONE 'UTC')::date, completed_at
+FROM diabetes_tasks
+WHERE completed_at IS NOT NULL
+ON CONFLICT (task_id, completed_on) DO NOTHING;
+
+DROP INDEX IF EXISTS idx_diabetes_tasks_completed;
+DROP INDEX IF EXISTS idx_diabetes_tasks_completed_at;
+
+ALTER TABLE diabetes_tasks
+DROP COLUMN IF EXISTS completed,
+DROP COLUMN IF EXISTS completed_at,
+DROP COLUMN IF EXISTS streak;
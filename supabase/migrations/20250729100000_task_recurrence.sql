@@ -0,0 +1,31 @@
+/*
+  # Task Recurrence
+
+  1. Changes
+    - `diabetes_tasks.frequency` accepts `weekdays` and `every_n_days` besides `daily`, `weekly`
+      and `monthly`
+    - Add `weekdays` (0 = Sunday) for tasks scheduled on specific days of the week
+    - Add `interval_days` for tasks repeating every N days
+
+  2. Notes
+    - Weekly tasks run Monday to Sunday and monthly tasks per calendar month
+    - Every-N-days periods are counted from the day the task was created
+    - Periods, completion state and streaks are derived in lib/task-recurrence.ts
+*/
+
+ALTER TABLE diabetes_tasks
+DROP CONSTRAINT IF EXISTS diabetes_tasks_frequency_check;
+
+ALTER TABLE diabetes_tasks
+ADD CONSTRAINT diabetes_tasks_frequency_check
+  CHECK (frequency IN ('daily', 'weekdays', 'weekly', 'monthly', 'every_n_days'));
+
+ALTER TABLE diabetes_tasks
+ADD COLUMN IF NOT EXISTS weekdays smallint[],
+ADD COLUMN IF NOT EXISTS interval_days integer CHECK (interval_days IS NULL OR interval_days >= 2);
+
+ALTER TABLE diabetes_tasks
+ADD CONSTRAINT diabetes_tasks_recurrence_check CHECK (
+  (frequency <> 'weekdays' OR cardinality(weekdays) > 0)
+  AND (frequency <> 'every_n_days' OR interval_days IS NOT NULL)
+);
@@ -0,0 +1,15 @@
+/*
+  # Profile Time Zone
+
+  1. Changes
+    - Add `timezone` to `profiles`, an IANA name such as `Africa/Kigali`
+
+  2. Notes
+    - Task days (`task_completions.completed_on`) and reading history windows are computed in
+      this time zone, so a completion at 01:00 local time counts toward that local day
+    - Profiles without a time zone are given the device's time zone the next time the app loads
+      their tasks
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS timezone text;
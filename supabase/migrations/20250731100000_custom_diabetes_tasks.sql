@@ -0,0 +1,87 @@
+/*
+  # Custom Diabetes Tasks
+
+  1. Changes
+    - `diabetes_tasks.type` accepts `custom` for tasks users create themselves
+    - Add `archived_at`; archived tasks are hidden from the daily list but keep their completions
+    - Add `assigned_by` for tasks a doctor assigned to the patient
+    - `description` defaults to an empty string
+
+  2. Security
+    - Replace "Users can manage own diabetes tasks" with per-command policies
+    - Users can create, edit, archive and delete their own tasks, except tasks assigned by a doctor
+    - Doctors can read all tasks, and assign, edit and delete assigned tasks
+
+  3. Notes
+    - Reminders are local notifications, rescheduled on the patient's device whenever their tasks
+      change or the diabetes dashboard loads
+*/
+
+ALTER TABLE diabetes_tasks
+DROP CONSTRAINT IF EXISTS diabetes_tasks_type_check;
+
+ALTER TABLE diabetes_tasks
+ADD CONSTRAINT diabetes_tasks_type_check
+CHECK (type IN ('medication', 'blood_sugar', 'exercise', 'meal', 'hydration', 'foot_check', 'weight', 'custom'));
+
+ALTER TABLE diabetes_tasks
+ADD COLUMN IF NOT EXISTS archived_at timestamptz,
+ADD COLUMN IF NOT EXISTS assigned_by uuid REFERENCES doctors(id) ON DELETE SET NULL;
+
+ALTER TABLE diabetes_tasks
+ALTER COLUMN description SET DEFAULT '';
+
+CREATE INDEX IF NOT EXISTS idx_diabetes_tasks_archived_at ON diabetes_tasks(archived_at);
+CREATE INDEX IF NOT EXISTS idx_diabetes_tasks_assigned_by ON diabetes_tasks(assigned_by);
+
+DROP POLICY IF EXISTS "Users can manage own diabetes tasks" ON diabetes_tasks;
+
+CREATE POLICY "Users can read own diabetes tasks"
+  ON diabetes_tasks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own diabetes tasks"
+  ON diabetes_tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND assigned_by IS NULL);
+
+CREATE POLICY "Users can update own diabetes tasks"
+  ON diabetes_tasks
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id AND assigned_by IS NULL)
+  WITH CHECK (auth.uid() = user_id AND assigned_by IS NULL);
+
+CREATE POLICY "Users can delete own diabetes tasks"
+  ON diabetes_tasks
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id AND assigned_by IS NULL);
+
+CREATE POLICY "Doctors can read diabetes tasks"
+  ON diabetes_tasks
+  FOR SELECT
+  TO authenticated
+  USING (is_current_user_doctor());
+
+CREATE POLICY "Doctors can assign diabetes tasks"
+  ON diabetes_tasks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (assigned_by IN (SELECT id FROM doctors WHERE user_id = auth.uid()));
+
+CREATE POLICY "Doctors can update assigned diabetes tasks"
+  ON diabetes_tasks
+  FOR UPDATE
+  TO authenticated
+  USING (assigned_by IS NOT NULL AND is_current_user_doctor())
+  WITH CHECK (assigned_by IN (SELECT id FROM doctors WHERE user_id = auth.uid()));
+
+CREATE POLICY "Doctors can delete assigned diabetes tasks"
+  ON diabetes_tasks
+  FOR DELETE
+  TO authenticated
+  USING (assigned_by IS NOT NULL AND is_current_user_doctor());
@@ -0,0 +1,15 @@
+/*
+  # Glucose Unit
+
+  1. Changes
+    - Add `glucose_unit` to `profiles`, the unit the user enters and reads blood sugar in
+      (`mg/dL` or `mmol/L`)
+
+  2. Notes
+    - `blood_sugar_readings.reading` stays in mg/dL; readings entered in mmol/L are converted
+      before they are stored
+*/
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS glucose_unit text NOT NULL DEFAULT 'mg/dL'
+CHECK (glucose_unit IN ('mg/dL', 'mmol/L'));
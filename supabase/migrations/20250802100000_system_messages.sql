@@ -0,0 +1,111 @@
+/*
+  # System Messages
+
+  1. Changes
+    - `messages.sender_id` is now optional; system messages have no sender
+    - Add `message_key` and `message_params` to `messages` so the app can show system messages
+      in the reader's language. `message` keeps the English text.
+    - Existing system messages no longer name the user whose action posted them as sender
+    - `revise_risk_prediction` posts its notice as a system message
+
+  2. Security
+    - `revise_risk_prediction` only revises predictions that are queued for re-scoring
+    - Revisions must come from the AI service and use a known risk category
+
+  3. Notes
+    - Messages from doctors and patients still need a sender
+*/
+
+ALTER TABLE messages ALTER COLUMN sender_id DROP NOT NULL;
+
+ALTER TABLE messages
+ADD COLUMN IF NOT EXISTS message_key text,
+ADD COLUMN IF NOT EXISTS message_params jsonb;
+
+UPDATE messages SET sender_id = NULL WHERE sender_type = 'system';
+
+ALTER TABLE messages
+ADD CONSTRAINT messages_sender_check
+CHECK ((sender_type = 'system') = (sender_id IS NULL));
+
+-- Archives the current prediction and replaces it with a re-scored one. Returns the new revision.
+CREATE OR REPLACE FUNCTION revise_risk_prediction(
+  p_prediction_id uuid,
+  p_risk_score integer,
+  p_risk_category text,
+  p_raw_prediction jsonb,
+  p_model_id text,
+  p_model_version text,
+  p_source text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_prediction risk_predictions%ROWTYPE;
+  prediction_patient_id uuid;
+BEGIN
+  IF p_source IS DISTINCT FROM 'api' THEN
+    RAISE EXCEPTION 'Only predictions from the AI service can revise a risk prediction';
+  END IF;
+
+  IF p_risk_category IS NULL OR p_risk_category NOT IN ('non-diabetic', 'low', 'moderate', 'high', 'critical') THEN
+    RAISE EXCEPTION 'Unknown risk category %', p_risk_category;
+  END IF;
+
+  SELECT risk_predictions.*
+  INTO current_prediction
+  FROM risk_predictions
+  JOIN health_submissions ON health_submissions.id = risk_predictions.submission_id
+  JOIN patients ON patients.id = health_submissions.patient_id
+  WHERE risk_predictions.id = p_prediction_id
+  AND risk_predictions.needs_rescoring
+  AND patients.user_id = auth.uid()
+  FOR UPDATE OF risk_predictions;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Risk prediction % not found or not queued for re-scoring', p_prediction_id;
+  END IF;
+
+  SELECT patient_id INTO prediction_patient_id
+  FROM health_submissions
+  WHERE id = current_prediction.submission_id;
+
+  INSERT INTO risk_prediction_revisions (
+    prediction_id, revision, risk_score, risk_category, raw_prediction,
+    model_id, model_version, source, generated_at
+  ) VALUES (
+    current_prediction.id, current_prediction.revision, current_prediction.risk_score,
+    current_prediction.risk_category, current_prediction.raw_prediction,
+    current_prediction.model_id, current_prediction.model_version,
+    current_prediction.source, current_prediction.generated_at
+  );
+
+  UPDATE risk_predictions SET
+    risk_score = p_risk_score,
+    risk_category = p_risk_category,
+    raw_prediction = p_raw_prediction,
+    model_id = p_model_id,
+    model_version = p_model_version,
+    source = p_source,
+    generated_at = now(),
+    revision = current_prediction.revision + 1,
+    needs_rescoring = false
+  WHERE id = p_prediction_id;
+
+  IF current_prediction.risk_category <> p_risk_category THEN
+    INSERT INTO messages (chat_id, patient_id, sender_id, sender_type, message, message_key, message_params)
+    SELECT chats.id, prediction_patient_id, NULL, 'system',
+      format('The risk assessment was re-scored by the AI service once it was available again. Risk category changed from %s to %s.',
+        current_prediction.risk_category, p_risk_category),
+      'chat.system.riskRescored',
+      jsonb_build_object('from', current_prediction.risk_category, 'to', p_risk_category)
+    FROM chats
+    WHERE chats.patient_id = prediction_patient_id;
+  END IF;
+
+  RETURN current_prediction.revision + 1;
+END;
+$$;
@@ -0,0 +1,64 @@
+/*
+  # Care Plan Change Messages
+
+  1. Changes
+    - `notify_care_plan_change` takes the kind of change as a translation key with its parameters
+      instead of English text, and posts a system message without a sender
+
+  2. Security
+    - Only the known care plan changes can be posted; the function is still limited to doctors
+
+  3. Notes
+    - `message` keeps the English text for readers without the translation
+*/
+
+DROP FUNCTION IF EXISTS notify_care_plan_change(uuid, text);
+
+-- Posts a system message about a care plan change to the patient's doctor chats
+CREATE OR REPLACE FUNCTION notify_care_plan_change(
+  p_submission_id uuid,
+  p_message_key text,
+  p_message_params jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  submission_patient_id uuid;
+  english_message text;
+BEGIN
+  IF NOT is_current_user_doctor() THEN
+    RAISE EXCEPTION 'Only doctors can change care plans';
+  END IF;
+
+  english_message := CASE p_message_key
+    WHEN 'chat.system.carePlanAdded' THEN
+      format('Your care plan was updated: new recommendation "%s"', p_message_params->>'content')
+    WHEN 'chat.system.carePlanEdited' THEN
+      format('Your care plan was updated: recommendation changed to "%s"', p_message_params->>'content')
+    WHEN 'chat.system.carePlanRetired' THEN
+      format('Your care plan was updated: recommendation "%s" was removed', p_message_params->>'content')
+    WHEN 'chat.system.carePlanReordered' THEN
+      'Your care plan was updated: the order of your recommendations changed'
+  END;
+
+  IF english_message IS NULL THEN
+    RAISE EXCEPTION 'Unknown care plan change %', p_message_key;
+  END IF;
+
+  SELECT patient_id INTO submission_patient_id
+  FROM health_submissions
+  WHERE id = p_submission_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Health submission % not found', p_submission_id;
+  END IF;
+
+  INSERT INTO messages (chat_id, patient_id, sender_id, sender_type, message, message_key, message_params)
+  SELECT chats.id, submission_patient_id, NULL, 'system', english_message, p_message_key, p_message_params
+  FROM chats
+  WHERE chats.patient_id = submission_patient_id;
+END;
+$$;
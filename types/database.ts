@@ -115,54 +115,65 @@ export type Database = {
       }
       diabetes_tasks: {
         Row: {
+          archived_at: string | null
+          assigned_by: string | null
           color: string
-          completed: boolean | null
-          completed_at: string | null
           created_at: string | null
           description: string
           frequency: string
           icon: string
           id: string
-          streak: number | null
+          interval_days: number | null
           time: string | null
           title: string
           type: string
           updated_at: string | null
           user_id: string
+          weekdays: number[] | null
         }
         Insert: {
+          archived_at?: string | null
+          assigned_by?: string | null
           color: string
-          completed?: boolean | null
-          completed_at?: string | null
           created_at?: string | null
-          description: string
+          description?: string
           frequency: string
           icon: string
           id?: string
-          streak?: number | null
+          interval_days?: number | null
           time?: string | null
           title: string
           type: string
           updated_at?: string | null
           user_id: string
+          weekdays?: number[] | null
         }
         Update: {
+          archived_at?: string | null
+          assigned_by?: string | null
           color?: string
-          completed?: boolean | null
-          completed_at?: string | null
           created_at?: string | null
           description?: string
           frequency?: string
           icon?: string
           id?: string
-          streak?: number | null
+          interval_days?: number | null
           time?: string | null
           title?: string
           type?: string
           updated_at?: string | null
           user_id?: string
+          weekdays?: number[] | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "diabetes_tasks_assigned_by_fkey"
+            columns: ["assigned_by"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       doctors: {
         Row: {
@@ -190,6 +201,8 @@ export type Database = {
           answers: Json
           id: string
           patient_id: string
+          questionnaire_id: string
+          questionnaire_version: number
           status: string | null
           submitted_at: string | null
         }
@@ -197,6 +210,8 @@ export type Database = {
           answers: Json
           id?: string
           patient_id: string
+          questionnaire_id?: string
+          questionnaire_version?: number
           status?: string | null
           submitted_at?: string | null
         }
@@ -204,6 +219,8 @@ export type Database = {
           answers?: Json
           id?: string
           patient_id?: string
+          questionnaire_id?: string
+          questionnaire_version?: number
           status?: string | null
           submitted_at?: string | null
         }
@@ -259,8 +276,10 @@ export type Database = {
           created_at: string
           id: string
           message: string
+          message_key: string | null
+          message_params: Json | null
           patient_id: string
-          sender_id: string
+          sender_id: string | null
           sender_type: string
         }
         Insert: {
@@ -268,8 +287,10 @@ export type Database = {
           created_at?: string
           id?: string
           message: string
+          message_key?: string | null
+          message_params?: Json | null
           patient_id: string
-          sender_id: string
+          sender_id?: string | null
           sender_type: string
         }
         Update: {
@@ -277,8 +298,10 @@ export type Database = {
           created_at?: string
           id?: string
           message?: string
+          message_key?: string | null
+          message_params?: Json | null
           patient_id?: string
-          sender_id?: string
+          sender_id?: string | null
           sender_type?: string
         }
         Relationships: [
@@ -325,50 +348,107 @@ export type Database = {
         Row: {
           created_at: string | null
           full_name: string
+          glucose_unit: string
           id: string
           role: string
+          timezone: string | null
           user_id: string
         }
         Insert: {
           created_at?: string | null
           full_name: string
+          glucose_unit?: string
           id?: string
           role: string
+          timezone?: string | null
           user_id: string
         }
         Update: {
           created_at?: string | null
           full_name?: string
+          glucose_unit?: string
           id?: string
           role?: string
+          timezone?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      questionnaire_flows: {
+        Row: {
+          created_at: string | null
+          definition: Json
+          flow_id: string
+          id: string
+          is_active: boolean
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          definition: Json
+          flow_id: string
+          id?: string
+          is_active?: boolean
+          version: number
+        }
+        Update: {
+          created_at?: string | null
+          definition?: Json
+          flow_id?: string
+          id?: string
+          is_active?: boolean
+          version?: number
+        }
+        Relationships: []
+      }
       recommendations: {
         Row: {
           content: string
           created_at: string | null
           doctor_id: string | null
+          evidence: string | null
           id: string
+          position: number | null
+          priority: number | null
+          retired_at: string | null
+          retired_by: string | null
+          rule_id: string | null
           submission_id: string
           type: string
+          updated_at: string | null
+          updated_by: string | null
         }
         Insert: {
           content: string
           created_at?: string | null
           doctor_id?: string | null
+          evidence?: string | null
           id?: string
+          position?: number | null
+          priority?: number | null
+          retired_at?: string | null
+          retired_by?: string | null
+          rule_id?: string | null
           submission_id: string
           type: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Update: {
           content?: string
           created_at?: string | null
           doctor_id?: string | null
+          evidence?: string | null
           id?: string
+          position?: number | null
+          priority?: number | null
+          retired_at?: string | null
+          retired_by?: string | null
+          rule_id?: string | null
           submission_id?: string
           type?: string
+          updated_at?: string | null
+          updated_by?: string | null
         }
         Relationships: [
           {
@@ -378,6 +458,13 @@ export type Database = {
             referencedRelation: "doctors"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recommendations_retired_by_fkey"
+            columns: ["retired_by"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "recommendations_submission_id_fkey"
             columns: ["submission_id"]
@@ -385,6 +472,13 @@ export type Database = {
             referencedRelation: "health_submissions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "recommendations_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "doctors"
+            referencedColumns: ["id"]
+          },
         ]
       }
       research_preferences: {
@@ -425,29 +519,94 @@ export type Database = {
           },
         ]
       }
+      risk_prediction_revisions: {
+        Row: {
+          generated_at: string | null
+          id: string
+          model_id: string | null
+          model_version: string | null
+          prediction_id: string
+          raw_prediction: Json | null
+          revision: number
+          risk_category: string
+          risk_score: number
+          source: string | null
+          superseded_at: string | null
+        }
+        Insert: {
+          generated_at?: string | null
+          id?: string
+          model_id?: string | null
+          model_version?: string | null
+          prediction_id: string
+          raw_prediction?: Json | null
+          revision: number
+          risk_category: string
+          risk_score: number
+          source?: string | null
+          superseded_at?: string | null
+        }
+        Update: {
+          generated_at?: string | null
+          id?: string
+          model_id?: string | null
+          model_version?: string | null
+          prediction_id?: string
+          raw_prediction?: Json | null
+          revision?: number
+          risk_category?: string
+          risk_score?: number
+          source?: string | null
+          superseded_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "risk_prediction_revisions_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "risk_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       risk_predictions: {
         Row: {
           generated_at: string | null
           id: string
+          model_id: string | null
+          model_version: string | null
+          needs_rescoring: boolean
           raw_prediction: Json | null
+          revision: number
           risk_category: string
           risk_score: number
+          source: string | null
           submission_id: string
         }
         Insert: {
           generated_at?: string | null
           id?: string
+          model_id?: string | null
+          model_version?: string | null
+          needs_rescoring?: boolean
           raw_prediction?: Json | null
+          revision?: number
           risk_category: string
           risk_score: number
+          source?: string | null
           submission_id: string
         }
         Update: {
           generated_at?: string | null
           id?: string
+          model_id?: string | null
+          model_version?: string | null
+          needs_rescoring?: boolean
           raw_prediction?: Json | null
+          revision?: number
           risk_category?: string
           risk_score?: number
+          source?: string | null
           submission_id?: string
         }
         Relationships: [
@@ -460,6 +619,41 @@ export type Database = {
           },
         ]
       }
+      task_completions: {
+        Row: {
+          completed_at: string
+          completed_on: string
+          created_at: string | null
+          id: string
+          task_id: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string
+          completed_on: string
+          created_at?: string | null
+          id?: string
+          task_id: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string
+          completed_on?: string
+          created_at?: string | null
+          id?: string
+          task_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_completions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "diabetes_tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -473,10 +667,37 @@ export type Database = {
         Args: { user_uuid: string }
         Returns: string
       }
+      get_doctor_names: {
+        Args: { p_doctor_ids: string[] }
+        Returns: {
+          doctor_id: string
+          full_name: string
+        }[]
+      }
       is_current_user_doctor: {
         Args: Record<PropertyKey, never>
         Returns: boolean
       }
+      notify_care_plan_change: {
+        Args: {
+          p_submission_id: string
+          p_message_key: string
+          p_message_params?: Json
+        }
+        Returns: undefined
+      }
+      revise_risk_prediction: {
+        Args: {
+          p_prediction_id: string
+          p_risk_score: number
+          p_risk_category: string
+          p_raw_prediction: Json
+          p_model_id: string
+          p_model_version: string | null
+          p_source: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never